@@ -0,0 +1,374 @@
+/**
+ * Beat detection evaluation against annotated audio.
+ * 
+ * Decodes WAV files, runs the offline analysis pipeline on them frame by frame
+ * and scores the detected beats against annotation files. With --sweep, also
+ * tries every combination of detector settings and ranks them by F-measure,
+ * to pick the defaults in App.tsx from data.
+ * 
+ * Each `track.wav` needs an annotation file `track.beats` or `track.txt` with
+ * one beat per line, its time in seconds first (further columns, such as beat
+ * numbers, are ignored; lines starting with # are comments).
+ * 
+ * Usage:
+ *   npm run evaluate -- <wav files or directories> [options]
+ * 
+ * Options:
+ *   --annotations <dir>   Directory of the annotation files (default: next to each WAV)
+ *   --tolerance <ms>      Hit window around each annotated beat (default: 70)
+ *   --strategy <name>     bass-energy or spectral-flux (default: bass-energy)
+ *   --sweep               Rank all combinations of the grids below
+ *   --thresholds <list>   thresholdMultiplier values to sweep (comma-separated)
+ *   --history <list>      historySize values to sweep
+ *   --debounce <list>     debounceMs values to sweep
+ *   --top <n>             Number of sweep results to show (default: 10)
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DetectionStrategy } from '../src/lib/beatDetection';
+import { BeatMapAnalysisConfig, resolveAnalysisConfig } from '../src/lib/beatMap';
+import {
+    BeatEvaluation,
+    DEFAULT_BEAT_TOLERANCE_MS,
+    SpectrumFrames,
+    computeSpectrumFrames,
+    detectBeatsInFrames,
+    evaluateBeats,
+} from '../src/lib/beatEvaluation';
+
+const DEFAULT_THRESHOLDS = [1.1, 1.2, 1.3, 1.4, 1.5, 1.7, 2.0];
+const DEFAULT_HISTORY_SIZES = [30, 45, 60, 90, 120];
+const DEFAULT_DEBOUNCES = [50, 100, 150, 200, 250];
+
+const ANNOTATION_EXTENSIONS = ['.beats', '.txt'];
+
+// WAVE format tags
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+interface Track {
+    name: string;
+    spectra: SpectrumFrames;
+    annotations: number[];
+}
+
+interface SweepResult {
+    config: BeatMapAnalysisConfig;
+    mean: BeatEvaluation;
+}
+
+/**
+ * Decodes a PCM or float WAV file and mixes it down to mono.
+ */
+function decodeWav(data: Buffer): { samples: Float32Array; sampleRate: number } {
+    if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('not a RIFF/WAVE file');
+    }
+
+    let format: { tag: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+    let offset = 12;
+    while (offset + 8 <= data.length) {
+        const id = data.toString('ascii', offset, offset + 4);
+        const size = data.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === 'fmt ') {
+            let tag = data.readUInt16LE(body);
+            if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+                // The real format is the first two bytes of the SubFormat GUID
+                tag = data.readUInt16LE(body + 24);
+            }
+            format = {
+                tag,
+                channels: data.readUInt16LE(body + 2),
+                sampleRate: data.readUInt32LE(body + 4),
+                bitsPerSample: data.readUInt16LE(body + 14),
+            };
+        } else if (id === 'data') {
+            if (!format) {
+                throw new Error('data chunk before fmt chunk');
+            }
+            const end = Math.min(data.length, body + size);
+            return { samples: decodeSamples(data.subarray(body, end), format), sampleRate: format.sampleRate };
+        }
+
+        // Chunks are padded to an even size
+        offset = body + size + (size % 2);
+    }
+    throw new Error('no data chunk');
+}
+
+function decodeSamples(
+    data: Buffer,
+    format: { tag: number; channels: number; bitsPerSample: number }
+): Float32Array {
+    const bytesPerSample = format.bitsPerSample / 8;
+    const read = getSampleReader(format.tag, format.bitsPerSample);
+    const frameSize = bytesPerSample * format.channels;
+    const samples = new Float32Array(Math.floor(data.length / frameSize));
+
+    for (let frame = 0; frame < samples.length; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < format.channels; channel++) {
+            sum += read(data, frame * frameSize + channel * bytesPerSample);
+        }
+        samples[frame] = sum / format.channels;
+    }
+    return samples;
+}
+
+function getSampleReader(tag: number, bitsPerSample: number): (data: Buffer, offset: number) => number {
+    if (tag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+        return (data, offset) => data.readFloatLE(offset);
+    }
+    if (tag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 64) {
+        return (data, offset) => data.readDoubleLE(offset);
+    }
+    if (tag === WAVE_FORMAT_PCM) {
+        switch (bitsPerSample) {
+            case 8:
+                return (data, offset) => (data.readUInt8(offset) - 128) / 128;
+            case 16:
+                return (data, offset) => data.readInt16LE(offset) / 32768;
+            case 24:
+                return (data, offset) => data.readIntLE(offset, 3) / 8388608;
+            case 32:
+                return (data, offset) => data.readInt32LE(offset) / 2147483648;
+        }
+    }
+    throw new Error(`unsupported WAV format ${tag} with ${bitsPerSample} bits per sample`);
+}
+
+/**
+ * Reads beat times in seconds, one per line, and returns them in milliseconds.
+ */
+function parseAnnotations(text: string): number[] {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line !== '' && !line.startsWith('#'))
+        .map(line => parseFloat(line.split(/[\s,]+/)[0]) * 1000)
+        .filter(time => Number.isFinite(time))
+        .sort((a, b) => a - b);
+}
+
+async function findAnnotations(wavPath: string, annotationDir: string | undefined): Promise<string | null> {
+    const base = path.basename(wavPath, path.extname(wavPath));
+    const dir = annotationDir ?? path.dirname(wavPath);
+    for (const extension of ANNOTATION_EXTENSIONS) {
+        const candidate = path.join(dir, base + extension);
+        try {
+            await stat(candidate);
+            return candidate;
+        } catch {
+            // Try the next extension
+        }
+    }
+    return null;
+}
+
+async function findWavFiles(inputs: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const input of inputs) {
+        if ((await stat(input)).isDirectory()) {
+            const entries = await readdir(input);
+            entries
+                .filter(entry => entry.toLowerCase().endsWith('.wav'))
+                .sort()
+                .forEach(entry => files.push(path.join(input, entry)));
+        } else {
+            files.push(input);
+        }
+    }
+    return files;
+}
+
+function parseList(value: string | undefined, fallback: number[]): number[] {
+    if (value === undefined) {
+        return fallback;
+    }
+    const values = value.split(',').map(Number);
+    if (values.some(v => !Number.isFinite(v))) {
+        throw new Error(`invalid number list: ${value}`);
+    }
+    return values;
+}
+
+function averageEvaluations(evaluations: BeatEvaluation[]): BeatEvaluation {
+    const mean = (select: (evaluation: BeatEvaluation) => number) =>
+        evaluations.reduce((sum, evaluation) => sum + select(evaluation), 0) / evaluations.length;
+    const offsets = evaluations.filter(evaluation => evaluation.meanOffsetMs !== null);
+    const matched = offsets.reduce((sum, evaluation) => sum + evaluation.truePositives, 0);
+
+    return {
+        precision: mean(evaluation => evaluation.precision),
+        recall: mean(evaluation => evaluation.recall),
+        fMeasure: mean(evaluation => evaluation.fMeasure),
+        // Weighted by matches, so tracks with few hits do not dominate
+        meanOffsetMs: matched > 0
+            ? offsets.reduce((sum, evaluation) => sum + (evaluation.meanOffsetMs ?? 0) * evaluation.truePositives, 0) / matched
+            : null,
+        truePositives: evaluations.reduce((sum, evaluation) => sum + evaluation.truePositives, 0),
+        falsePositives: evaluations.reduce((sum, evaluation) => sum + evaluation.falsePositives, 0),
+        falseNegatives: evaluations.reduce((sum, evaluation) => sum + evaluation.falseNegatives, 0),
+    };
+}
+
+function formatRow(columns: (string | number)[], widths: number[]): string {
+    return columns
+        .map((column, i) => (i === 0 ? String(column).padEnd(widths[i]) : String(column).padStart(widths[i])))
+        .join('  ');
+}
+
+function formatScores(evaluation: BeatEvaluation): string[] {
+    return [
+        evaluation.fMeasure.toFixed(3),
+        evaluation.precision.toFixed(3),
+        evaluation.recall.toFixed(3),
+        evaluation.meanOffsetMs !== null ? evaluation.meanOffsetMs.toFixed(1) : '-',
+    ];
+}
+
+function printTrackReport(tracks: Track[], config: BeatMapAnalysisConfig, toleranceMs: number): void {
+    const nameWidth = Math.max(5, ...tracks.map(track => track.name.length));
+    const widths = [nameWidth, 6, 9, 6, 11, 8, 6];
+
+    console.log(
+        `\nthresholdMultiplier ${config.thresholdMultiplier}, historySize ${config.historySize}, ` +
+        `debounceMs ${config.debounceMs}, ${config.strategy}, tolerance ±${toleranceMs} ms\n`
+    );
+    console.log(formatRow(['Track', 'F', 'Precision', 'Recall', 'Offset (ms)', 'Detected', 'Beats'], widths));
+
+    const evaluations = tracks.map(track => {
+        const detected = detectBeatsInFrames(track.spectra, config);
+        const evaluation = evaluateBeats(detected, track.annotations, toleranceMs);
+        console.log(formatRow([track.name, ...formatScores(evaluation), detected.length, track.annotations.length], widths));
+        return evaluation;
+    });
+
+    if (tracks.length > 1) {
+        const mean = averageEvaluations(evaluations);
+        console.log(formatRow(['Mean', ...formatScores(mean), '', ''], widths));
+    }
+}
+
+function runSweep(
+    tracks: Track[],
+    base: BeatMapAnalysisConfig,
+    grids: { thresholds: number[]; historySizes: number[]; debounces: number[] },
+    toleranceMs: number
+): SweepResult[] {
+    const results: SweepResult[] = [];
+    grids.thresholds.forEach(thresholdMultiplier => {
+        grids.historySizes.forEach(historySize => {
+            grids.debounces.forEach(debounceMs => {
+                const config = { ...base, thresholdMultiplier, historySize, debounceMs };
+                const evaluations = tracks.map(track =>
+                    evaluateBeats(detectBeatsInFrames(track.spectra, config), track.annotations, toleranceMs)
+                );
+                results.push({ config, mean: averageEvaluations(evaluations) });
+            });
+        });
+    });
+    return results.sort((a, b) => b.mean.fMeasure - a.mean.fMeasure);
+}
+
+function printSweep(results: SweepResult[], defaults: BeatMapAnalysisConfig, top: number): void {
+    const widths = [4, 9, 7, 8, 6, 9, 6, 11];
+    console.log(`\nParameter sweep: ${results.length} combinations, mean over tracks\n`);
+    console.log(formatRow(['Rank', 'Threshold', 'History', 'Debounce', 'F', 'Precision', 'Recall', 'Offset (ms)'], widths));
+
+    const isDefault = (config: BeatMapAnalysisConfig) =>
+        config.thresholdMultiplier === defaults.thresholdMultiplier &&
+        config.historySize === defaults.historySize &&
+        config.debounceMs === defaults.debounceMs;
+    const row = (result: SweepResult, rank: number) => formatRow([
+        rank,
+        result.config.thresholdMultiplier,
+        result.config.historySize,
+        result.config.debounceMs,
+        ...formatScores(result.mean),
+    ], widths) + (isDefault(result.config) ? '  (current default)' : '');
+
+    results.slice(0, top).forEach((result, i) => console.log(row(result, i + 1)));
+
+    // Show where the current defaults land when they are outside the top rows
+    const defaultRank = results.findIndex(result => isDefault(result.config));
+    if (defaultRank >= top) {
+        console.log('...');
+        console.log(row(results[defaultRank], defaultRank + 1));
+    }
+}
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            annotations: { type: 'string' },
+            tolerance: { type: 'string' },
+            strategy: { type: 'string' },
+            sweep: { type: 'boolean', default: false },
+            thresholds: { type: 'string' },
+            history: { type: 'string' },
+            debounce: { type: 'string' },
+            top: { type: 'string' },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error('Usage: npm run evaluate -- <wav files or directories> [--sweep] [--annotations <dir>] [--tolerance <ms>]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const strategy = (values.strategy ?? 'bass-energy') as DetectionStrategy;
+    if (strategy !== 'bass-energy' && strategy !== 'spectral-flux') {
+        throw new Error(`unknown strategy: ${strategy}`);
+    }
+    const toleranceMs = values.tolerance !== undefined ? Number(values.tolerance) : DEFAULT_BEAT_TOLERANCE_MS;
+    const config = resolveAnalysisConfig({ strategy });
+
+    const tracks: Track[] = [];
+    for (const file of await findWavFiles(positionals)) {
+        const name = path.basename(file);
+        const annotationPath = await findAnnotations(file, values.annotations);
+        if (!annotationPath) {
+            console.warn(`Skipping ${name}: no annotation file (${ANNOTATION_EXTENSIONS.join(' or ')})`);
+            continue;
+        }
+
+        try {
+            const { samples, sampleRate } = decodeWav(await readFile(file));
+            const annotations = parseAnnotations(await readFile(annotationPath, 'utf8'));
+            // Spectra do not depend on the detector settings, so they are computed once per track
+            tracks.push({ name, spectra: computeSpectrumFrames(samples, sampleRate, config), annotations });
+        } catch (err) {
+            console.warn(`Skipping ${name}: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+
+    if (tracks.length === 0) {
+        console.error('No tracks to evaluate');
+        process.exitCode = 1;
+        return;
+    }
+
+    printTrackReport(tracks, config, toleranceMs);
+
+    if (values.sweep) {
+        const results = runSweep(tracks, config, {
+            thresholds: parseList(values.thresholds, DEFAULT_THRESHOLDS),
+            historySizes: parseList(values.history, DEFAULT_HISTORY_SIZES),
+            debounces: parseList(values.debounce, DEFAULT_DEBOUNCES),
+        }, toleranceMs);
+        printSweep(results, config, values.top !== undefined ? Number(values.top) : 10);
+    }
+}
+
+main().catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+});
@@ -19,6 +19,7 @@ const App = () => (
         smoothingTimeConstant={0.8}
         beatThreshold={1.3}
         beatDebounceMs={100}
+        autoCalibrate
         pulsationIntensity={1.0}
         selectionPercentage={0.10}
       >
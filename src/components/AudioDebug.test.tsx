@@ -0,0 +1,58 @@
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The real overlay needs the audio analysis provider; these tests are only about when it shows
+vi.mock("./AudioDebugOverlay", () => ({
+  default: () => <div data-testid="audio-debug-overlay" />,
+}));
+
+describe("AudioDebug in a production build", () => {
+  // The build flags are read when the module loads
+  const renderDebug = async () => {
+    vi.resetModules();
+    const { default: AudioDebug } = await import("./AudioDebug");
+    render(<AudioDebug />);
+    await act(async () => {});
+  };
+
+  const pressShortcut = async () => {
+    await act(async () => {
+      fireEvent.keyDown(window, { altKey: true, shiftKey: true, code: "KeyD" });
+    });
+  };
+
+  beforeEach(() => {
+    vi.stubEnv("DEV", false);
+    vi.stubEnv("VITE_AUDIO_DEBUG", "");
+  });
+
+  afterEach(() => {
+    cleanup();
+    window.history.replaceState(null, "", "/");
+    vi.unstubAllEnvs();
+  });
+
+  it("stays hidden, and ignores the shortcut, without ?debug=audio", async () => {
+    await renderDebug();
+    await pressShortcut();
+    expect(screen.queryByTestId("audio-debug-overlay")).toBeNull();
+  });
+
+  it("opens the overlay from ?debug=audio", async () => {
+    window.history.replaceState(null, "", "/?debug=audio");
+    await renderDebug();
+    expect(await screen.findByTestId("audio-debug-overlay")).toBeTruthy();
+
+    await pressShortcut();
+    expect(screen.queryByTestId("audio-debug-overlay")).toBeNull();
+  });
+
+  it("offers the shortcut on every page of a VITE_AUDIO_DEBUG build", async () => {
+    vi.stubEnv("VITE_AUDIO_DEBUG", "true");
+    await renderDebug();
+    expect(screen.queryByTestId("audio-debug-overlay")).toBeNull();
+
+    await pressShortcut();
+    expect(await screen.findByTestId("audio-debug-overlay")).toBeTruthy();
+  });
+});
@@ -0,0 +1,52 @@
+import { lazy, Suspense, useEffect, useState } from "react";
+
+// Development builds, and production builds made with VITE_AUDIO_DEBUG=true, offer the overlay on every page
+const AUDIO_DEBUG_BUILD = import.meta.env.DEV || import.meta.env.VITE_AUDIO_DEBUG === "true";
+
+// A separate chunk, only fetched once the overlay is shown
+const AudioDebugOverlay = lazy(() => import("./AudioDebugOverlay"));
+
+// Alt+Shift+D toggles the overlay. Matched by key code, since Alt changes the typed character on macOS.
+const isToggleShortcut = (event: KeyboardEvent) => event.altKey && event.shiftKey && event.code === "KeyD";
+
+// ?debug=audio opens the overlay on load, in any build
+const isRequestedByUrl = () => new URLSearchParams(window.location.search).get("debug") === "audio";
+
+interface AudioDebugProps {
+  /** Reads the number of stars currently pulsating */
+  getActivePulsationCount?: () => number;
+}
+
+/**
+ * Beat detection debug overlay, opened with `?debug=audio`. Alt+Shift+D toggles it
+ * in debug builds and on pages opened with `?debug=audio`.
+ */
+const AudioDebug = ({ getActivePulsationCount }: AudioDebugProps) => {
+  const [requestedByUrl] = useState(isRequestedByUrl);
+  const [visible, setVisible] = useState(requestedByUrl);
+  const enabled = AUDIO_DEBUG_BUILD || requestedByUrl;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isToggleShortcut(event)) {
+        event.preventDefault();
+        setVisible((current) => !current);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+
+  if (!visible) return null;
+
+  return (
+    <Suspense fallback={null}>
+      <AudioDebugOverlay getActivePulsationCount={getActivePulsationCount} onClose={() => setVisible(false)} />
+    </Suspense>
+  );
+};
+
+export default AudioDebug;
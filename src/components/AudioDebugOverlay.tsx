@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { useAudioAnalysis } from "@/contexts/AudioAnalysisContext";
+
+// Seconds of history shown in the chart
+const WINDOW_SECONDS = 5;
+
+// Frame intervals averaged for the timing readout
+const TIMING_WINDOW = 120;
+
+// The panel re-renders at this rate rather than on every analysis frame
+const REFRESH_INTERVAL_MS = 100;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+
+interface EnergySample {
+  time: number;
+  energy: number;
+  threshold: number;
+}
+
+interface BeatMarker {
+  time: number;
+  strength: number;
+}
+
+interface FrameTiming {
+  averageMs: number;
+  maxMs: number;
+}
+
+interface Snapshot {
+  samples: EnergySample[];
+  beats: BeatMarker[];
+  timing: FrameTiming | null;
+  pulsations: number | null;
+}
+
+export interface AudioDebugOverlayProps {
+  /** Reads the number of stars currently pulsating */
+  getActivePulsationCount?: () => number;
+
+  /** Hides the overlay */
+  onClose: () => void;
+}
+
+const AudioDebugOverlay = ({ getActivePulsationCount, onClose }: AudioDebugOverlayProps) => {
+  const { onBeat, onFrame, activeBeatSource, tempo, tempoConfidence, audioContextState } = useAudioAnalysis();
+  const samplesRef = useRef<EnergySample[]>([]);
+  const beatsRef = useRef<BeatMarker[]>([]);
+  const intervalsRef = useRef<number[]>([]);
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const [snapshot, setSnapshot] = useState<Snapshot>({ samples: [], beats: [], timing: null, pulsations: null });
+
+  // Collect frames and beats in refs; they arrive far faster than the panel renders
+  useEffect(() => {
+    const unsubscribeFrames = onFrame((frame) => {
+      samplesRef.current.push({ time: frame.timestamp, energy: frame.energy, threshold: frame.threshold });
+
+      const lastFrameTime = lastFrameTimeRef.current;
+      if (lastFrameTime !== null && frame.timestamp > lastFrameTime) {
+        const intervals = intervalsRef.current;
+        intervals.push(frame.timestamp - lastFrameTime);
+        if (intervals.length > TIMING_WINDOW) {
+          intervals.shift();
+        }
+      }
+      lastFrameTimeRef.current = frame.timestamp;
+    });
+    const unsubscribeBeats = onBeat((strength, event) => {
+      beatsRef.current.push({ time: event.timestamp, strength });
+    });
+
+    return () => {
+      unsubscribeFrames();
+      unsubscribeBeats();
+    };
+  }, [onBeat, onFrame]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      const now = performance.now();
+      const cutoff = now - WINDOW_SECONDS * 1000;
+      samplesRef.current = samplesRef.current.filter((sample) => sample.time >= cutoff);
+      beatsRef.current = beatsRef.current.filter((beat) => beat.time >= cutoff);
+
+      const intervals = intervalsRef.current;
+      const timing = intervals.length > 0
+        ? {
+          averageMs: intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length,
+          maxMs: Math.max(...intervals),
+        }
+        : null;
+
+      // Times relative to now, in seconds, so the newest data sits at the right edge
+      setSnapshot({
+        samples: samplesRef.current.map((sample) => ({ ...sample, time: (sample.time - now) / 1000 })),
+        beats: beatsRef.current.map((beat) => ({ ...beat, time: (beat.time - now) / 1000 })),
+        timing,
+        pulsations: getActivePulsationCount ? getActivePulsationCount() : null,
+      });
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [getActivePulsationCount]);
+
+  const { samples, beats, timing, pulsations } = snapshot;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-[352px] rounded-lg border border-white/10 bg-black/80 p-3 font-mono text-xs text-gray-200 shadow-lg backdrop-blur">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-semibold text-white">Beat detection</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white"
+          aria-label="Close audio debug overlay"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {samples.length > 0 ? (
+        <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={samples} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[-WINDOW_SECONDS, 0]}
+            tickFormatter={(value: number) => `${value}s`}
+            tick={{ fill: "#9ca3af", fontSize: 10 }}
+            stroke="#4b5563"
+          />
+          <YAxis hide domain={[0, "auto"]} />
+          {beats.map((beat) => (
+            <ReferenceLine
+              key={beat.time}
+              x={beat.time}
+              stroke="#f472b6"
+              strokeOpacity={0.3 + 0.7 * beat.strength}
+            />
+          ))}
+          <Line dataKey="energy" stroke="#3B82F6" dot={false} isAnimationActive={false} />
+          <Line dataKey="threshold" stroke="#f59e0b" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+        </LineChart>
+      ) : (
+        <div className="flex h-[120px] items-center justify-center text-gray-500">
+          No analysis frames from this source
+        </div>
+      )}
+
+      <div className="mt-1 flex gap-3 text-[10px]">
+        <span className="text-[#3B82F6]">energy</span>
+        <span className="text-[#f59e0b]">threshold</span>
+        <span className="text-[#f472b6]">beats</span>
+      </div>
+
+      <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5">
+        <dt className="text-gray-400">Source</dt>
+        <dd>{activeBeatSource ? `${activeBeatSource.kind} (${activeBeatSource.getStatus()})` : "none"}</dd>
+        <dt className="text-gray-400">AudioContext</dt>
+        <dd className={audioContextState && audioContextState !== "running" ? "text-amber-400" : undefined}>
+          {audioContextState ?? "-"}
+        </dd>
+        <dt className="text-gray-400">Tempo</dt>
+        <dd>{tempo !== null ? `${tempo.toFixed(1)} BPM (${Math.round(tempoConfidence * 100)}%)` : "-"}</dd>
+        <dt className="text-gray-400">Pulsations</dt>
+        <dd>{pulsations !== null ? pulsations : "-"}</dd>
+        <dt className="text-gray-400">Frame interval</dt>
+        <dd>
+          {timing
+            ? `${timing.averageMs.toFixed(1)} ms avg, ${timing.maxMs.toFixed(1)} ms max`
+            : "-"}
+        </dd>
+      </dl>
+    </div>
+  );
+};
+
+export default AudioDebugOverlay;
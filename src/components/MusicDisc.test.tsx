@@ -0,0 +1,127 @@
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, MockInstance, vi } from "vitest";
+import MusicDisc from "./MusicDisc";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import { AudioAnalysisContextValue, AudioAnalysisProvider, useAudioAnalysis } from "@/contexts/AudioAnalysisContext";
+import { FakeAnimationClock } from "@/test/animationClock";
+import { clickTrack, failElement, FakeWebAudioController, installFakeWebAudio, setElementPlaying } from "@/test/fakeWebAudio";
+
+describe("MusicDisc", () => {
+  let clock: FakeAnimationClock;
+  let restoreClock: () => void;
+  let audio: FakeWebAudioController | null = null;
+  let api: AudioAnalysisContextValue;
+  let play: MockInstance<HTMLMediaElement["play"]>;
+
+  const Probe = () => {
+    api = useAudioAnalysis();
+    return null;
+  };
+
+  const tree = (withDisc: boolean) => (
+    <AudioAnalysisProvider preferAudioWorklet={false} beatMapCache={null} calibrationStore={null} autoCalibrate>
+      <TooltipProvider>
+        {withDisc && <MusicDisc />}
+      </TooltipProvider>
+      <Probe />
+    </AudioAnalysisProvider>
+  );
+
+  const renderDisc = () => {
+    const { rerender } = render(tree(true));
+    return {
+      player: document.querySelector("audio") as HTMLAudioElement,
+      unmountDisc: () => rerender(tree(false)),
+    };
+  };
+
+  const clickPlay = async () => {
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Play music" }));
+    });
+  };
+
+  beforeEach(() => {
+    clock = new FakeAnimationClock();
+    restoreClock = clock.install();
+    // jsdom neither loads nor plays media; start loading the new src and play it right away
+    play = vi.spyOn(HTMLMediaElement.prototype, "play").mockImplementation(function (this: HTMLMediaElement) {
+      this.dispatchEvent(new Event("loadstart"));
+      setElementPlaying(this, true);
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    audio?.uninstall();
+    audio = null;
+    restoreClock();
+    vi.restoreAllMocks();
+  });
+
+  it("analyzes the player live and calibrates each track", async () => {
+    audio = installFakeWebAudio({ clock });
+    const { player } = renderDisc();
+    expect(player.crossOrigin).toBe("anonymous");
+    audio.setElementScript(player, clickTrack({ bpm: 120, decayMs: 30 }));
+
+    await clickPlay();
+    expect(api.analysisSources.map(source => source.element)).toEqual([player]);
+    expect(api.activeBeatSource?.kind).toBe("live");
+    expect(api.calibration.status).toBe("calibrating");
+
+    await act(async () => clock.advance(15000));
+    expect(api.calibration.status).toBe("calibrated");
+  });
+
+  it("unregisters the player on unmount", async () => {
+    audio = installFakeWebAudio({ clock });
+    const { unmountDisc } = renderDisc();
+    await clickPlay();
+    expect(api.analysisSources).toHaveLength(1);
+
+    act(() => unmountDisc());
+    expect(api.analysisSources).toEqual([]);
+  });
+
+  it("plays without CORS and follows the metronome when the CDN refuses CORS requests", async () => {
+    audio = installFakeWebAudio({ clock });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    // Like a browser, a failed load rejects play() unless a new load aborted it first
+    play.mockImplementation(function (this: HTMLMediaElement) {
+      this.dispatchEvent(new Event("loadstart"));
+      if (this.hasAttribute("crossorigin")) {
+        failElement(this, 4, "CORS request refused");
+        return Promise.reject(Object.assign(new Error("No supported source was found"), { name: "NotSupportedError" }));
+      }
+      setElementPlaying(this, true);
+      return Promise.resolve();
+    });
+    const { player } = renderDisc();
+
+    await clickPlay();
+    expect(play).toHaveBeenCalledTimes(2);
+    expect(player.hasAttribute("crossorigin")).toBe(false);
+    expect(api.error?.code).toBe("cors-restricted");
+    expect(api.activeBeatSource?.kind).toBe("metronome");
+    expect(screen.queryByRole("button", { name: "Next track" })).toBeNull();
+
+    // Later tracks load without CORS right away
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Skip song" }));
+    });
+    expect(play).toHaveBeenCalledTimes(3);
+    expect(player.hasAttribute("crossorigin")).toBe(false);
+    expect(api.activeBeatSource?.kind).toBe("metronome");
+  });
+
+  it("falls back to the metronome without Web Audio", async () => {
+    renderDisc();
+    await clickPlay();
+    expect(api.error).toBeNull();
+    expect(api.activeBeatSource?.kind).toBe("metronome");
+    expect(api.calibration.status).toBe("off");
+  });
+});
@@ -1,7 +1,13 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Volume2, SkipForward } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { useFakeBeatDetection } from "@/lib/useFakeBeatDetection";
+import { FakeBeatDetector } from "@/lib/fakeBeatDetection";
+import { BeatMapSource, isOfflineAnalysisSupported } from "@/lib/beatMap";
+import { getOrAnalyzeBeatMap } from "@/lib/beatMapCache";
+import { BeatSource } from "@/lib/beatSource";
+import { getTempoDeviation } from "@/lib/tempoEstimation";
+import { AudioError, AudioRecovery, createAudioError, fromMediaError, isCorsRequest, toAudioError } from "@/lib/audioErrors";
+import { useAudioAnalysis } from "@/contexts/AudioAnalysisContext";
 
 interface Track {
   title: string;
@@ -10,7 +16,21 @@ interface Track {
   bpm: number;
 }
 
-// Hardcoded tracks from Brent Faiyaz - Icon album (no API needed, no CORS issues)
+// Minimum confidence before a measured tempo is shown next to the metadata BPM
+const MIN_DISPLAY_TEMPO_CONFIDENCE = 0.3;
+
+// Measured tempos further than this from the metadata BPM are flagged
+const MAX_TEMPO_DEVIATION = 0.04;
+
+// Label of the button offered for each recovery (none for errors the user cannot act on)
+const RECOVERY_ACTION_LABELS: Partial<Record<AudioRecovery, string>> = {
+  retry: "Retry",
+  skip: "Next track",
+  "user-gesture": "Tap to play",
+};
+
+// Hardcoded tracks from Brent Faiyaz - Icon album (no API needed). Previews are requested with
+// CORS so they can be analyzed, and played without it if the CDN refuses (see handleError).
 const ICON_TRACKS: Track[] = [
   {
     title: "white noise.",
@@ -61,31 +81,107 @@ const MusicDisc = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
   const [showNowPlaying, setShowNowPlaying] = useState(false);
-  const [error, setError] = useState<string>("");
+  const [error, setError] = useState<AudioError | null>(null);
+  // Set once the preview CDN refuses a CORS request; tracks then load without CORS and the metronome keeps the beat
+  const [corsBlocked, setCorsBlocked] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Track whose playback failed, played again by the retry actions
+  const failedTrackRef = useRef<Track | null>(null);
+  // Track the player is loading or playing, and the number of the play() call that loads it
+  const loadingTrackRef = useRef<Track | null>(null);
+  const playRequestRef = useRef(0);
   const nowPlayingTimeout = useRef<ReturnType<typeof setTimeout>>();
 
-  // Use fake beat detection hook
-  const fakeBeat = useFakeBeatDetection();
+  // Tempo measured by the audio analyser (null until enough beats are detected)
+  const {
+    tempo,
+    tempoConfidence,
+    activateBeatSource,
+    isWebAudioSupported,
+    registerAudioElement,
+    unregisterAudioElement,
+    analysisSources,
+    error: analysisError,
+  } = useAudioAnalysis();
+  const measuredBpm = tempo !== null && tempoConfidence >= MIN_DISPLAY_TEMPO_CONFIDENCE
+    ? Math.round(tempo)
+    : null;
+  const tempoMismatch = measuredBpm !== null && currentTrack !== null &&
+    getTempoDeviation(tempo, currentTrack.bpm) > MAX_TEMPO_DEVIATION;
+  const measuredBpmLabel = measuredBpm !== null && (
+    <span className={tempoMismatch ? "text-amber-400" : undefined}> (measured {measuredBpm})</span>
+  );
+
+  // Live analysis of the player, calibrated per track by the provider. The metronome at the
+  // track's BPM stands in when the audio cannot be analyzed; a precomputed beat map replaces
+  // either once offline analysis finishes.
+  const metronome = useMemo(() => new FakeBeatDetector(100), []);
+  const beatSourceRef = useRef<BeatSource | null>(null);
+  const releaseBeatSourceRef = useRef<(() => void) | null>(null);
+  const beatMapAbortRef = useRef<AbortController | null>(null);
+  const analysisSourcesRef = useRef(analysisSources);
+  analysisSourcesRef.current = analysisSources;
+  const canAnalyzeLive = analysisError?.recovery !== "use-metronome";
+  const canAnalyzeLiveRef = useRef(canAnalyzeLive);
+  canAnalyzeLiveRef.current = canAnalyzeLive;
+
+  // Make a source the active beat source and start it (null stops beats altogether)
+  const switchBeatSource = useCallback((source: BeatSource | null) => {
+    releaseBeatSourceRef.current?.();
+    beatSourceRef.current?.stop();
+    beatSourceRef.current = source;
+    releaseBeatSourceRef.current = source ? activateBeatSource(source) : null;
+    source?.start();
+  }, [activateBeatSource]);
+
+  // Make live analysis of the player the active beat source. The provider runs it
+  // while the player plays, so it is neither started nor stopped here.
+  const switchToLiveAnalysis = useCallback((source: BeatSource) => {
+    switchBeatSource(null);
+    releaseBeatSourceRef.current = activateBeatSource(source);
+  }, [activateBeatSource, switchBeatSource]);
+
+  // Fall back to the metronome if the provider finds it cannot analyze the player
+  useEffect(() => {
+    if (!canAnalyzeLive && currentTrack && beatSourceRef.current === null && releaseBeatSourceRef.current) {
+      metronome.setBPM(currentTrack.bpm);
+      metronome.resetBars();
+      switchBeatSource(metronome);
+    }
+  }, [canAnalyzeLive, currentTrack, metronome, switchBeatSource]);
+
+  // Stop beats and any pending beat map analysis
+  const stopBeats = useCallback(() => {
+    beatMapAbortRef.current?.abort();
+    beatMapAbortRef.current = null;
+    switchBeatSource(null);
+  }, [switchBeatSource]);
+
+  useEffect(() => {
+    return () => {
+      stopBeats();
+    };
+  }, [stopBeats]);
 
-  // Expose fake beat events globally for StarfieldBackground to consume
+  // Analyze the player through the provider, which calibrates detection per track (autoCalibrate)
   useEffect(() => {
-    const unsubscribe = fakeBeat.onBeat((strength) => {
-      // Dispatch custom event that StarfieldBackground can listen to
-      window.dispatchEvent(new CustomEvent('musicbeat', { detail: { strength } }));
-    });
+    const audio = audioRef.current;
+    if (!audio || !isWebAudioSupported) return;
 
+    registerAudioElement(audio);
     return () => {
-      unsubscribe();
+      unregisterAudioElement(audio);
     };
-  }, [fakeBeat]);
+  }, [isWebAudioSupported, registerAudioElement, unregisterAudioElement]);
 
   const playTrack = useCallback((track: Track) => {
     if (!audioRef.current) {
-      setError("Audio player not ready");
+      setError(createAudioError("unknown", "playback", "Audio player not ready"));
       return;
     }
 
+    loadingTrackRef.current = track;
+    const playRequest = ++playRequestRef.current;
     audioRef.current.src = track.previewUrl;
     audioRef.current.volume = 0.5;
 
@@ -94,26 +190,57 @@ const MusicDisc = () => {
         setCurrentTrack(track);
         setIsPlaying(true);
         setShowNowPlaying(true);
-        setError("");
+        setError(null);
+        failedTrackRef.current = null;
 
-        // Start fake beat detection with track's BPM
-        console.log(`Starting beat detection at ${track.bpm} BPM for "${track.title}"`);
-        fakeBeat.setBPM(track.bpm);
-        fakeBeat.start();
+        // Analyze the track live, or start the metronome with track's BPM
+        stopBeats();
+        const liveSource = analysisSourcesRef.current.find(info => info.element === audioRef.current)?.source;
+        if (liveSource && canAnalyzeLiveRef.current) {
+          switchToLiveAnalysis(liveSource);
+        } else {
+          metronome.setBPM(track.bpm);
+          metronome.resetBars();
+          switchBeatSource(metronome);
+        }
+
+        // Analyze the whole track in the background; switch to exact beats if it succeeds
+        if (isOfflineAnalysisSupported()) {
+          const abortController = new AbortController();
+          beatMapAbortRef.current = abortController;
+
+          getOrAnalyzeBeatMap(track.previewUrl, { signal: abortController.signal })
+            .then((map) => {
+              const audio = audioRef.current;
+              if (!abortController.signal.aborted && audio && audio.src === track.previewUrl && !audio.paused) {
+                switchBeatSource(new BeatMapSource(map, () => audio.currentTime));
+              }
+            })
+            .catch((err) => {
+              if (!abortController.signal.aborted) {
+                console.warn("Offline analysis failed, keeping the metronome", err);
+              }
+            });
+        }
 
         clearTimeout(nowPlayingTimeout.current);
         nowPlayingTimeout.current = setTimeout(() => setShowNowPlaying(false), 3000);
       })
       .catch((err) => {
+        // A newer src or a pause interrupted this play() call, or the load is being retried; not a failure
+        if (err instanceof Error && err.name === "AbortError") return;
+        if (playRequest !== playRequestRef.current) return;
+
         console.error("Playback failed:", err);
-        setError(`Failed to play: ${track.title}`);
+        failedTrackRef.current = track;
+        setError(toAudioError(err, "playback", `Failed to play: ${track.title}`));
         setIsPlaying(false);
       });
-  }, [fakeBeat]);
+  }, [metronome, stopBeats, switchBeatSource, switchToLiveAnalysis]);
 
   const playRandom = useCallback(() => {
     if (tracks.length === 0) {
-      setError("No tracks available");
+      setError(createAudioError("no-media", "playback", "No tracks available"));
       return;
     }
 
@@ -138,18 +265,18 @@ const MusicDisc = () => {
     if (isPlaying) {
       audioRef.current.pause();
       setIsPlaying(false);
-      fakeBeat.stop();
+      beatSourceRef.current?.stop();
     } else {
       if (audioRef.current.src && audioRef.current.currentTime > 0) {
         audioRef.current.play()
           .then(() => {
             setIsPlaying(true);
-            setError("");
-            fakeBeat.start();
+            setError(null);
+            beatSourceRef.current?.start();
           })
           .catch((err) => {
             console.error("Resume failed:", err);
-            setError("Resume failed. Click again to retry.");
+            setError(toAudioError(err, "playback", "Resume failed. Click again to retry."));
           });
       } else {
         playRandom();
@@ -158,26 +285,71 @@ const MusicDisc = () => {
   };
 
   const skip = () => {
-    fakeBeat.stop();
+    stopBeats();
     playRandom();
   };
 
   const handleEnded = () => {
+    stopBeats();
     playRandom();
   };
 
   const handleError = () => {
-    console.error("Audio error for:", currentTrack?.previewUrl);
-    setError("Failed to load audio");
+    const audio = audioRef.current;
+    const mediaError = fromMediaError(audio?.error ?? null, "element");
+    // Aborted loads (a new src was set) are not failures
+    if (!mediaError) return;
+
+    // The CDN may not allow CORS, which fails the load like an unsupported source. Load the track
+    // again without CORS: it plays, and the provider reports it cannot be analyzed, so the
+    // metronome takes over. Deferred so the failed load's error reaches every listener first.
+    const track = loadingTrackRef.current;
+    if (audio && track && !corsBlocked && isCorsRequest(audio)) {
+      setCorsBlocked(true);
+      audio.removeAttribute("crossorigin");
+      playRequestRef.current++;
+      queueMicrotask(() => playTrack(track));
+      return;
+    }
+
+    console.error("Audio error for:", currentTrack?.previewUrl, mediaError.message);
+    setError(mediaError);
     setIsPlaying(false);
-    fakeBeat.stop();
+    stopBeats();
+  };
+
+  // Act on the error's suggested recovery; runs in a click handler, so it also counts as a user gesture
+  const recover = () => {
+    if (!error) return;
+
+    const failedTrack = failedTrackRef.current;
+    setError(null);
+    if (error.recovery === "skip") {
+      skip();
+    } else if (failedTrack) {
+      playTrack(failedTrack);
+    } else {
+      toggle();
+    }
   };
 
+  // The player's own errors take precedence over analysis errors
+  const shownError = error ?? analysisError;
+  const recoveryLabel = error ? RECOVERY_ACTION_LABELS[error.recovery] : undefined;
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-2">
-      {error && (
-        <div className="mb-1 max-w-xs rounded-lg border border-red-500/50 bg-red-500/10 px-3 py-1.5 text-xs text-red-400 backdrop-blur-md">
-          {error}
+      {shownError && (
+        <div className="mb-1 flex max-w-xs items-center gap-2 rounded-lg border border-red-500/50 bg-red-500/10 px-3 py-1.5 text-xs text-red-400 backdrop-blur-md">
+          <span>{shownError.message}</span>
+          {recoveryLabel && (
+            <button
+              onClick={recover}
+              className="shrink-0 rounded border border-red-400/50 px-1.5 py-0.5 hover:bg-red-500/20"
+            >
+              {recoveryLabel}
+            </button>
+          )}
         </div>
       )}
 
@@ -188,7 +360,7 @@ const MusicDisc = () => {
         {currentTrack && (
           <div>
             <div className="font-medium">{currentTrack.title}</div>
-            <div className="text-foreground/60">{currentTrack.artist} • {currentTrack.bpm} BPM</div>
+            <div className="text-foreground/60">{currentTrack.artist} • {currentTrack.bpm} BPM{measuredBpmLabel}</div>
           </div>
         )}
       </div>
@@ -241,7 +413,7 @@ const MusicDisc = () => {
             {isPlaying && currentTrack ? (
               <div>
                 <div className="font-medium">{currentTrack.title}</div>
-                <div className="text-foreground/60 text-[10px]">{currentTrack.artist} • {currentTrack.bpm} BPM</div>
+                <div className="text-foreground/60 text-[10px]">{currentTrack.artist} • {currentTrack.bpm} BPM{measuredBpmLabel}</div>
               </div>
             ) : (
               "Play Music"
@@ -250,7 +422,7 @@ const MusicDisc = () => {
         </Tooltip>
       </div>
 
-      <audio ref={audioRef} onEnded={handleEnded} onError={handleError} className="hidden" />
+      <audio ref={audioRef} crossOrigin={corsBlocked ? undefined : "anonymous"} onEnded={handleEnded} onError={handleError} className="hidden" />
     </div>
   );
 };
@@ -5,6 +5,24 @@ import type { ISourceOptions } from "@tsparticles/engine";
 import { useAudioAnalysis } from "../contexts/AudioAnalysisContext";
 import { selectStars } from "../lib/weightedSelection";
 import { PulsationManager } from "../lib/pulsationManager";
+import { getRelativeLoudnessScale } from "../lib/loudness";
+import type { SectionLabel } from "../lib/sectionDetection";
+import AudioDebug from "./AudioDebug";
+
+// Short-term loudness range mapped to the starfield's brightness range
+const QUIET_LUFS = -40;
+const LOUD_LUFS = -10;
+const MIN_BRIGHTNESS = 0.7;
+const MAX_BRIGHTNESS = 1.3;
+
+// Brightness of each section relative to the loudness-driven brightness
+const SECTION_BRIGHTNESS: Record<SectionLabel, number> = {
+  intro: 0.85,
+  verse: 1,
+  "build-up": 1.1,
+  drop: 1.25,
+  breakdown: 0.8,
+};
 
 const StarfieldBackground = () => {
   const [init, setInit] = useState(false);
@@ -12,9 +30,12 @@ const StarfieldBackground = () => {
   const pulsationManagerRef = useRef<PulsationManager | null>(null);
   // Track particles that need smooth decay back to original size
   const decayingParticlesRef = useRef<Map<string, { originalSize: number }>>(new Map());
+  const brightnessLayerRef = useRef<HTMLDivElement>(null);
+  // Brightness multiplier of the current section, scaled by the detection confidence
+  const sectionBrightnessRef = useRef(1);
 
   // Subscribe to audio analysis context
-  const { onBeat, isWebAudioSupported, config } = useAudioAnalysis();
+  const { onBeat, onSection, getLoudness, config } = useAudioAnalysis();
 
   useEffect(() => {
     initParticlesEngine(async (engine) => {
@@ -31,8 +52,9 @@ const StarfieldBackground = () => {
 
   // Subscribe to beat events and trigger pulsations
   useEffect(() => {
-    // Handler for processing beats (used by both real and fake detection)
-    const processBeat = (strength: number) => {
+    // Handler for processing beats. Positive size weight exponents favor large stars,
+    // negative ones favor small stars. The selection scale multiplies the share of stars selected.
+    const processBeat = (strength: number, sizeWeightExponent: number = 2, intensity: number = 1, selectionScale: number = 1) => {
 
       // Get particles from container
       if (!containerRef.current) {
@@ -53,7 +75,11 @@ const StarfieldBackground = () => {
         return;
       }
 
-      console.log(`processBeat: Processing ${particles.length} particles with strength ${strength.toFixed(2)}`);
+      // Quiet sections of a track pulse less than its loud sections, whatever the track's overall level
+      const loudness = getLoudness();
+      if (loudness) {
+        strength *= 0.25 + 0.75 * getRelativeLoudnessScale(loudness);
+      }
 
       // Convert particles to format expected by selectStars
       const particleData = particles.map((p: any) => ({
@@ -62,22 +88,20 @@ const StarfieldBackground = () => {
       }));
 
       // Calculate selection percentages based on configuration
-      const minPercent = config.selectionPercentage * 0.5;
-      const maxPercent = config.selectionPercentage * 1.5;
+      const minPercent = Math.min(1, config.selectionPercentage * 0.5 * selectionScale);
+      const maxPercent = Math.min(1, config.selectionPercentage * 1.5 * selectionScale);
 
       // Use selectStars with custom configuration
       const selectedParticles = selectStars(particleData, strength, {
         minSelectionPercent: minPercent,
         maxSelectionPercent: maxPercent,
-        sizeWeightExponent: 2,
+        sizeWeightExponent,
       });
 
-      console.log(`processBeat: Selected ${selectedParticles.length} particles to pulsate`);
-
       // Start pulsations via PulsationManager with configured intensity
       const currentTime = performance.now();
       selectedParticles.forEach((particle) => {
-        const adjustedStrength = strength * config.pulsationIntensity;
+        const adjustedStrength = strength * config.pulsationIntensity * intensity;
 
         pulsationManagerRef.current?.startPulsation(
           particle.id,
@@ -88,35 +112,63 @@ const StarfieldBackground = () => {
       });
     };
 
-    // Always listen for fake beats (from MusicDisc)
-    const handleFakeBeat = ((event: CustomEvent) => {
-      processBeat(event.detail.strength);
-    }) as EventListener;
-
-    window.addEventListener('musicbeat', handleFakeBeat);
-
-    // Also subscribe to real audio analysis if supported
-    let unsubscribeRealAudio: (() => void) | undefined;
-    if (isWebAudioSupported) {
-      unsubscribeRealAudio = onBeat((strength) => {
+    // Beats from whichever source is active (live analysis, metronome, beat map or replay),
+    // one pulse per beat: downbeats bloom across stars of every size, three times as many;
+    // otherwise kicks pulse large stars, snares stars of all sizes and hi-hats twinkle small stars
+    const unsubscribeBeats = onBeat((strength, event) => {
+      if (event.beatInBar === 1 && !event.offbeat) {
+        processBeat(Math.max(strength, 0.6), 0, 1, 3);
+      } else if (event.kinds.includes("kick")) {
+        processBeat(strength, 3);
+      } else if (event.kinds.includes("hihat") && !event.kinds.includes("snare")) {
+        processBeat(strength, -2, 0.5);
+      } else {
         processBeat(strength);
-      });
-    }
+      }
+    });
+
+    // Section changes switch the scene: drops burst across the whole sky,
+    // breakdowns dim it and build-ups brighten it
+    const unsubscribeSections = onSection((event) => {
+      sectionBrightnessRef.current = 1 + (SECTION_BRIGHTNESS[event.label] - 1) * event.confidence;
+      if (event.label === "drop") {
+        processBeat(Math.max(0.5, event.confidence), 0, 1, 5);
+      }
+    });
 
     // Cleanup
     return () => {
-      window.removeEventListener('musicbeat', handleFakeBeat);
-      if (unsubscribeRealAudio) {
-        unsubscribeRealAudio();
-      }
+      unsubscribeSections();
+      unsubscribeBeats();
     };
-  }, [onBeat, isWebAudioSupported, config]);
+  }, [onBeat, onSection, getLoudness, config]);
 
-  // Animation loop to update pulsations
+  // Animation loop to update pulsations and brightness
   useEffect(() => {
     let animationFrameId: number;
+    let brightness = 1;
+
+    // Follow short-term loudness smoothly; back to neutral when no audio is analyzed
+    const updateBrightness = () => {
+      const loudness = getLoudness();
+      let target = 1;
+      if (loudness) {
+        const level = Math.max(0, Math.min(1, (loudness.shortTermLufs - QUIET_LUFS) / (LOUD_LUFS - QUIET_LUFS)));
+        target = (MIN_BRIGHTNESS + level * (MAX_BRIGHTNESS - MIN_BRIGHTNESS)) * sectionBrightnessRef.current;
+      } else {
+        sectionBrightnessRef.current = 1;
+      }
+
+      const next = brightness + (target - brightness) * 0.05;
+      if (Math.abs(next - brightness) > 0.001 && brightnessLayerRef.current) {
+        brightness = next;
+        brightnessLayerRef.current.style.filter = `brightness(${brightness.toFixed(3)})`;
+      }
+    };
 
     const updatePulsations = () => {
+      updateBrightness();
+
       if (!containerRef.current || !pulsationManagerRef.current) {
         animationFrameId = requestAnimationFrame(updatePulsations);
         return;
@@ -194,7 +246,12 @@ const StarfieldBackground = () => {
         cancelAnimationFrame(animationFrameId);
       }
     };
-  }, [init]);
+  }, [init, getLoudness]);
+
+  const getActivePulsationCount = useCallback(
+    () => pulsationManagerRef.current?.getActivePulsationCount() ?? 0,
+    []
+  );
 
   const particlesLoaded = useCallback(async (container: any) => {
     containerRef.current = container;
@@ -275,12 +332,17 @@ const StarfieldBackground = () => {
   if (!init) return null;
 
   return (
-    <Particles
-      id="starfield"
-      className="fixed inset-0 z-0"
-      options={options}
-      particlesLoaded={particlesLoaded}
-    />
+    <>
+      <div ref={brightnessLayerRef} className="fixed inset-0 z-0">
+        <Particles
+          id="starfield"
+          className="absolute inset-0"
+          options={options}
+          particlesLoaded={particlesLoaded}
+        />
+      </div>
+      <AudioDebug getActivePulsationCount={getActivePulsationCount} />
+    </>
   );
 }
 
@@ -0,0 +1,616 @@
+import React from 'react';
+import fc from 'fast-check';
+import { act, cleanup, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioAnalysisContextValue, AudioAnalysisProvider, AudioAnalysisProviderProps, BeatEvent, useAudioAnalysis } from './AudioAnalysisContext';
+import { BeatCalibrationStore } from '../lib/beatCalibrationStore';
+import { BEAT_MAP_VERSION, BeatMapSource } from '../lib/beatMap';
+import { BeatMapCache } from '../lib/beatMapCache';
+import { evaluateBeats } from '../lib/beatEvaluation';
+import { FakeAnimationClock } from '../test/animationClock';
+import { parseSessionRecording, serializeSessionRecording, SessionReplaySource } from '../lib/sessionRecording';
+import { createFakeIndexedDB } from '../test/fakeIndexedDB';
+import {
+    clickTrack,
+    ClickTrackOptions,
+    createFakeMediaStream,
+    endElement,
+    failElement,
+    FakeWebAudioController,
+    getClickTimes,
+    installFakeWebAudio,
+    sequence,
+    setElementPlaying,
+    silence,
+    SpectrumScript,
+} from '../test/fakeWebAudio';
+import { noisyClickTrack } from '../test/spectrumArbitraries';
+
+// Detections count when they follow a click by at most this much (a few frames of smoothing)
+const TOLERANCE_MS = 60;
+
+describe('AudioAnalysisProvider', () => {
+    let clock: FakeAnimationClock;
+    let restoreClock: () => void;
+    let audio: FakeWebAudioController;
+    let api: AudioAnalysisContextValue;
+
+    const Probe: React.FC = () => {
+        api = useAudioAnalysis();
+        return null;
+    };
+
+    const renderProvider = (props: Partial<AudioAnalysisProviderProps> = {}) => render(
+        <AudioAnalysisProvider preferAudioWorklet={false} beatMapCache={null} {...props}>
+            <Probe />
+        </AudioAnalysisProvider>
+    );
+
+    // Registers a fresh element playing the script; the provider keeps one source node per element
+    const playElement = (script: SpectrumScript) => {
+        const element = document.createElement('audio');
+        audio.setElementScript(element, script);
+        act(() => setElementPlaying(element, true));
+        act(() => api.registerAudioElement(element));
+        return element;
+    };
+
+    const collectBeats = (): BeatEvent[] => {
+        const beats: BeatEvent[] = [];
+        act(() => {
+            api.onBeat((_, event) => beats.push(event));
+        });
+        return beats;
+    };
+
+    const advance = async (ms: number) => {
+        await act(async () => clock.advance(ms));
+    };
+
+    const install = (options: { requireUserGesture?: boolean, frameIntervalMs?: number } = {}) => {
+        const { frameIntervalMs, ...audioOptions } = options;
+        clock = new FakeAnimationClock({ frameIntervalMs });
+        restoreClock = clock.install();
+        audio = installFakeWebAudio({ clock, ...audioOptions });
+    };
+
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        cleanup();
+        audio?.uninstall();
+        restoreClock?.();
+        audio = null;
+        restoreClock = null;
+        vi.restoreAllMocks();
+    });
+
+    describe('with a click track', () => {
+        beforeEach(() => install());
+
+        it('detects a beat for each click', async () => {
+            const track: ClickTrackOptions = { bpm: 120, offsetMs: 500 };
+            renderProvider();
+            const beats = collectBeats();
+            playElement(clickTrack(track));
+            await advance(8000);
+
+            const clicks = getClickTimes(track, clock.now() - TOLERANCE_MS);
+            const result = evaluateBeats(beats.map(beat => beat.timestamp), clicks, TOLERANCE_MS);
+            expect(result.recall).toBeGreaterThan(0.9);
+            expect(result.precision).toBeGreaterThan(0.9);
+            // Detection lags the click by the analyser's smoothing, never leads it
+            expect(result.meanOffsetMs).toBeGreaterThanOrEqual(0);
+            expect(beats.every(beat => beat.source === 'live' && beat.kinds.includes('kick'))).toBe(true);
+        });
+
+        it('measures the tempo of the track', async () => {
+            renderProvider();
+            playElement(clickTrack({ bpm: 128 }));
+            await advance(10000);
+
+            expect(api.tempo).not.toBeNull();
+            expect(api.tempo).toBeCloseTo(128, 0);
+            expect(api.tempoConfidence).toBeGreaterThan(0.5);
+        });
+
+        it('stops beats when the element is unregistered', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            const element = playElement(clickTrack({ bpm: 120 }));
+            await advance(3000);
+            expect(beats.length).toBeGreaterThan(0);
+
+            const count = beats.length;
+            act(() => api.unregisterAudioElement(element));
+            await advance(3000);
+            expect(beats).toHaveLength(count);
+            expect(api.isAnalyzing).toBe(false);
+        });
+
+        it('stays quiet through silence', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            playElement(silence());
+            await advance(5000);
+            expect(beats).toEqual([]);
+        });
+
+        it('picks up clicks that start after a silent intro', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            playElement(sequence([
+                { durationMs: 3000, script: silence() },
+                { durationMs: 5000, script: clickTrack({ bpm: 120, offsetMs: 3000 }) },
+            ]));
+            await advance(8000);
+
+            expect(beats.filter(beat => beat.timestamp < 3000)).toEqual([]);
+            const clicks = getClickTimes({ bpm: 120, offsetMs: 3000 }, clock.now() - TOLERANCE_MS);
+            expect(evaluateBeats(beats.map(beat => beat.timestamp), clicks, TOLERANCE_MS).fMeasure).toBeGreaterThan(0.9);
+        });
+
+        it('detects clicks over any quiet background', async () => {
+            renderProvider();
+            await fc.assert(fc.asyncProperty(noisyClickTrack({ minBpm: 80, maxBpm: 160 }), async ({ track, script }) => {
+                const beats = collectBeats();
+                const start = clock.now();
+                const element = playElement(script);
+                await advance(6000);
+                act(() => api.unregisterAudioElement(element));
+
+                // Click times are clock times; skip the clicks before registration
+                const clicks = getClickTimes(track, clock.now() - TOLERANCE_MS).filter(time => time > start);
+                const result = evaluateBeats(beats.map(beat => beat.timestamp), clicks, TOLERANCE_MS);
+                expect(result.recall).toBeGreaterThanOrEqual(0.5);
+            }), { numRuns: 15 });
+        });
+    });
+
+    describe('multiple inputs', () => {
+        beforeEach(() => install());
+
+        // Two interleaved click tracks: each input clicks once a second, together every half second
+        const ELEMENT_CLICKS: ClickTrackOptions = { bpm: 60, offsetMs: 1000 };
+        const STREAM_CLICKS: ClickTrackOptions = { bpm: 60, offsetMs: 1500 };
+
+        const playStream = (script: SpectrumScript) => {
+            const { stream, tracks } = createFakeMediaStream();
+            audio.setStreamScript(stream, script);
+            act(() => api.registerMediaStream(stream));
+            return { stream, tracks };
+        };
+
+        // Collects the times of the beats a source emits
+        const collectSourceBeats = (source: { subscribe(callback: () => void): () => void }): number[] => {
+            const times: number[] = [];
+            source.subscribe(() => times.push(clock.now()));
+            return times;
+        };
+
+        it('analyzes the mix of an element and a stream with mixedAnalysis', async () => {
+            renderProvider({ mixedAnalysis: true });
+            const beats = collectBeats();
+            playElement(clickTrack(ELEMENT_CLICKS));
+            playStream(clickTrack(STREAM_CLICKS));
+
+            expect(api.analysisSources.map(source => source.kind)).toEqual(['element', 'stream']);
+            expect(api.mixedAnalysisSource).not.toBeNull();
+            expect(api.activeBeatSource).toBe(api.mixedAnalysisSource);
+            const [elementBeats, streamBeats] = api.analysisSources.map(({ source }) => collectSourceBeats(source));
+
+            await advance(8000);
+            const end = clock.now() - TOLERANCE_MS;
+            const clicks = [...getClickTimes(ELEMENT_CLICKS, end), ...getClickTimes(STREAM_CLICKS, end)].sort((a, b) => a - b);
+            // Beats from the mix follow both inputs' clicks; each input's own analysis only its own
+            const mixed = evaluateBeats(beats.map(beat => beat.timestamp), clicks, TOLERANCE_MS);
+            expect(mixed.recall).toBeGreaterThan(0.9);
+            expect(mixed.precision).toBeGreaterThan(0.9);
+            expect(evaluateBeats(elementBeats, getClickTimes(ELEMENT_CLICKS, end), TOLERANCE_MS).fMeasure).toBeGreaterThan(0.9);
+            expect(evaluateBeats(streamBeats, getClickTimes(STREAM_CLICKS, end), TOLERANCE_MS).fMeasure).toBeGreaterThan(0.9);
+        });
+
+        it('keeps analyzing the remaining input after unregistering the primary one', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            let frames = 0;
+            act(() => {
+                api.onFrame(() => frames++);
+            });
+            const { stream } = playStream(clickTrack({ bpm: 100 }));
+            const element = playElement(clickTrack({ bpm: 120 }));
+
+            // The most recently registered input feeds onBeat
+            const [streamSource, elementSource] = api.analysisSources.map(({ source }) => source);
+            expect(api.activeBeatSource).toBe(elementSource);
+            const streamBeats = collectSourceBeats(streamSource);
+            await advance(4000);
+            expect(beats.length).toBeGreaterThan(0);
+            expect(streamBeats.length).toBeGreaterThan(0);
+
+            act(() => api.unregisterAudioElement(element));
+            expect(api.analysisSources.map(source => source.stream)).toEqual([stream]);
+            expect(api.activeBeatSource).toBe(streamSource);
+            expect(api.isAnalyzing).toBe(true);
+
+            const start = clock.now();
+            const framesBefore = frames;
+            const streamBeatsBefore = streamBeats.length;
+            await advance(8000);
+
+            // Existing subscribers now follow the stream, at its tempo
+            const after = beats.filter(beat => beat.timestamp > start);
+            const clicks = getClickTimes({ bpm: 100 }, clock.now() - TOLERANCE_MS).filter(time => time > start);
+            expect(evaluateBeats(after.map(beat => beat.timestamp), clicks, TOLERANCE_MS).fMeasure).toBeGreaterThan(0.9);
+            expect(frames - framesBefore).toBeGreaterThan(400);
+            expect(streamBeats.length).toBeGreaterThan(streamBeatsBefore);
+            expect(api.tempo).toBeCloseTo(100, 0);
+        });
+    });
+
+    describe('errors', () => {
+        beforeEach(() => install());
+
+        it('reports element errors by cause', async () => {
+            renderProvider();
+            const element = playElement(clickTrack({ bpm: 120 }));
+
+            act(() => failElement(element, 2));
+            expect(api.error?.code).toBe('network');
+
+            act(() => failElement(element, 3));
+            expect(api.error?.code).toBe('decode-failed');
+        });
+
+        it('stops analysis when a stream ends', async () => {
+            renderProvider();
+            const { stream, tracks } = createFakeMediaStream();
+            audio.setStreamScript(stream, clickTrack({ bpm: 120 }));
+            act(() => api.registerMediaStream(stream));
+            await advance(1000);
+            expect(api.isAnalyzing).toBe(true);
+
+            act(() => tracks[0].end());
+            expect(api.error?.code).toBe('input-ended');
+            expect(api.analysisSources).toEqual([]);
+        });
+
+        it('keeps analyzing after an element ends', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            const element = playElement(clickTrack({ bpm: 120 }));
+            await advance(2000);
+
+            act(() => endElement(element));
+            const count = beats.length;
+            await advance(2000);
+            expect(beats).toHaveLength(count);
+            expect(api.error).toBeNull();
+        });
+    });
+
+    describe('analysis props', () => {
+        beforeEach(() => install());
+
+        // Registers an element with a track URL, which auto-calibration needs
+        const playTrack = (url: string) => {
+            const element = document.createElement('audio');
+            element.src = url;
+            audio.setElementScript(element, clickTrack({ bpm: 120 }));
+            act(() => setElementPlaying(element, true));
+            act(() => api.registerAudioElement(element));
+            return element;
+        };
+
+        it('keeps configure() settings when other props change', () => {
+            const { rerender } = renderProvider({ beatThreshold: 1.3 });
+            act(() => {
+                api.configure({ beatThreshold: 1.6, beatDebounceMs: 200 });
+            });
+
+            rerender(
+                <AudioAnalysisProvider preferAudioWorklet={false} beatMapCache={null} beatThreshold={1.3} fftSize={4096}>
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            expect(api.analysisConfig).toEqual({ fftSize: 4096, smoothingTimeConstant: 0.8, beatThreshold: 1.6, beatDebounceMs: 200 });
+        });
+
+        it('applies a prop that changed after configure()', () => {
+            const { rerender } = renderProvider({ beatThreshold: 1.3 });
+            act(() => {
+                api.configure({ beatThreshold: 1.6, fftSize: 4096 });
+            });
+
+            rerender(
+                <AudioAnalysisProvider preferAudioWorklet={false} beatMapCache={null} beatThreshold={1.4}>
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            expect(api.analysisConfig.beatThreshold).toBe(1.4);
+            expect(api.analysisConfig.fftSize).toBe(4096);
+        });
+
+        it('keeps calibrating when only the debounce changes', () => {
+            const props = { preferAudioWorklet: false, beatMapCache: null, autoCalibrate: true, calibrationStore: null };
+            const { rerender } = render(
+                <AudioAnalysisProvider {...props} beatDebounceMs={100}>
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            playTrack('https://example.com/track.mp3');
+            expect(api.calibration.status).toBe('calibrating');
+
+            rerender(
+                <AudioAnalysisProvider {...props} beatDebounceMs={150}>
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            expect(api.calibration.status).toBe('calibrating');
+            expect(api.calibration.sensitivity.debounceMs).toBe(150);
+
+            rerender(
+                <AudioAnalysisProvider {...props} beatDebounceMs={150} beatThreshold={1.5}>
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            expect(api.calibration.status).toBe('off');
+            expect(api.calibration.sensitivity).toEqual({ thresholdMultiplier: 1.5, debounceMs: 150 });
+        });
+    });
+
+    describe('auto-calibration', () => {
+        const TRACK_URL = 'https://example.com/track.mp3';
+        let calibrationStore: BeatCalibrationStore;
+
+        beforeEach(() => {
+            install();
+            calibrationStore = new BeatCalibrationStore({ storage: sessionStorage });
+        });
+
+        afterEach(() => {
+            sessionStorage.clear();
+        });
+
+        const playTrack = (bpm: number) => {
+            const element = document.createElement('audio');
+            element.src = TRACK_URL;
+            audio.setElementScript(element, clickTrack({ bpm, decayMs: 30 }));
+            act(() => setElementPlaying(element, true));
+            act(() => api.registerAudioElement(element));
+            return element;
+        };
+
+        it('calibrates a track from its tempo', async () => {
+            renderProvider({ autoCalibrate: true, calibrationStore });
+            playTrack(120);
+            expect(api.calibration.status).toBe('calibrating');
+
+            await advance(15000);
+            expect(api.calibration.status).toBe('calibrated');
+            expect(api.calibration.result).not.toBeNull();
+            expect(api.calibration.sensitivity).toEqual({
+                thresholdMultiplier: api.calibration.result.thresholdMultiplier,
+                debounceMs: api.calibration.result.debounceMs,
+            });
+            // The calibrated detector keeps finding the clicks
+            const beats = collectBeats();
+            const start = clock.now();
+            await advance(5000);
+            const clicks = getClickTimes({ bpm: 120 }, clock.now() - TOLERANCE_MS).filter(time => time > start);
+            const result = evaluateBeats(beats.map(beat => beat.timestamp), clicks, TOLERANCE_MS);
+            expect(result.fMeasure).toBeGreaterThan(0.9);
+        });
+
+        it('restores the calibration of a track played before', async () => {
+            renderProvider({ autoCalibrate: true, calibrationStore });
+            const first = playTrack(120);
+            await advance(15000);
+            const { result } = api.calibration;
+            act(() => api.unregisterAudioElement(first));
+
+            playTrack(120);
+            expect(api.calibration.status).toBe('restored');
+            expect(api.calibration.result).toEqual(result);
+        });
+
+        it('stays off without autoCalibrate', async () => {
+            renderProvider({ calibrationStore });
+            playTrack(120);
+            await advance(15000);
+            expect(api.calibration.status).toBe('off');
+        });
+    });
+
+    describe('beat map cache', () => {
+        const TRACK_URL = 'https://example.com/track.mp3';
+        const DURATION_S = 10;
+        let beatMapCache: BeatMapCache;
+        let releaseBeats: (() => void) | null;
+
+        beforeEach(() => {
+            install();
+            beatMapCache = new BeatMapCache({ indexedDB: createFakeIndexedDB() });
+            releaseBeats = null;
+        });
+
+        // Plays the track like MusicDisc does: React attaches onEnded, which stops beats, before
+        // the provider adds its own 'ended' listener
+        const renderPlayer = () => {
+            render(
+                <AudioAnalysisProvider preferAudioWorklet={false} beatMapCache={beatMapCache}>
+                    <audio src={TRACK_URL} onEnded={() => releaseBeats?.()} />
+                    <Probe />
+                </AudioAnalysisProvider>
+            );
+            const element = document.querySelector('audio') as HTMLAudioElement;
+            const start = clock.now();
+            Object.defineProperty(element, 'currentTime', { configurable: true, get: () => (clock.now() - start) / 1000 });
+            Object.defineProperty(element, 'duration', { configurable: true, value: DURATION_S });
+            audio.setElementScript(element, clickTrack({ bpm: 120 }));
+            act(() => setElementPlaying(element, true));
+            act(() => api.registerAudioElement(element));
+            act(() => {
+                releaseBeats = api.activateBeatSource(api.analysisSources[0].source);
+            });
+            return element;
+        };
+
+        it('stores the live session of a track played to the end', async () => {
+            const put = vi.spyOn(beatMapCache, 'put');
+            const element = renderPlayer();
+            await advance(DURATION_S * 1000);
+
+            act(() => endElement(element));
+            expect(api.activeBeatSource).toBeNull();
+            expect(put).toHaveBeenCalledTimes(1);
+            const [url, , beatMap] = put.mock.calls[0];
+            expect(url).toBe(TRACK_URL);
+            expect(beatMap.duration).toBe(DURATION_S);
+            expect(beatMap.beats.length).toBeGreaterThanOrEqual(18);
+        });
+
+        it('does not store a track whose beat map came from the cache', async () => {
+            vi.spyOn(beatMapCache, 'get').mockResolvedValue({
+                version: BEAT_MAP_VERSION,
+                duration: DURATION_S,
+                tempo: 120,
+                tempoConfidence: 1,
+                beats: [{ time: 0.5, strength: 1, bands: ['low'] }],
+            });
+            const put = vi.spyOn(beatMapCache, 'put');
+            const element = renderPlayer();
+            await advance(DURATION_S * 1000);
+            expect(api.activeBeatSource?.kind).toBe('beat-map');
+
+            act(() => endElement(element));
+            expect(put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('beat sources', () => {
+        beforeEach(() => install());
+
+        it('dispatches beats at the times a beat map places them, not at frame times', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            const start = clock.now();
+            const source = new BeatMapSource({
+                version: BEAT_MAP_VERSION,
+                duration: 2,
+                tempo: 120,
+                tempoConfidence: 1,
+                beats: [0.5, 1, 1.5].map(time => ({ time, strength: 1, bands: ['low'] })),
+            }, () => (clock.now() - start) / 1000);
+            act(() => {
+                api.activateBeatSource(source);
+                source.start();
+            });
+            await advance(2000);
+
+            // Frames are 1000/60 ms apart, so none falls on these beats
+            expect(beats.map(beat => beat.timestamp - start)).toEqual([
+                expect.closeTo(500, 6),
+                expect.closeTo(1000, 6),
+                expect.closeTo(1500, 6),
+            ]);
+        });
+    });
+
+    describe('session recording', () => {
+        // Whole-millisecond frames, so recorded offsets survive rounding exactly
+        beforeEach(() => install({ frameIntervalMs: 16 }));
+
+        const collectFrames = (): { timestamp: number, energy: number }[] => {
+            const frames: { timestamp: number, energy: number }[] = [];
+            act(() => {
+                api.onFrame(frame => frames.push({ timestamp: frame.timestamp, energy: frame.energy }));
+            });
+            return frames;
+        };
+
+        it('replays a recorded session with the original timing', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            const frames = collectFrames();
+
+            const recordStart = clock.now();
+            let handle: ReturnType<AudioAnalysisContextValue['recordSession']>;
+            act(() => {
+                handle = api.recordSession({ track: 'clicks' });
+            });
+            const element = playElement(clickTrack({ bpm: 120, offsetMs: 500 }));
+            await advance(5000);
+            const recording = handle.stop();
+            act(() => api.unregisterAudioElement(element));
+
+            const recordedBeats = beats.splice(0);
+            const recordedFrames = frames.splice(0);
+            expect(recordedBeats.length).toBeGreaterThanOrEqual(8);
+            expect(recording.beats).toHaveLength(recordedBeats.length);
+            expect(recording.frames).toHaveLength(recordedFrames.length);
+
+            const parsed = parseSessionRecording(serializeSessionRecording(recording));
+            expect(parsed).toEqual(recording);
+
+            const replay = new SessionReplaySource(parsed);
+            const replayStart = clock.now();
+            act(() => {
+                api.activateBeatSource(replay);
+                replay.start();
+            });
+            await advance(parsed.duration + 100);
+            expect(replay.isFinished()).toBe(true);
+
+            expect(beats.map(beat => beat.timestamp - replayStart))
+                .toEqual(recordedBeats.map(beat => beat.timestamp - recordStart));
+            expect(beats.map(({ kinds, source, barIndex, beatInBar, beatsPerBar, offbeat }) =>
+                ({ kinds, source, barIndex, beatInBar, beatsPerBar, offbeat })))
+                .toEqual(recordedBeats.map(({ kinds, barIndex, beatInBar, beatsPerBar, offbeat }) =>
+                    ({ kinds, source: 'replay', barIndex, beatInBar, beatsPerBar, offbeat })));
+            expect(frames.map(frame => frame.timestamp - replayStart))
+                .toEqual(recordedFrames.map(frame => frame.timestamp - recordStart));
+            frames.forEach((frame, i) => expect(frame.energy).toBeCloseTo(recordedFrames[i].energy, 4));
+        });
+    });
+
+    describe('autoplay policy', () => {
+        beforeEach(() => install({ requireUserGesture: true }));
+
+        it('resumes the context on the first gesture', async () => {
+            renderProvider();
+            const beats = collectBeats();
+            playElement(clickTrack({ bpm: 120 }));
+            await advance(2000);
+            expect(api.audioContextState).toBe('suspended');
+            expect(beats).toEqual([]);
+
+            await act(async () => {
+                window.dispatchEvent(new Event('pointerdown'));
+            });
+            await advance(3000);
+            expect(api.audioContextState).toBe('running');
+            expect(beats.length).toBeGreaterThan(0);
+        });
+    });
+
+    it('degrades without Web Audio', () => {
+        const original = Object.getOwnPropertyDescriptor(window, 'AudioContext');
+        delete (window as { AudioContext?: unknown }).AudioContext;
+        try {
+            renderProvider();
+            expect(api.isWebAudioSupported).toBe(false);
+
+            act(() => api.registerAudioElement(document.createElement('audio')));
+            expect(api.error?.code).toBe('unsupported');
+            expect(api.isAnalyzing).toBe(false);
+        } finally {
+            if (original) {
+                Object.defineProperty(window, 'AudioContext', original);
+            }
+        }
+    });
+});
@@ -1,19 +1,210 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
-import { BeatDetector } from '../lib/beatDetection';
+import { AnalysisConfig, AnalysisConfigKey, AnalysisConfigResult, validateAnalysisConfig } from '../lib/analysisConfig';
+import {
+    AudioContextStatus,
+    getAudioContextStatus,
+    getMediaElementSource,
+    getSharedAudioContext,
+    resumeOnUserGesture,
+} from '../lib/audioGraph';
+import { AudioError, createAudioError, fromMediaError, isCorsRestricted, toAudioError } from '../lib/audioErrors';
+import { BeatDetector, DEFAULT_FREQUENCY_BANDS, DetectionStrategy, FrequencyBand } from '../lib/beatDetection';
+import { TempoTracker, TempoEstimate } from '../lib/tempoEstimation';
+import { BeatPredictor, PredictedBeat } from '../lib/beatPrediction';
+import { BeatMapRecorder, BeatMapSource, resolveAnalysisConfig } from '../lib/beatMap';
+import { BeatMapCache, getDefaultBeatMapCache, hashDetectorConfig } from '../lib/beatMapCache';
+import { BarTracker, COMMON_TIME } from '../lib/barTracking';
+import { BeatCalibrator, CalibrationResult, CalibrationStatus, DetectionCalibration } from '../lib/beatCalibration';
+import { BeatCalibrationStore, getDefaultCalibrationStore } from '../lib/beatCalibrationStore';
+import { BeatDetails, BeatSource, BeatSourceKind } from '../lib/beatSource';
+import { LiveAnalysisFrame, LiveAnalysisSource } from '../lib/liveAnalysisSource';
+import { LoudnessReading } from '../lib/loudness';
+import { PercussionKind } from '../lib/percussion';
+import { SectionDetector, SectionEvent, SectionLabel } from '../lib/sectionDetection';
+import { SessionRecorder, SessionRecording } from '../lib/sessionRecording';
+import { createBeatDetectorNode, getWorkletHopSize, isAudioWorkletSupported } from '../lib/workletAnalysis';
+
+/**
+ * Everything known about a beat, passed to beat callbacks after the strength.
+ */
+export interface BeatEvent {
+    /** Normalized beat intensity (0-1) */
+    strength: number;
+
+    /** Percussion classes of the beat (kick, snare, hi-hat) */
+    kinds: readonly PercussionKind[];
+
+    /** Names of the frequency bands that fired, empty if the source does not know */
+    bands: readonly string[];
+
+    /** Time of the beat in milliseconds (performance.now() clock), as detected or as placed by a beat map or recording */
+    timestamp: number;
+
+    /** Kind of beat source that produced the beat */
+    source: BeatSourceKind;
+
+    /** Index of the beat's bar since the source became active (0-based) */
+    barIndex: number;
+
+    /** Position of the beat in its bar (1-based, 1 is the downbeat) */
+    beatInBar: number;
+
+    /** Beats per bar of the current meter (4 by default, 3 when 3/4 is detected) */
+    beatsPerBar: number;
+
+    /** Whether the beat falls between beats of the tempo grid (e.g. an off-beat hi-hat) */
+    offbeat: boolean;
+}
 
 /**
  * Callback function invoked when a beat is detected in the audio.
  * 
+ * Callers that only care about strength can ignore the second argument.
+ * 
  * @param beatStrength - Normalized beat intensity (0-1), where higher values indicate stronger beats
+ * @param event - Percussion classes, bands, time and source of the beat
  * 
  * @example
  * ```typescript
- * const unsubscribe = onBeat((strength) => {
- *   console.log(`Beat detected with strength: ${strength}`);
+ * const unsubscribe = onBeat((strength, event) => {
+ *   console.log(`Beat (${event.kinds.join('+')}) detected with strength: ${strength}`);
  * });
  * ```
  */
-export type BeatCallback = (beatStrength: number) => void;
+export type BeatCallback = (beatStrength: number, event: BeatEvent) => void;
+
+/**
+ * Filter for beat subscriptions.
+ * 
+ * @example
+ * ```typescript
+ * // Only kicks and snares
+ * onBeat({ kinds: ['kick', 'snare'] }, (strength) => pulse(strength));
+ * ```
+ */
+export interface BeatFilter {
+    /** Percussion kinds to receive; a beat matches if it has any of them. All beats when omitted. */
+    kinds?: readonly PercussionKind[];
+}
+
+// A beat callback together with the kinds it subscribed to (null for all beats)
+interface BeatSubscription {
+    callback: BeatCallback;
+    kinds: readonly PercussionKind[] | null;
+}
+
+// Analyser and live source fed by one audio node. workletRequest invalidates
+// AudioWorklet loads still pending when the chain is reconfigured or disposed.
+interface AnalysisChain {
+    input: AudioNode;
+    analyser: AnalyserNode;
+    liveSource: LiveAnalysisSource;
+    workletRequest: number;
+}
+
+// A registered element or stream with its analysis chain and event listeners
+interface RegisteredInput {
+    id: string;
+    kind: 'element' | 'stream';
+    element: HTMLAudioElement | null;
+    stream: MediaStream | null;
+    node: AudioNode;
+    chain: AnalysisChain;
+    isActive: () => boolean;
+    removeListeners: () => void;
+}
+
+// Gain node summing the inputs, with the analysis of the sum
+interface MixedAnalysis {
+    gain: GainNode;
+    chain: AnalysisChain;
+    inputs: Set<RegisteredInput>;
+}
+
+/**
+ * Callback function invoked ahead of a predicted beat.
+ * 
+ * Fires up to a frame before the beat is heard. Use `beat.scheduledTime`
+ * (performance.now() clock) to line the visual up with the audio.
+ * 
+ * @param beat - Predicted beat with its scheduled time, strength and confidence
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = onPredictedBeat((beat) => {
+ *   const delay = beat.scheduledTime - performance.now();
+ *   setTimeout(() => pulse(beat.strength), Math.max(0, delay));
+ * });
+ * ```
+ */
+export type PredictedBeatCallback = (beat: PredictedBeat) => void;
+
+/**
+ * Callback function invoked for every analyzed audio frame.
+ * 
+ * The frame object and its buffers are reused between frames to avoid
+ * allocations: read the values you need inside the callback and do not
+ * keep references to the frame or its arrays.
+ * 
+ * @param frame - Band energies, loudness, spectral centroid, energy and threshold for the frame
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = onFrame((frame) => {
+ *   glow.style.opacity = String(frame.rms);
+ * });
+ * ```
+ */
+export type FrameCallback = (frame: Readonly<LiveAnalysisFrame>) => void;
+
+/**
+ * Callback function invoked when the music changes section.
+ * 
+ * @param event - Label guess, confidence and time of the new section
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = onSection((event) => {
+ *   if (event.label === 'drop' && event.confidence > 0.5) {
+ *     explode();
+ *   }
+ * });
+ * ```
+ */
+export type SectionCallback = (event: SectionEvent) => void;
+
+/**
+ * Handle to a session recording started with recordSession().
+ */
+export interface SessionRecordingHandle {
+    /**
+     * Finishes the recording. Later calls return the same recording.
+     * 
+     * @returns The recorded frames and beats
+     */
+    stop: () => SessionRecording;
+}
+
+/**
+ * A registered audio element or media stream and its own analysis.
+ * Subscribe to `source` for the beats and frames of this input alone.
+ */
+export interface AnalysisSourceInfo {
+    /** Identifier of the registration, e.g. 'element-1' */
+    id: string;
+
+    /** Whether the input is an audio element or a media stream */
+    kind: 'element' | 'stream';
+
+    /** The registered element, null for streams */
+    element: HTMLAudioElement | null;
+
+    /** The registered stream, null for elements */
+    stream: MediaStream | null;
+
+    /** Live analysis of this input, running while it is registered */
+    source: LiveAnalysisSource;
+}
 
 /**
  * Context value providing audio analysis capabilities and beat detection.
@@ -30,7 +221,7 @@ export type BeatCallback = (beatStrength: number) => void;
  * useEffect(() => {
  *   if (audioRef.current) {
  *     registerAudioElement(audioRef.current);
- *     return () => unregisterAudioElement();
+ *     return () => unregisterAudioElement(audioRef.current);
  *   }
  * }, []);
  * 
@@ -55,9 +246,84 @@ export interface AudioAnalysisContextValue {
      */
     isWebAudioSupported: boolean;
 
+    /**
+     * State of the shared AudioContext, null until an element or stream is registered.
+     * 
+     * Browsers start the context 'suspended' until the user interacts with the
+     * page, and Safari reports 'interrupted' while another app holds the audio
+     * session (e.g. a phone call on iOS). Analysis hears silence unless the
+     * state is 'running'; the provider resumes the context on the next pointer
+     * or key gesture.
+     * 
+     * @example
+     * ```typescript
+     * const { audioContextState } = useAudioAnalysis();
+     * const needsTap = audioContextState === 'suspended' || audioContextState === 'interrupted';
+     * ```
+     */
+    audioContextState: AudioContextStatus | null;
+
+    /**
+     * Tempo measured from the detected beats, in beats per minute.
+     * Null until enough beats have been detected to estimate a tempo.
+     */
+    tempo: number | null;
+
+    /**
+     * Confidence of the measured tempo (0-1).
+     * 0 when no tempo has been estimated yet.
+     */
+    tempoConfidence: number;
+
+    /**
+     * Beats per bar of the current meter: inferred from the beats (4 by default,
+     * 3 when the accents repeat every three beats) or reported by the source.
+     */
+    beatsPerBar: number;
+
+    /**
+     * Label of the current section of the music, null until one is detected
+     * or when the active source does not analyze audio.
+     */
+    section: SectionLabel | null;
+
+    /**
+     * Threshold multiplier and debounce the live detector is using, and whether
+     * they were calibrated for the current track (see the autoCalibrate prop).
+     */
+    calibration: DetectionCalibration;
+
+    /**
+     * Beat source currently feeding onBeat subscribers, null when none is active.
+     * Live analysis becomes active when an audio element is registered.
+     */
+    activeBeatSource: BeatSource | null;
+
+    /**
+     * Makes a beat source the active source. The previously active source is
+     * stopped and the measured tempo starts over. The new source is not started;
+     * call `source.start()` when it should produce beats.
+     * 
+     * @param source - Source to activate, or null to deactivate the current source
+     * @returns Function that deactivates the source, if it is still the active one
+     * 
+     * @example
+     * ```typescript
+     * const metronome = new FakeBeatDetector(track.bpm);
+     * const release = activateBeatSource(metronome);
+     * metronome.start();
+     * // Later
+     * release();
+     * ```
+     */
+    activateBeatSource: (source: BeatSource | null) => () => void;
+
     /**
      * Registers a callback to be invoked when beats are detected.
+     * Beats come from the active beat source, whichever kind it is.
+     * Pass a filter first to receive only some percussion kinds.
      * 
+     * @param filter - Optional percussion kinds to receive
      * @param callback - Function to call when a beat is detected
      * @returns Cleanup function to unsubscribe the callback
      * 
@@ -69,13 +335,110 @@ export interface AudioAnalysisContextValue {
      *   });
      *   return unsubscribe;
      * }, []);
+     * 
+     * // Kicks only
+     * useEffect(() => onBeat({ kinds: ['kick'] }, pulseLargeStars), []);
+     * ```
+     */
+    onBeat: {
+        (callback: BeatCallback): () => void;
+        (filter: BeatFilter, callback: BeatCallback): () => void;
+    };
+
+    /**
+     * Registers a callback to be invoked ahead of predicted beats.
+     * 
+     * Unlike onBeat, which reacts after a beat has been detected, predicted beats
+     * are extrapolated from the measured tempo and compensated for analysis and
+     * output latency. Predictions start once the tempo is known with reasonable
+     * confidence and stop shortly after detected beats stop.
+     * 
+     * @param callback - Function to call with each predicted beat
+     * @returns Cleanup function to unsubscribe the callback
+     */
+    onPredictedBeat: (callback: PredictedBeatCallback) => () => void;
+
+    /**
+     * Registers a callback to be invoked for every analyzed audio frame.
+     * 
+     * Frames are delivered while the active beat source analyzes audio (live
+     * analysis of a playing audio element or stream) or replays a recorded
+     * session. Use this for animations that follow the music continuously
+     * rather than only on beats.
+     * 
+     * @param callback - Function to call with each frame
+     * @returns Cleanup function to unsubscribe the callback
+     */
+    onFrame: (callback: FrameCallback) => () => void;
+
+    /**
+     * Registers a callback to be invoked when the music changes section
+     * (intro, verse, build-up, drop, breakdown).
+     * 
+     * Sections are detected from changes in energy, brightness and loudness
+     * over several seconds, so events arrive at most every few seconds and
+     * only while the active source delivers frames. Labels are guesses; use
+     * the confidence to decide how dramatic the reaction should be.
+     * 
+     * @param callback - Function to call with each section change
+     * @returns Cleanup function to unsubscribe the callback
+     */
+    onSection: (callback: SectionCallback) => () => void;
+
+    /**
+     * Starts recording the session: every analysis frame (energies, threshold)
+     * and every dispatched beat, with timestamps, whichever source is active.
+     * Stop the returned recording to get JSON-serializable data, which
+     * SessionReplaySource plays back through the same subscribers.
+     * 
+     * Only one recording runs at a time; starting a new one finishes the previous one.
+     * 
+     * @param metadata - Free-form details stored with the recording
+     * @returns Handle whose stop() finishes the recording and returns it
+     * 
+     * @example
+     * ```typescript
+     * const recording = recordSession({ track: 'Song' });
+     * // ...later
+     * downloadSessionRecording(recording.stop());
+     * 
+     * // Replay
+     * const replay = new SessionReplaySource(parseSessionRecording(json));
+     * activateBeatSource(replay);
+     * replay.start();
      * ```
      */
-    onBeat: (callback: BeatCallback) => () => void;
+    recordSession: (metadata?: Record<string, unknown>) => SessionRecordingHandle;
+
+    /**
+     * Gets the latest loudness reading (RMS, true-peak, momentary, short-term
+     * and integrated LUFS) of the active source.
+     * 
+     * Not React state, so reading it does not re-render: call it from beat or
+     * frame callbacks or an animation loop. The same values arrive with every
+     * frame as `frame.loudness`.
+     * 
+     * @returns Latest reading, or null when the active source does not analyze audio
+     * 
+     * @example
+     * ```typescript
+     * onBeat((strength) => {
+     *   const loudness = getLoudness();
+     *   pulse(loudness ? strength * getRelativeLoudnessScale(loudness) : strength);
+     * });
+     * ```
+     */
+    getLoudness: () => Readonly<LoudnessReading> | null;
 
     /**
      * Registers an HTML5 audio element for analysis.
-     * Creates an AudioContext and connects it to the audio element for real-time frequency analysis.
+     * Connects the element to the shared AudioContext for real-time frequency analysis.
+     * 
+     * Several elements and streams can be registered at once; each is analyzed
+     * on its own (see analysisSources) and the most recently registered one
+     * feeds onBeat, unless mixedAnalysis is on. Registering an element again is
+     * a no-op, and an element registered after a remount reuses its source node,
+     * since a media element can only ever be connected to one.
      * 
      * @param element - The HTML audio element to analyze
      * 
@@ -93,25 +456,105 @@ export interface AudioAnalysisContextValue {
     registerAudioElement: (element: HTMLAudioElement) => void;
 
     /**
-     * Unregisters the current audio element and cleans up all audio analysis resources.
-     * Disconnects audio nodes, closes the AudioContext, and stops the analysis loop.
+     * Unregisters an audio element and stops its analysis.
+     * The shared AudioContext stays open and the element stays audible.
+     * Beat, frame and section subscriptions are kept, so components subscribed
+     * through onBeat keep receiving beats from the remaining inputs.
+     * 
+     * @param element - Element to unregister; unregisters every element when omitted
      * 
      * @example
      * ```typescript
      * useEffect(() => {
-     *   return () => {
-     *     unregisterAudioElement();
-     *   };
+     *   const audio = audioRef.current;
+     *   registerAudioElement(audio);
+     *   return () => unregisterAudioElement(audio);
      * }, []);
      * ```
      */
-    unregisterAudioElement: () => void;
+    unregisterAudioElement: (element?: HTMLAudioElement) => void;
+
+    /**
+     * Registers a media stream, such as microphone input from getUserMedia, for analysis.
+     * 
+     * The stream is analyzed but never routed to the speakers, so a microphone
+     * cannot cause feedback. If the stream's audio tracks end (device unplugged,
+     * permission revoked), analysis stops and `error` is set.
+     * 
+     * @param stream - Media stream with at least one live audio track
+     * 
+     * @example
+     * ```typescript
+     * const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+     * registerMediaStream(stream);
+     * ```
+     */
+    registerMediaStream: (stream: MediaStream) => void;
 
     /**
-     * Error message if audio analysis initialization or operation failed.
+     * Unregisters a media stream and stops its analysis.
+     * The stream's tracks are not stopped, and subscriptions are kept.
+     * 
+     * @param stream - Stream to unregister; unregisters every stream when omitted
+     */
+    unregisterMediaStream: (stream?: MediaStream) => void;
+
+    /**
+     * Registered elements and streams with their own analysis, in registration order.
+     */
+    analysisSources: AnalysisSourceInfo[];
+
+    /**
+     * Analysis of the mix of all registered inputs.
+     * Null unless mixedAnalysis is on and at least one input is registered.
+     */
+    mixedAnalysisSource: LiveAnalysisSource | null;
+
+    /**
+     * Error if audio analysis initialization or operation failed, with its
+     * code, the part of the pipeline it came from and a suggested recovery.
      * Null when no error has occurred.
+     * 
+     * @example
+     * ```typescript
+     * const { error } = useAudioAnalysis();
+     * if (error?.recovery === 'use-metronome') {
+     *   activateBeatSource(metronome);
+     * }
+     * ```
+     */
+    error: AudioError | null;
+
+    /**
+     * Analyser and detector settings currently in use. Starts from the provider
+     * props and follows configure().
+     */
+    analysisConfig: AnalysisConfig;
+
+    /**
+     * Changes analyser and detector settings while audio plays, without
+     * re-registering the audio element or stream. The analyser is updated in
+     * place; an AudioWorklet detector is recreated when fftSize or
+     * smoothingTimeConstant change. A new beatThreshold replaces any calibration
+     * of the current track; a new beatDebounceMs keeps it and applies whenever
+     * no calibrated debounce is in effect.
+     * 
+     * Nothing is applied unless every setting is valid. Changing the matching
+     * provider props has the same effect for the props that changed; other
+     * settings keep the values last passed here.
+     * 
+     * @param changes - Settings to change; omitted settings keep their values
+     * @returns The new configuration, or typed errors for each invalid setting
+     * 
+     * @example
+     * ```typescript
+     * const result = configure({ fftSize: 4096, beatThreshold: 1.5 });
+     * if (result.ok === false) {
+     *   result.errors.forEach(error => showFieldError(error.option, error.message));
+     * }
+     * ```
      */
-    error: string | null;
+    configure: (changes: Partial<AnalysisConfig>) => AnalysisConfigResult;
 
     /**
      * Configuration values for pulsation and selection behavior.
@@ -179,6 +622,83 @@ export interface AudioAnalysisProviderProps {
      */
     beatDebounceMs?: number;
 
+    /**
+     * Calibrate the threshold multiplier and debounce for each track played
+     * through a registered audio element. The first seconds of the track are
+     * observed with beatThreshold and beatDebounceMs; once the tempo is known,
+     * the detector switches to settings that detect about one beat per tempo
+     * beat. Calibrations are stored per track and reused on later plays.
+     * 
+     * @default false
+     */
+    autoCalibrate?: boolean;
+
+    /**
+     * Store for calibrations made with autoCalibrate. Pass null to calibrate
+     * every play without storing the result.
+     * 
+     * @default Shared localStorage store (null when localStorage is unavailable)
+     */
+    calibrationStore?: BeatCalibrationStore | null;
+
+    /**
+     * Beat detection algorithm.
+     * - 'bass-energy': reacts to low-frequency energy peaks only
+     * - 'spectral-flux': reacts to onsets in any frequency band (sub, low, mid, high),
+     *   so snares and hi-hats also produce beats
+     * 
+     * @default 'bass-energy'
+     */
+    detectionStrategy?: DetectionStrategy;
+
+    /**
+     * Frequency bands analyzed by the spectral-flux strategy, in Hz. Converted
+     * to bins for each analyser's FFT size and sample rate. Beats report the
+     * names of the bands that fired; percussion classification expects the
+     * default names.
+     * 
+     * @default DEFAULT_FREQUENCY_BANDS
+     */
+    frequencyBands?: readonly FrequencyBand[];
+
+    /**
+     * Run beat detection in an AudioWorklet on the audio thread when the browser
+     * supports it. Keeps detecting in background tabs and is not delayed by
+     * rendering. The AnalyserNode loop is used when worklets are unavailable,
+     * fail to load, or this is false.
+     * 
+     * @default true
+     */
+    preferAudioWorklet?: boolean;
+
+    /**
+     * Cache used to look up precomputed beat maps before live analysis starts,
+     * and to store beat maps recorded from complete live sessions.
+     * Pass null to disable caching.
+     * 
+     * @default Shared IndexedDB cache (null when IndexedDB is unavailable)
+     */
+    beatMapCache?: BeatMapCache | null;
+
+    /**
+     * Feed onBeat from the mix of all registered elements and streams instead
+     * of the most recently registered one. Each input is still analyzed on its
+     * own (see analysisSources). Beat map caching and auto-calibration follow
+     * a single track, so they only apply without the mix.
+     * 
+     * @default false
+     */
+    mixedAnalysis?: boolean;
+
+    /**
+     * Called when the shared AudioContext changes state, e.g. when it is
+     * suspended or interrupted and analysis stops hearing audio.
+     * 
+     * @param state - New state
+     * @param previous - State before the change
+     */
+    onAudioContextStateChange?: (state: AudioContextStatus, previous: AudioContextStatus) => void;
+
     /**
      * Intensity of pulsation effects (0-1).
      * Controls the magnitude and duration of star pulsations.
@@ -204,6 +724,9 @@ export interface AudioAnalysisProviderProps {
 // Create context with undefined default (will throw if used outside provider)
 const AudioAnalysisContext = createContext<AudioAnalysisContextValue | undefined>(undefined);
 
+// Tempo confidence needed before calibrating, as for beat prediction
+const MIN_CALIBRATION_TEMPO_CONFIDENCE = 0.4;
+
 // Feature detection function
 const detectWebAudioSupport = (): boolean => {
     try {
@@ -217,7 +740,7 @@ const detectWebAudioSupport = (): boolean => {
 /**
  * Provider component that enables audio analysis and beat detection for child components.
  * 
- * This component creates an AudioContext, manages the beat detection algorithm,
+ * This component connects audio to the shared AudioContext, manages the beat detection algorithm,
  * and broadcasts beat events to subscribers. It handles Web Audio API initialization,
  * error handling, and graceful degradation when audio features are unavailable.
  * 
@@ -247,106 +770,673 @@ export const AudioAnalysisProvider: React.FC<AudioAnalysisProviderProps> = ({
     smoothingTimeConstant = 0.8,
     beatThreshold = 1.3,
     beatDebounceMs = 100,
+    autoCalibrate = false,
+    calibrationStore = getDefaultCalibrationStore(),
+    detectionStrategy = 'bass-energy',
+    frequencyBands = DEFAULT_FREQUENCY_BANDS,
+    preferAudioWorklet = true,
+    beatMapCache = getDefaultBeatMapCache(),
+    mixedAnalysis = false,
+    onAudioContextStateChange,
     pulsationIntensity = 1.0,
     selectionPercentage = 0.10,
 }) => {
     // State management
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<AudioError | null>(null);
     const [isWebAudioSupported] = useState(() => detectWebAudioSupport());
+    const [tempoEstimate, setTempoEstimate] = useState<TempoEstimate | null>(null);
+    const [beatsPerBar, setBeatsPerBar] = useState(COMMON_TIME.beatsPerBar);
+    const [section, setSection] = useState<SectionLabel | null>(null);
+    const [analysisConfig, setAnalysisConfig] = useState<AnalysisConfig>(() => ({
+        fftSize,
+        smoothingTimeConstant,
+        beatThreshold,
+        beatDebounceMs,
+    }));
+    const [calibration, setCalibration] = useState<DetectionCalibration>(() => ({
+        status: 'off',
+        sensitivity: { thresholdMultiplier: beatThreshold, debounceMs: beatDebounceMs },
+        result: null,
+    }));
+    const [activeBeatSource, setActiveBeatSource] = useState<BeatSource | null>(null);
+    const [audioContextState, setAudioContextState] = useState<AudioContextStatus | null>(null);
+    const [analysisSources, setAnalysisSources] = useState<AnalysisSourceInfo[]>([]);
+    const [mixedAnalysisSource, setMixedAnalysisSource] = useState<LiveAnalysisSource | null>(null);
 
     // Clamp configuration values to valid ranges
     const clampedPulsationIntensity = Math.max(0, Math.min(1, pulsationIntensity));
     const clampedSelectionPercentage = Math.max(0, Math.min(1, selectionPercentage));
 
     // Refs for audio analysis
-    const audioElementRef = useRef<HTMLAudioElement | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const analyserRef = useRef<AnalyserNode | null>(null);
-    const beatCallbacksRef = useRef<Set<BeatCallback>>(new Set());
-    const beatDetectorRef = useRef<BeatDetector | null>(null);
-    const animationFrameIdRef = useRef<number | null>(null);
-    const frequencyDataRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
-    const audioErrorHandlerRef = useRef<((event: Event) => void) | null>(null);
-
-    // Register beat callback and return cleanup function
-    const onBeat = useCallback((callback: BeatCallback) => {
-        beatCallbacksRef.current.add(callback);
+    const beatCallbacksRef = useRef<Set<BeatSubscription>>(new Set());
+    const tempoTrackerRef = useRef<TempoTracker>(new TempoTracker());
+    const barTrackerRef = useRef<BarTracker>(new BarTracker());
+    const publishedTempoRef = useRef<TempoEstimate | null>(null);
+    const predictedBeatCallbacksRef = useRef<Set<PredictedBeatCallback>>(new Set());
+    const frameCallbacksRef = useRef<Set<FrameCallback>>(new Set());
+    const sectionCallbacksRef = useRef<Set<SectionCallback>>(new Set());
+    const sectionDetectorRef = useRef<SectionDetector>(new SectionDetector());
+    const beatPredictorRef = useRef<BeatPredictor>(new BeatPredictor());
+    const predictionFrameIdRef = useRef<number | null>(null);
+    // Live source behind onBeat: the primary input's, or the mix's with mixed analysis
+    const liveSourceRef = useRef<LiveAnalysisSource | null>(null);
+    const cachedBeatMapSourceRef = useRef<BeatMapSource | null>(null);
+    const activeSourceRef = useRef<BeatSource | null>(null);
+    const activeSourceUnsubscribeRef = useRef<(() => void) | null>(null);
+    const beatMapRecorderRef = useRef<BeatMapRecorder>(new BeatMapRecorder());
+    const trackUrlRef = useRef<string | null>(null);
+    // Registered inputs in registration order, the most recent last
+    const inputsRef = useRef<Map<string, RegisteredInput>>(new Map());
+    const inputCountRef = useRef(0);
+    const primaryInputRef = useRef<RegisteredInput | null>(null);
+    const mixRef = useRef<MixedAnalysis | null>(null);
+    const mixedAnalysisRef = useRef(mixedAnalysis);
+    mixedAnalysisRef.current = mixedAnalysis;
+    const registeredLiveSourcesRef = useRef<Set<BeatSource>>(new Set());
+    // Context whose state is tracked, and the function that stops tracking it
+    const watchedContextRef = useRef<{ context: AudioContext; release: () => void } | null>(null);
+    const onAudioContextStateChangeRef = useRef(onAudioContextStateChange);
+    onAudioContextStateChangeRef.current = onAudioContextStateChange;
+    const activeFrameUnsubscribeRef = useRef<(() => void) | null>(null);
+    const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+    const loudnessRef = useRef<Readonly<LoudnessReading> | null>(null);
+    const calibratorRef = useRef<BeatCalibrator | null>(null);
+    const calibrationRef = useRef<DetectionCalibration>(calibration);
+    // Settings read by callbacks, so a configuration change does not recreate them
+    const configRef = useRef<AnalysisConfig>(analysisConfig);
+    // Analysis props last pushed through configure(), null before the first render's effect
+    const appliedConfigPropsRef = useRef<AnalysisConfig | null>(null);
+
+    // Register beat callback (optionally filtered by percussion kind) and return cleanup function
+    const onBeat = useCallback((filterOrCallback: BeatFilter | BeatCallback, callback?: BeatCallback) => {
+        let subscription: BeatSubscription;
+        if (typeof filterOrCallback === 'function') {
+            subscription = { callback: filterOrCallback, kinds: null };
+        } else {
+            if (!callback) {
+                throw new Error('onBeat: a callback is required after the filter');
+            }
+            subscription = { callback, kinds: filterOrCallback.kinds ?? null };
+        }
+        beatCallbacksRef.current.add(subscription);
 
         // Return unsubscribe function
         return () => {
-            beatCallbacksRef.current.delete(callback);
+            beatCallbacksRef.current.delete(subscription);
+        };
+    }, []);
+
+    // Register predicted beat callback and return cleanup function
+    const onPredictedBeat = useCallback((callback: PredictedBeatCallback) => {
+        predictedBeatCallbacksRef.current.add(callback);
+
+        return () => {
+            predictedBeatCallbacksRef.current.delete(callback);
+        };
+    }, []);
+
+    // Register frame callback and return cleanup function
+    const onFrame = useCallback((callback: FrameCallback) => {
+        frameCallbacksRef.current.add(callback);
+
+        return () => {
+            frameCallbacksRef.current.delete(callback);
         };
     }, []);
 
-    // Stop analysis loop
-    const stopAnalysisLoop = useCallback(() => {
-        if (animationFrameIdRef.current !== null) {
-            cancelAnimationFrame(animationFrameIdRef.current);
-            animationFrameIdRef.current = null;
+    // Register section callback and return cleanup function
+    const onSection = useCallback((callback: SectionCallback) => {
+        sectionCallbacksRef.current.add(callback);
+
+        return () => {
+            sectionCallbacksRef.current.delete(callback);
+        };
+    }, []);
+
+    // Start recording frames and beats; a running recording is finished first
+    const recordSession = useCallback((metadata?: Record<string, unknown>): SessionRecordingHandle => {
+        sessionRecorderRef.current?.stop(performance.now());
+
+        const { fftSize, beatThreshold, beatDebounceMs } = configRef.current;
+        const recorder = new SessionRecorder(performance.now(), {
+            metadata: {
+                fftSize,
+                beatThreshold,
+                beatDebounceMs,
+                detectionStrategy,
+                ...metadata,
+            },
+        });
+        sessionRecorderRef.current = recorder;
+
+        return {
+            stop: () => {
+                if (sessionRecorderRef.current === recorder) {
+                    sessionRecorderRef.current = null;
+                }
+                return recorder.stop(performance.now());
+            },
+        };
+    }, [detectionStrategy]);
+
+    // Forward a frame from the active source to the session recording and frame subscribers
+    const dispatchFrame = useCallback((frame: Readonly<LiveAnalysisFrame>) => {
+        loudnessRef.current = frame.loudness;
+        sessionRecorderRef.current?.recordFrame(frame);
+
+        frameCallbacksRef.current.forEach(callback => {
+            try {
+                callback(frame);
+            } catch (err) {
+                console.error('AudioAnalysisContext: Error in frame callback', err);
+            }
+        });
+
+        const sectionEvent = sectionDetectorRef.current.observeFrame({
+            timestamp: frame.timestamp,
+            bandEnergies: frame.bandEnergies,
+            spectralCentroid: frame.spectralCentroid,
+            loudnessLufs: frame.loudness.shortTermLufs,
+        });
+        if (sectionEvent) {
+            setSection(sectionEvent.label);
+            sectionCallbacksRef.current.forEach(callback => {
+                try {
+                    callback(sectionEvent);
+                } catch (err) {
+                    console.error('AudioAnalysisContext: Error in section callback', err);
+                }
+            });
         }
     }, []);
 
-    // Analysis loop using requestAnimationFrame
-    const analysisLoop = useCallback(() => {
-        try {
-            const analyser = analyserRef.current;
-            const beatDetector = beatDetectorRef.current;
-            const frequencyData = frequencyDataRef.current;
-            const audioElement = audioElementRef.current;
+    // Read the latest loudness without subscribing to frames
+    const getLoudness = useCallback(() => loudnessRef.current, []);
+
+    // Publish tempo changes to React state, skipping insignificant updates
+    // so consumers do not re-render on every beat
+    const publishTempo = useCallback((estimate: TempoEstimate | null) => {
+        const published = publishedTempoRef.current;
+        if (estimate === published) {
+            return;
+        }
+        if (estimate && published &&
+            Math.abs(estimate.bpm - published.bpm) < 0.5 &&
+            Math.abs(estimate.confidence - published.confidence) < 0.05) {
+            return;
+        }
+
+        publishedTempoRef.current = estimate;
+        setTempoEstimate(estimate);
+    }, []);
 
-            // Check if we should continue analyzing
-            if (!analyser || !beatDetector || !frequencyData || !audioElement) {
+    // Handle a beat from the active source: update tempo and prediction, then notify subscribers
+    const dispatchBeat = useCallback((beatStrength: number, details: BeatDetails) => {
+        const source = activeSourceRef.current;
+        const timestamp = details.timestamp ?? performance.now();
+
+        const estimate = tempoTrackerRef.current.addOnset(timestamp, beatStrength);
+        publishTempo(estimate);
+
+        // Sources with exact beat times (metronome, beat maps) need no latency compensation
+        const beatPredictor = beatPredictorRef.current;
+        beatPredictor.setLatency(source?.getLatency?.() ?? 0);
+        beatPredictor.setTempo(estimate ? estimate.bpm : null, estimate ? estimate.confidence : 0);
+        beatPredictor.observeBeat(timestamp, beatStrength);
+
+        // Sources that count bars themselves (the metronome) take precedence over inference
+        const bar = details.bar ??
+            barTrackerRef.current.observeBeat(timestamp, beatStrength, details.kinds, estimate ? estimate.bpm : null);
+        setBeatsPerBar(bar.beatsPerBar);
+
+        const recorder = sessionRecorderRef.current;
+        if (beatCallbacksRef.current.size === 0 && !recorder) {
+            return;
+        }
+
+        const event: BeatEvent = {
+            strength: beatStrength,
+            kinds: details.kinds,
+            bands: details.bands,
+            timestamp,
+            source: source ? source.kind : 'live',
+            barIndex: bar.barIndex,
+            beatInBar: bar.beatInBar,
+            beatsPerBar: bar.beatsPerBar,
+            offbeat: bar.offbeat,
+        };
+        recorder?.recordBeat(event);
+
+        beatCallbacksRef.current.forEach(({ callback, kinds }) => {
+            if (kinds !== null && !kinds.some(kind => details.kinds.includes(kind))) {
                 return;
             }
+            try {
+                callback(beatStrength, event);
+            } catch (err) {
+                console.error('AudioAnalysisContext: Error in beat callback', err);
+            }
+        });
+    }, [publishTempo]);
 
-            // Only analyze if audio is playing
-            if (!audioElement.paused && !audioElement.ended) {
-                // Get frequency data from analyser (reuses existing TypedArray buffer)
-                analyser.getByteFrequencyData(frequencyData);
-
-                // Detect beat (cast to satisfy TypeScript - Web Audio API returns compatible type)
-                const timestamp = performance.now();
-                const beatStrength = beatDetector.detectBeat(frequencyData as unknown as Uint8Array, timestamp);
-
-                // If beat detected, notify all subscribers
-                if (beatStrength !== null && beatCallbacksRef.current.size > 0) {
-                    // Cache callbacks to avoid iterator allocation on every frame
-                    beatCallbacksRef.current.forEach(callback => {
-                        try {
-                            callback(beatStrength);
-                        } catch (err) {
-                            console.error('AudioAnalysisContext: Error in beat callback', err);
-                        }
-                    });
-                }
+    // Emit predicted beats that fall within the lookahead window
+    const predictionLoop = useCallback(() => {
+        if (predictedBeatCallbacksRef.current.size > 0) {
+            const predictedBeat = beatPredictorRef.current.poll(performance.now());
+            if (predictedBeat !== null) {
+                predictedBeatCallbacksRef.current.forEach(callback => {
+                    try {
+                        callback(predictedBeat);
+                    } catch (err) {
+                        console.error('AudioAnalysisContext: Error in predicted beat callback', err);
+                    }
+                });
             }
+        }
 
-            // Schedule next frame
-            animationFrameIdRef.current = requestAnimationFrame(analysisLoop);
-        } catch (err) {
-            // Catch any errors in the analysis loop to prevent crashes
-            console.error('AudioAnalysisContext: Error in analysis loop', err);
-            setError(err instanceof Error ? err.message : 'Analysis loop error');
-            // Stop the loop on error - use direct implementation to avoid circular dependency
-            if (animationFrameIdRef.current !== null) {
-                cancelAnimationFrame(animationFrameIdRef.current);
-                animationFrameIdRef.current = null;
+        predictionFrameIdRef.current = requestAnimationFrame(predictionLoop);
+    }, []);
+
+    // Stop prediction loop
+    const stopPredictionLoop = useCallback(() => {
+        if (predictionFrameIdRef.current !== null) {
+            cancelAnimationFrame(predictionFrameIdRef.current);
+            predictionFrameIdRef.current = null;
+        }
+    }, []);
+
+    // Replace the active beat source. The previous source is stopped; the new one is not started.
+    const switchActiveSource = useCallback((source: BeatSource | null) => {
+        const previous = activeSourceRef.current;
+        if (previous === source) {
+            return;
+        }
+
+        if (previous) {
+            activeSourceUnsubscribeRef.current?.();
+            activeSourceUnsubscribeRef.current = null;
+            activeFrameUnsubscribeRef.current?.();
+            activeFrameUnsubscribeRef.current = null;
+            loudnessRef.current = null;
+            // Registered inputs keep analyzing for their own subscribers
+            if (!registeredLiveSourcesRef.current.has(previous)) {
+                previous.stop();
+            }
+        }
+
+        // Tempo, beat grid and bars belong to the previous source
+        tempoTrackerRef.current.reset();
+        beatPredictorRef.current.reset();
+        barTrackerRef.current.reset();
+        sectionDetectorRef.current.reset();
+        publishTempo(null);
+        setBeatsPerBar(COMMON_TIME.beatsPerBar);
+        setSection(null);
+
+        activeSourceRef.current = source;
+        setActiveBeatSource(source);
+
+        if (source) {
+            activeSourceUnsubscribeRef.current = source.subscribe(dispatchBeat);
+            activeFrameUnsubscribeRef.current = source.addFrameListener?.(dispatchFrame) ?? null;
+            if (predictionFrameIdRef.current === null) {
+                predictionFrameIdRef.current = requestAnimationFrame(predictionLoop);
+            }
+        } else {
+            stopPredictionLoop();
+        }
+    }, [dispatchBeat, dispatchFrame, predictionLoop, stopPredictionLoop, publishTempo]);
+
+    // Make a source the active beat source and return a function that releases it
+    const activateBeatSource = useCallback((source: BeatSource | null) => {
+        switchActiveSource(source);
+
+        return () => {
+            // Only release the source if nothing else has replaced it in the meantime
+            if (source !== null && activeSourceRef.current === source) {
+                switchActiveSource(null);
             }
-            setIsAnalyzing(false);
+        };
+    }, [switchActiveSource]);
+
+    // Return to live analysis if the provider switched to a cached beat map
+    const restoreLiveSource = useCallback(() => {
+        const cachedSource = cachedBeatMapSourceRef.current;
+        cachedBeatMapSourceRef.current = null;
+        if (cachedSource && activeSourceRef.current === cachedSource && liveSourceRef.current) {
+            switchActiveSource(liveSourceRef.current);
+            liveSourceRef.current.start();
         }
+    }, [switchActiveSource]);
+
+    // Switch the live detector to calibrated settings, or back to the configured ones without a result
+    const applyCalibration = useCallback((status: CalibrationStatus, result: CalibrationResult | null) => {
+        const sensitivity = result
+            ? { thresholdMultiplier: result.thresholdMultiplier, debounceMs: result.debounceMs }
+            : { thresholdMultiplier: configRef.current.beatThreshold, debounceMs: configRef.current.beatDebounceMs };
+        liveSourceRef.current?.setSensitivity(sensitivity);
+        calibrationRef.current = { status, sensitivity, result };
+        setCalibration(calibrationRef.current);
     }, []);
 
-    // Start analysis loop when audio element is registered
-    const startAnalysisLoop = useCallback(() => {
-        // Stop any existing loop
-        if (animationFrameIdRef.current !== null) {
-            cancelAnimationFrame(animationFrameIdRef.current);
+    // Drop per-track state (beat map, recording, tempo, bars, sections, calibration) when the track changes
+    const resetTrackState = useCallback(() => {
+        trackUrlRef.current = null;
+        restoreLiveSource();
+        beatMapRecorderRef.current.reset();
+        liveSourceRef.current?.reset();
+        tempoTrackerRef.current.reset();
+        beatPredictorRef.current.reset();
+        barTrackerRef.current.reset();
+        sectionDetectorRef.current.reset();
+        setSection(null);
+        publishTempo(null);
+        calibratorRef.current = null;
+        applyCalibration('off', null);
+    }, [publishTempo, restoreLiveSource, applyCalibration]);
+
+    // Move beat detection of a chain to an AudioWorklet once its module has loaded.
+    // A newer request (or disposing the chain) discards the node of an older one.
+    const attachWorkletDetector = useCallback((chain: AnalysisChain) => {
+        const request = ++chain.workletRequest;
+        const { analyser, liveSource } = chain;
+        if (!preferAudioWorklet || !isAudioWorkletSupported(analyser.context)) {
+            return;
+        }
+
+        const { beatThreshold, beatDebounceMs } = configRef.current;
+        const hopSize = getWorkletHopSize(analyser.fftSize);
+        createBeatDetectorNode(analyser.context, {
+            fftSize: analyser.fftSize,
+            hopSize,
+            smoothingTimeConstant: analyser.smoothingTimeConstant,
+            minDecibels: analyser.minDecibels,
+            maxDecibels: analyser.maxDecibels,
+            historySize: 60,
+            thresholdMultiplier: beatThreshold,
+            debounceMs: beatDebounceMs,
+            strategy: detectionStrategy,
+            bands: frequencyBands,
+        })
+            .then((node) => {
+                // The input was unregistered or reconfigured while the module loaded
+                if (chain.workletRequest !== request) {
+                    return;
+                }
+                // An analyser passes its input through, so the worklet hears the same audio
+                analyser.connect(node);
+                liveSource.attachWorklet(node, hopSize);
+            })
+            .catch((err) => {
+                console.warn('AudioAnalysisContext: AudioWorklet unavailable, using AnalyserNode analysis', err);
+            });
+    }, [detectionStrategy, frequencyBands, preferAudioWorklet]);
+
+    // Create an analyser and live analysis source fed by `input`, and start analyzing
+    const createChain = useCallback((input: AudioNode, isActive: () => boolean): AnalysisChain => {
+        const analyser = input.context.createAnalyser();
+        analyser.fftSize = configRef.current.fftSize;
+        analyser.smoothingTimeConstant = configRef.current.smoothingTimeConstant;
+        input.connect(analyser);
+
+        // Live analysis source with its own BeatDetector instance
+        const liveSource = new LiveAnalysisSource({
+            analyser,
+            detector: new BeatDetector(
+                60, // historySize: 60 frames (1 second at 60fps)
+                configRef.current.beatThreshold,
+                configRef.current.beatDebounceMs,
+                { strategy: detectionStrategy, bands: frequencyBands, sampleRate: input.context.sampleRate }
+            ),
+            isActive,
+            onError: (err) => {
+                setError(createAudioError('analysis-crashed', 'analysis', err instanceof Error ? err.message : undefined, err));
+                setIsAnalyzing(false);
+            },
+        });
+
+        const chain: AnalysisChain = { input, analyser, liveSource, workletRequest: 0 };
+        registeredLiveSourcesRef.current.add(liveSource);
+        attachWorkletDetector(chain);
+        liveSource.start();
+        return chain;
+    }, [detectionStrategy, frequencyBands, attachWorkletDetector]);
+
+    // Stop a chain's analysis and disconnect it from its input
+    const disposeChain = useCallback((chain: AnalysisChain) => {
+        chain.workletRequest++;
+        registeredLiveSourcesRef.current.delete(chain.liveSource);
+        chain.liveSource.stop();
+        chain.liveSource.detachWorklet();
+        chain.input.disconnect(chain.analyser);
+        chain.analyser.disconnect();
+    }, []);
+
+    // Hash of the detector configuration for cache keys. Calibrations are keyed
+    // without the threshold and debounce, since those are what they choose.
+    const getConfigHash = useCallback((includeSensitivity: boolean) => {
+        const config = configRef.current;
+        return hashDetectorConfig(resolveAnalysisConfig({
+            fftSize: config.fftSize,
+            smoothingTimeConstant: config.smoothingTimeConstant,
+            historySize: 60,
+            thresholdMultiplier: includeSensitivity ? config.beatThreshold : undefined,
+            debounceMs: includeSensitivity ? config.beatDebounceMs : undefined,
+            strategy: detectionStrategy,
+            bands: frequencyBands,
+        }));
+    }, [detectionStrategy, frequencyBands]);
+
+    // Record the primary element's session for the beat map cache, and calibrate
+    // once the opening has been observed and the tempo is trustworthy
+    const observeTrackFrame = useCallback((element: HTMLAudioElement, frame: Readonly<LiveAnalysisFrame>) => {
+        const recorder = beatMapRecorderRef.current;
+        recorder.advance(element.currentTime);
+        if (frame.result !== null) {
+            recorder.recordBeat(element.currentTime, frame.result.strength, frame.result.bands);
+        }
+
+        const calibrator = calibratorRef.current;
+        if (!calibrator) {
+            return;
+        }
+        calibrator.observeFrame(frame.timestamp, frame.triggerMultiplier);
+        if (!calibrator.isReady()) {
+            return;
+        }
+
+        const estimate = tempoTrackerRef.current.getEstimate();
+        const result = estimate && estimate.confidence >= MIN_CALIBRATION_TEMPO_CONFIDENCE
+            ? calibrator.calibrate(estimate.bpm)
+            : null;
+        const url = trackUrlRef.current;
+        if (result) {
+            calibratorRef.current = null;
+            applyCalibration('calibrated', result);
+            if (url) {
+                calibrationStore?.put(url, getConfigHash(false), result);
+            }
+        } else if (calibrator.hasExpired()) {
+            calibratorRef.current = null;
+            applyCalibration('failed', null);
+        }
+    }, [calibrationStore, applyCalibration, getConfigHash]);
+
+    // Start per-track work for the primary element's current track: use its stored
+    // calibration or start calibrating, and replace live detection with a cached beat map
+    const loadTrack = useCallback((input: RegisteredInput) => {
+        const element = input.element;
+        const url = element ? element.currentSrc || element.src : '';
+        trackUrlRef.current = url || null;
+        if (!element || !url) {
+            return;
+        }
+
+        if (autoCalibrate) {
+            const stored = calibrationStore?.get(url, getConfigHash(false)) ?? null;
+            if (stored) {
+                applyCalibration('restored', stored);
+            } else {
+                calibratorRef.current = new BeatCalibrator();
+                applyCalibration('calibrating', null);
+            }
+        }
+
+        if (!beatMapCache) {
+            return;
+        }
+        beatMapCache.get(url, getConfigHash(true))
+            .then((beatMap) => {
+                // Ignore results for a track that is no longer playing, or when
+                // another component has taken over the active source
+                if (!beatMap || trackUrlRef.current !== url || primaryInputRef.current !== input ||
+                    activeSourceRef.current !== input.chain.liveSource) {
+                    return;
+                }
+                const beatMapSource = new BeatMapSource(beatMap, () => element.currentTime);
+                cachedBeatMapSourceRef.current = beatMapSource;
+                switchActiveSource(beatMapSource);
+                beatMapSource.start();
+                if (beatMap.tempo !== null) {
+                    publishTempo({ bpm: beatMap.tempo, confidence: beatMap.tempoConfidence });
+                }
+            })
+            .catch((err) => {
+                console.warn('AudioAnalysisContext: Beat map cache lookup failed', err);
+            });
+    }, [beatMapCache, autoCalibrate, calibrationStore, applyCalibration, getConfigHash, switchActiveSource, publishTempo]);
+
+    // Pick the live source behind onBeat: the mix of all inputs with mixed analysis,
+    // otherwise the most recently registered input. When it changes, per-track state
+    // starts over, and the new source becomes active if `activate` is set or the
+    // previous one was active.
+    const updateRouting = useCallback((activate: boolean) => {
+        const inputs = Array.from(inputsRef.current.values());
+
+        let mix = mixRef.current;
+        if (mixedAnalysisRef.current && inputs.length > 0) {
+            if (!mix) {
+                const gain = inputs[0].node.context.createGain();
+                const chain = createChain(gain, () => Array.from(inputsRef.current.values()).some(input => input.isActive()));
+                mix = { gain, chain, inputs: new Set() };
+                mixRef.current = mix;
+            }
+            const { gain, inputs: mixed } = mix;
+            inputs.filter(input => !mixed.has(input)).forEach(input => {
+                input.node.connect(gain);
+                mixed.add(input);
+            });
+        } else if (mix) {
+            const { gain } = mix;
+            mix.inputs.forEach(input => input.node.disconnect(gain));
+            disposeChain(mix.chain);
+            mixRef.current = null;
+            mix = null;
+        }
+
+        setAnalysisSources(inputs.map(({ id, kind, element, stream, chain }) => ({
+            id,
+            kind,
+            element,
+            stream,
+            source: chain.liveSource,
+        })));
+        setMixedAnalysisSource(mix ? mix.chain.liveSource : null);
+
+        const primaryInput = mix ? null : inputs[inputs.length - 1] ?? null;
+        const primary = mix ? mix.chain.liveSource : primaryInput ? primaryInput.chain.liveSource : null;
+        const previous = liveSourceRef.current;
+        if (primary === previous && primaryInput === primaryInputRef.current) {
+            return;
+        }
+
+        // Start tempo estimation, beat prediction and track state from scratch for the new source
+        const wasActive = activeSourceRef.current === previous || activeSourceRef.current === cachedBeatMapSourceRef.current;
+        primaryInputRef.current = primaryInput;
+        liveSourceRef.current = primary;
+        resetTrackState();
+        if (activate || wasActive) {
+            switchActiveSource(primary);
+        }
+        if (primaryInput && primaryInput.kind === 'element') {
+            loadTrack(primaryInput);
+        }
+    }, [createChain, disposeChain, resetTrackState, switchActiveSource, loadTrack]);
+
+    // Stop analyzing an input and remove it from the routing
+    const removeInput = useCallback((input: RegisteredInput) => {
+        if (!inputsRef.current.delete(input.id)) {
+            return;
+        }
+
+        input.removeListeners();
+        const mix = mixRef.current;
+        if (mix && mix.inputs.delete(input)) {
+            input.node.disconnect(mix.gain);
+        }
+        disposeChain(input.chain);
+        // Stream nodes only feed analysis; element nodes stay connected to the speakers
+        if (input.kind === 'stream') {
+            input.node.disconnect();
+        }
+
+        updateRouting(false);
+        setIsAnalyzing(inputsRef.current.size > 0);
+    }, [disposeChain, updateRouting]);
+
+    // Track the context's state, resuming it on the next user gesture whenever it is not running
+    const watchAudioContext = useCallback((context: AudioContext) => {
+        if (watchedContextRef.current?.context === context) {
+            return;
         }
+        watchedContextRef.current?.release();
 
-        // Start new loop
-        animationFrameIdRef.current = requestAnimationFrame(analysisLoop);
-    }, [analysisLoop]);
+        let previous = getAudioContextStatus(context);
+        let stopGestureResume: (() => void) | null = null;
+        const handleStateChange = () => {
+            const state = getAudioContextStatus(context);
+            setAudioContextState(state);
+
+            if (state === 'running' || state === 'closed') {
+                stopGestureResume?.();
+                stopGestureResume = null;
+            } else if (!stopGestureResume) {
+                console.warn(`AudioAnalysisContext: AudioContext is ${state}, resuming on the next user gesture`);
+                stopGestureResume = resumeOnUserGesture(context);
+            }
+
+            if (state !== previous) {
+                const before = previous;
+                previous = state;
+                onAudioContextStateChangeRef.current?.(state, before);
+            }
+        };
+
+        context.addEventListener('statechange', handleStateChange);
+        watchedContextRef.current = {
+            context,
+            release: () => {
+                context.removeEventListener('statechange', handleStateChange);
+                stopGestureResume?.();
+            },
+        };
+        handleStateChange();
+
+        // Registration often happens inside a click handler, where resuming is allowed right away
+        if (getAudioContextStatus(context) === 'suspended') {
+            context.resume().catch(() => {
+                // Not allowed without a gesture; the gesture listeners take over
+            });
+        }
+    }, []);
+
+    // Cross-origin media without CORS plays, but the analyser only hears silence
+    const reportCorsRestriction = useCallback(() => {
+        const restricted = createAudioError('cors-restricted', 'element');
+        console.warn('AudioAnalysisContext:', restricted.message);
+        setError(restricted);
+    }, []);
 
     // Register audio element for analysis
     const registerAudioElement = useCallback((element: HTMLAudioElement) => {
@@ -358,131 +1448,327 @@ export const AudioAnalysisProvider: React.FC<AudioAnalysisProviderProps> = ({
 
             // Check for Web Audio API support
             if (!isWebAudioSupported) {
-                const errorMessage = 'Web Audio API is not supported in this browser';
-                setError(errorMessage);
-                console.warn('AudioAnalysisContext:', errorMessage);
+                const unsupported = createAudioError('unsupported', 'element');
+                setError(unsupported);
+                console.warn('AudioAnalysisContext:', unsupported.message);
                 return; // Gracefully degrade - don't throw
             }
 
-            audioElementRef.current = element;
+            // Registering again (e.g. after a remount) keeps the running analysis
+            if (Array.from(inputsRef.current.values()).some(input => input.element === element)) {
+                return;
+            }
+
+            // The element's source node is created once and reused across registrations
+            const audioContext = getSharedAudioContext();
+            watchAudioContext(audioContext);
+            const source = getMediaElementSource(element, audioContext);
+            const isActive = () => !element.paused && !element.ended;
+            const input: RegisteredInput = {
+                id: `element-${++inputCountRef.current}`,
+                kind: 'element',
+                element,
+                stream: null,
+                node: source,
+                chain: createChain(source, isActive),
+                isActive,
+                removeListeners: () => {},
+            };
+
+            input.chain.liveSource.addFrameListener((frame) => {
+                if (primaryInputRef.current === input) {
+                    observeTrackFrame(element, frame);
+                }
+            });
 
-            // Add error event listener to audio element if it supports addEventListener
+            // Add error and track change listeners if the element supports addEventListener
             if (typeof element.addEventListener === 'function') {
                 const handleAudioError = (event: Event) => {
-                    const audioError = (event.target as HTMLAudioElement).error;
-                    const errorMessage = audioError
-                        ? `Audio playback error: ${audioError.message} (code: ${audioError.code})`
-                        : 'Unknown audio playback error';
-
-                    console.error('AudioAnalysisContext:', errorMessage);
-                    setError(errorMessage);
+                    const audioError = fromMediaError((event.target as HTMLAudioElement).error, 'element');
+                    if (audioError) {
+                        console.error('AudioAnalysisContext:', audioError.message);
+                        setError(audioError);
+                    }
                     // Continue with non-reactive starfield - don't stop the app
                 };
 
-                element.addEventListener('error', handleAudioError);
-                audioErrorHandlerRef.current = handleAudioError;
-            }
-
-            // Create AudioContext
-            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            const audioContext = new AudioContextClass();
-            audioContextRef.current = audioContext;
-
-            // Create AnalyserNode
-            const analyser = audioContext.createAnalyser();
-            analyser.fftSize = fftSize;
-            analyser.smoothingTimeConstant = smoothingTimeConstant;
-            analyserRef.current = analyser;
-
-            // Connect audio element to analyser
-            const source = audioContext.createMediaElementSource(element);
-            source.connect(analyser);
-            analyser.connect(audioContext.destination);
+                // A new src starts loading: forget the previous track and check the cache
+                const handleLoadStart = () => {
+                    if (isCorsRestricted(element)) {
+                        reportCorsRestriction();
+                    }
+                    if (primaryInputRef.current === input) {
+                        resetTrackState();
+                        loadTrack(input);
+                    }
+                };
 
-            // Create BeatDetector instance
-            beatDetectorRef.current = new BeatDetector(
-                60, // historySize: 60 frames (1 second at 60fps)
-                beatThreshold,
-                beatDebounceMs
-            );
+                // A complete live session becomes the cached beat map for the track. The recorder
+                // follows the primary input whatever the active source is, so this does not look at
+                // the active source, which consumers may already have released in their own 'ended'
+                // handlers; only tracks whose beat map came from the cache are skipped.
+                const handleEnded = () => {
+                    const url = trackUrlRef.current;
+                    if (!url || !beatMapCache || primaryInputRef.current !== input ||
+                        cachedBeatMapSourceRef.current !== null) {
+                        return;
+                    }
+                    const beatMap = beatMapRecorderRef.current.toBeatMap(
+                        element.duration,
+                        tempoTrackerRef.current.getEstimate()
+                    );
+                    if (beatMap) {
+                        beatMapCache.put(url, getConfigHash(true), beatMap).catch((err) => {
+                            console.warn('AudioAnalysisContext: Failed to cache recorded beat map', err);
+                        });
+                    }
+                };
 
-            // Create frequency data buffer with explicit ArrayBuffer type
-            const bufferLength = analyser.frequencyBinCount;
-            const buffer = new ArrayBuffer(bufferLength);
-            frequencyDataRef.current = new Uint8Array(buffer);
+                element.addEventListener('error', handleAudioError);
+                element.addEventListener('loadstart', handleLoadStart);
+                element.addEventListener('ended', handleEnded);
+                input.removeListeners = () => {
+                    element.removeEventListener('error', handleAudioError);
+                    element.removeEventListener('loadstart', handleLoadStart);
+                    element.removeEventListener('ended', handleEnded);
+                };
+            }
 
-            // Start analysis loop
-            startAnalysisLoop();
+            inputsRef.current.set(input.id, input);
+            updateRouting(true);
 
             setIsAnalyzing(true);
             setError(null);
+            if (isCorsRestricted(element)) {
+                reportCorsRestriction();
+            }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Failed to register audio element';
-            setError(errorMessage);
+            setError(toAudioError(err, 'element', 'Failed to register audio element'));
             console.error('AudioAnalysisContext: Failed to register audio element', err);
-            setIsAnalyzing(false);
         }
-    }, [fftSize, smoothingTimeConstant, beatThreshold, beatDebounceMs, startAnalysisLoop, isWebAudioSupported]);
+    }, [beatMapCache, isWebAudioSupported, resetTrackState, createChain, observeTrackFrame, loadTrack, updateRouting, getConfigHash, reportCorsRestriction, watchAudioContext]);
 
-    // Unregister audio element and cleanup
-    const unregisterAudioElement = useCallback(() => {
+    // Unregister one audio element, or all of them, and clean up their analysis
+    const unregisterAudioElement = useCallback((element?: HTMLAudioElement) => {
         try {
-            // Stop analysis loop
-            stopAnalysisLoop();
+            Array.from(inputsRef.current.values())
+                .filter(input => input.kind === 'element' && (element === undefined || input.element === element))
+                .forEach(removeInput);
+            setError(null);
+        } catch (err) {
+            console.error('AudioAnalysisContext: Failed to unregister audio element', err);
+        }
+    }, [removeInput]);
 
-            // Remove error event listener
-            if (audioElementRef.current && audioErrorHandlerRef.current) {
-                audioElementRef.current.removeEventListener('error', audioErrorHandlerRef.current);
-                audioErrorHandlerRef.current = null;
+    // Register a media stream (e.g. microphone input) for analysis
+    const registerMediaStream = useCallback((stream: MediaStream) => {
+        try {
+            // Validate stream
+            if (!stream || typeof stream.getAudioTracks !== 'function') {
+                throw new Error('Invalid media stream provided');
             }
 
-            // Disconnect analyser node
-            if (analyserRef.current) {
-                analyserRef.current.disconnect();
-                analyserRef.current = null;
+            const audioTracks = stream.getAudioTracks();
+            if (audioTracks.length === 0) {
+                throw new Error('Media stream has no audio tracks');
+            }
+            if (audioTracks.every(track => track.readyState === 'ended')) {
+                throw new Error('Media stream has already ended');
+            }
+
+            // Check for Web Audio API support
+            if (!isWebAudioSupported) {
+                const unsupported = createAudioError('unsupported', 'stream');
+                setError(unsupported);
+                console.warn('AudioAnalysisContext:', unsupported.message);
+                return; // Gracefully degrade - don't throw
             }
 
-            // Close AudioContext
-            if (audioContextRef.current) {
-                audioContextRef.current.close();
-                audioContextRef.current = null;
+            if (Array.from(inputsRef.current.values()).some(input => input.stream === stream)) {
+                return;
             }
 
-            // Clear references
-            audioElementRef.current = null;
-            beatDetectorRef.current = null;
-            frequencyDataRef.current = null;
+            // Connect stream to analysis only. Routing it to the destination would
+            // play the microphone through the speakers and cause feedback.
+            const audioContext = getSharedAudioContext();
+            watchAudioContext(audioContext);
+            const source = audioContext.createMediaStreamSource(stream);
+            const isLive = () => stream.getAudioTracks().some(track => track.readyState === 'live' && track.enabled);
+            const input: RegisteredInput = {
+                id: `stream-${++inputCountRef.current}`,
+                kind: 'stream',
+                element: null,
+                stream,
+                node: source,
+                chain: createChain(source, isLive),
+                isActive: isLive,
+                removeListeners: () => {},
+            };
+
+            // A track ends when its device is unplugged, permission is revoked or the stream is stopped
+            const handleTrackEnded = () => {
+                if (!inputsRef.current.has(input.id) || isLive()) {
+                    return;
+                }
+                const ended = createAudioError('input-ended', 'stream');
+                console.warn('AudioAnalysisContext:', ended.message);
+                removeInput(input);
+                setError(ended);
+            };
+            audioTracks.forEach(track => track.addEventListener('ended', handleTrackEnded));
+            input.removeListeners = () => {
+                audioTracks.forEach(track => track.removeEventListener('ended', handleTrackEnded));
+            };
 
-            // Clear all beat callbacks
-            beatCallbacksRef.current.clear();
+            inputsRef.current.set(input.id, input);
+            updateRouting(true);
 
-            // Reset state
-            setIsAnalyzing(false);
+            setIsAnalyzing(true);
             setError(null);
         } catch (err) {
-            console.error('AudioAnalysisContext: Failed to unregister audio element', err);
+            setError(toAudioError(err, 'stream', 'Failed to register media stream'));
+            console.error('AudioAnalysisContext: Failed to register media stream', err);
+        }
+    }, [isWebAudioSupported, createChain, removeInput, updateRouting, watchAudioContext]);
+
+    // Unregister one media stream, or all of them, and clean up their analysis.
+    // The streams' tracks are left running; stopping them is up to whoever called getUserMedia.
+    const unregisterMediaStream = useCallback((stream?: MediaStream) => {
+        try {
+            Array.from(inputsRef.current.values())
+                .filter(input => input.kind === 'stream' && (stream === undefined || input.stream === stream))
+                .forEach(removeInput);
+            setError(null);
+        } catch (err) {
+            console.error('AudioAnalysisContext: Failed to unregister media stream', err);
+        }
+    }, [removeInput]);
+
+    // Validate and apply settings to the running analysers and detectors
+    const configure = useCallback((changes: Partial<AnalysisConfig>): AnalysisConfigResult => {
+        const result = validateAnalysisConfig(changes, configRef.current);
+        if (!result.ok) {
+            return result;
+        }
+
+        const previous = configRef.current;
+        const next = result.config;
+        configRef.current = next;
+        setAnalysisConfig(next);
+
+        if (next.fftSize !== previous.fftSize || next.smoothingTimeConstant !== previous.smoothingTimeConstant) {
+            const chains = Array.from(inputsRef.current.values(), input => input.chain);
+            if (mixRef.current) {
+                chains.push(mixRef.current.chain);
+            }
+            chains.forEach(chain => {
+                chain.analyser.fftSize = next.fftSize;
+                chain.analyser.smoothingTimeConstant = next.smoothingTimeConstant;
+
+                // The worklet runs its own FFT with the settings it was created with
+                chain.analyser.disconnect();
+                chain.liveSource.detachWorklet();
+                attachWorkletDetector(chain);
+            });
+        }
+
+        if (next.beatThreshold !== previous.beatThreshold) {
+            // An explicit threshold overrides the calibration of the current track
+            calibratorRef.current = null;
+            applyCalibration('off', null);
+        } else if (next.beatDebounceMs !== previous.beatDebounceMs) {
+            // Used unless a calibrated debounce is in effect
+            applyCalibration(calibrationRef.current.status, calibrationRef.current.result);
         }
-    }, [stopAnalysisLoop]);
+
+        return result;
+    }, [attachWorkletDetector, applyCalibration]);
+
+    // Apply prop changes to the running session. Only props that changed are pushed,
+    // so settings made through configure() survive re-renders and other prop changes.
+    useEffect(() => {
+        const props: AnalysisConfig = { fftSize, smoothingTimeConstant, beatThreshold, beatDebounceMs };
+        const previous = appliedConfigPropsRef.current;
+        appliedConfigPropsRef.current = props;
+
+        const changes: Partial<AnalysisConfig> = {};
+        (Object.keys(props) as AnalysisConfigKey[]).forEach(key => {
+            if (!previous || props[key] !== previous[key]) {
+                changes[key] = props[key];
+            }
+        });
+        if (Object.keys(changes).length === 0) {
+            return;
+        }
+
+        const result = configure(changes);
+        if (result.ok === false) {
+            result.errors.forEach(error => console.warn('AudioAnalysisContext: Invalid analysis prop:', error.message));
+        }
+    }, [fftSize, smoothingTimeConstant, beatThreshold, beatDebounceMs, configure]);
 
     const contextValue: AudioAnalysisContextValue = {
         isAnalyzing,
         isWebAudioSupported,
+        audioContextState,
+        tempo: tempoEstimate ? tempoEstimate.bpm : null,
+        tempoConfidence: tempoEstimate ? tempoEstimate.confidence : 0,
+        beatsPerBar,
+        section,
+        calibration,
+        activeBeatSource,
+        activateBeatSource,
         onBeat,
+        onPredictedBeat,
+        onFrame,
+        onSection,
+        recordSession,
+        getLoudness,
         registerAudioElement,
         unregisterAudioElement,
+        registerMediaStream,
+        unregisterMediaStream,
+        analysisSources,
+        mixedAnalysisSource,
         error,
+        analysisConfig,
+        configure,
         config: {
             pulsationIntensity: clampedPulsationIntensity,
             selectionPercentage: clampedSelectionPercentage,
         },
     };
 
-    // Cleanup on unmount
+    // Switch between the mix and the most recent input when the prop changes
+    useEffect(() => {
+        updateRouting(false);
+    }, [mixedAnalysis, updateRouting]);
+
+    // Cleanup on unmount. The shared AudioContext stays open for the next provider.
     useEffect(() => {
+        const inputs = inputsRef.current;
         return () => {
-            stopAnalysisLoop();
+            stopPredictionLoop();
+            activeSourceRef.current?.stop();
+            // Take the mix apart first, while its inputs are still connected to it
+            const mix = mixRef.current;
+            if (mix) {
+                mix.inputs.forEach(input => input.node.disconnect(mix.gain));
+                disposeChain(mix.chain);
+                mixRef.current = null;
+            }
+            inputs.forEach(input => {
+                input.removeListeners();
+                disposeChain(input.chain);
+                if (input.kind === 'stream') {
+                    input.node.disconnect();
+                }
+            });
+            inputs.clear();
+            watchedContextRef.current?.release();
+            watchedContextRef.current = null;
         };
-    }, [stopAnalysisLoop]);
+    }, [stopPredictionLoop, disposeChain]);
 
     return (
         <AudioAnalysisContext.Provider value={contextValue}>
@@ -516,7 +1802,7 @@ export const AudioAnalysisProvider: React.FC<AudioAnalysisProviderProps> = ({
  *   }, [isAnalyzing, onBeat]);
  * 
  *   if (error) {
- *     return <div>Audio analysis error: {error}</div>;
+ *     return <div>Audio analysis error: {error.message}</div>;
  *   }
  * 
  *   return <div>Analyzing: {isAnalyzing}</div>;
@@ -0,0 +1,147 @@
+/**
+ * Analysis Config Module
+ * 
+ * Settings of the live analysis that can be changed while audio plays, with
+ * validation. Invalid settings are reported as typed errors rather than thrown,
+ * so callers such as settings panels can show each problem next to its field.
+ * 
+ * @module analysisConfig
+ */
+
+/**
+ * Live analysis settings.
+ */
+export interface AnalysisConfig {
+    /** FFT size of the analyser (power of two) */
+    fftSize: number;
+
+    /** Spectrum smoothing of the analyser (0-1) */
+    smoothingTimeConstant: number;
+
+    /** Beat detector threshold multiplier */
+    beatThreshold: number;
+
+    /** Minimum time between beats in milliseconds */
+    beatDebounceMs: number;
+}
+
+/**
+ * Name of an analysis setting.
+ */
+export type AnalysisConfigKey = keyof AnalysisConfig;
+
+/**
+ * Allowed ranges of the numeric settings (inclusive).
+ * The FFT size range is the one AnalyserNode accepts.
+ */
+export const ANALYSIS_CONFIG_LIMITS: Readonly<Record<AnalysisConfigKey, { min: number; max: number }>> = {
+    fftSize: { min: 32, max: 32768 },
+    smoothingTimeConstant: { min: 0, max: 1 },
+    beatThreshold: { min: 1, max: 10 },
+    beatDebounceMs: { min: 0, max: 2000 },
+};
+
+/**
+ * Kind of validation failure.
+ * 
+ * - 'unknown-option': the key is not an analysis setting
+ * - 'not-a-number': the value is not a finite number
+ * - 'out-of-range': the value is outside ANALYSIS_CONFIG_LIMITS
+ * - 'not-power-of-two': the FFT size is not a power of two
+ */
+export type AnalysisConfigErrorCode = 'unknown-option' | 'not-a-number' | 'out-of-range' | 'not-power-of-two';
+
+/**
+ * A rejected setting.
+ */
+export interface AnalysisConfigError {
+    /** Kind of failure */
+    code: AnalysisConfigErrorCode;
+
+    /** Setting that failed (any string for 'unknown-option') */
+    option: string;
+
+    /** Value that was passed */
+    value: unknown;
+
+    /** Human-readable description */
+    message: string;
+}
+
+/**
+ * Outcome of validating a configuration change: the complete new configuration,
+ * or every problem found. Nothing is applied unless all settings are valid.
+ */
+export type AnalysisConfigResult =
+    | { ok: true; config: AnalysisConfig }
+    | { ok: false; errors: AnalysisConfigError[] };
+
+const CONFIG_KEYS: readonly AnalysisConfigKey[] = ['fftSize', 'smoothingTimeConstant', 'beatThreshold', 'beatDebounceMs'];
+
+/**
+ * Checks one setting.
+ * 
+ * @private
+ */
+function validateOption(option: AnalysisConfigKey, value: unknown): AnalysisConfigError | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { code: 'not-a-number', option, value, message: `${option} must be a finite number` };
+    }
+
+    const { min, max } = ANALYSIS_CONFIG_LIMITS[option];
+    if (value < min || value > max) {
+        return { code: 'out-of-range', option, value, message: `${option} must be between ${min} and ${max}, got ${value}` };
+    }
+
+    if (option === 'fftSize' && (!Number.isInteger(value) || (value & (value - 1)) !== 0)) {
+        return { code: 'not-power-of-two', option, value, message: `fftSize must be a power of two, got ${value}` };
+    }
+
+    return null;
+}
+
+/**
+ * Validates a partial configuration and merges it into the current one.
+ * 
+ * Undefined values leave a setting unchanged.
+ * 
+ * @param changes - Settings to change
+ * @param current - Configuration the changes apply to
+ * @returns The merged configuration, or the validation errors
+ * 
+ * @example
+ * ```typescript
+ * const result = validateAnalysisConfig({ fftSize: 1000 }, current);
+ * if (result.ok === false) {
+ *   result.errors.forEach(error => console.warn(error.code, error.message));
+ *   // not-power-of-two fftSize must be a power of two, got 1000
+ * }
+ * ```
+ */
+export function validateAnalysisConfig(
+    changes: Partial<AnalysisConfig>,
+    current: Readonly<AnalysisConfig>
+): AnalysisConfigResult {
+    const errors: AnalysisConfigError[] = [];
+    const config: AnalysisConfig = { ...current };
+
+    Object.entries(changes).forEach(([option, value]) => {
+        if (value === undefined) {
+            return;
+        }
+        if (!(CONFIG_KEYS as readonly string[]).includes(option)) {
+            errors.push({ code: 'unknown-option', option, value, message: `Unknown analysis option: ${option}` });
+            return;
+        }
+
+        const key = option as AnalysisConfigKey;
+        const error = validateOption(key, value);
+        if (error) {
+            errors.push(error);
+        } else {
+            config[key] = value;
+        }
+    });
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, config };
+}
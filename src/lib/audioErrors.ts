@@ -0,0 +1,272 @@
+/**
+ * Audio Errors Module
+ * 
+ * Typed errors for audio playback and analysis. Every error carries a code
+ * telling what went wrong, the part of the audio pipeline it came from and a
+ * suggested recovery, so the UI can react per kind of failure instead of
+ * showing one generic message.
+ * 
+ * @module audioErrors
+ */
+
+/**
+ * Part of the audio pipeline an error came from.
+ * 
+ * - 'element': a registered audio element, or loading its media
+ * - 'stream': a registered media stream such as microphone input
+ * - 'analysis': the live analysis loop
+ * - 'playback': starting or resuming playback
+ */
+export type AudioErrorSource = 'element' | 'stream' | 'analysis' | 'playback';
+
+/**
+ * What the UI should do about an error.
+ * 
+ * - 'retry': try the same action again
+ * - 'skip': move on to other media; this one cannot be played
+ * - 'use-metronome': beats cannot be analyzed, fall back to the metronome
+ * - 'user-gesture': wait for a click or key press, then try again
+ * - 'none': nothing the user can do
+ */
+export type AudioRecovery = 'retry' | 'skip' | 'use-metronome' | 'user-gesture' | 'none';
+
+// Fields shared by every error; each code fixes its recovery
+interface AudioErrorOf<C extends string, R extends AudioRecovery> {
+    /** Kind of failure */
+    code: C;
+
+    /** Part of the pipeline the error came from */
+    source: AudioErrorSource;
+
+    /** Suggested recovery */
+    recovery: R;
+
+    /** Human-readable description */
+    message: string;
+
+    /** Underlying exception or event, if any */
+    cause?: unknown;
+}
+
+/**
+ * An audio playback or analysis error.
+ * 
+ * - 'unsupported': the browser lacks the Web Audio API
+ * - 'cors-restricted': the media is cross-origin without CORS, so the analyser only hears silence
+ * - 'autoplay-blocked': the browser refused to play without a user gesture
+ * - 'network': the media could not be downloaded
+ * - 'decode-failed': the media format is unsupported or the file is corrupt
+ * - 'analysis-crashed': the live analysis loop threw and stopped
+ * - 'input-ended': a stream's audio tracks ended (device unplugged, permission revoked)
+ * - 'no-media': there is nothing to play
+ * - 'unknown': anything else
+ * 
+ * @example
+ * ```typescript
+ * const { error } = useAudioAnalysis();
+ * if (error?.recovery === 'user-gesture') {
+ *   showTapToPlay();
+ * }
+ * ```
+ */
+export type AudioError =
+    | AudioErrorOf<'unsupported', 'use-metronome'>
+    | AudioErrorOf<'cors-restricted', 'use-metronome'>
+    | AudioErrorOf<'autoplay-blocked', 'user-gesture'>
+    | AudioErrorOf<'network', 'retry'>
+    | AudioErrorOf<'decode-failed', 'skip'>
+    | AudioErrorOf<'analysis-crashed', 'retry'>
+    | AudioErrorOf<'input-ended', 'retry'>
+    | AudioErrorOf<'no-media', 'none'>
+    | AudioErrorOf<'unknown', 'retry'>;
+
+/**
+ * Code of an audio error.
+ */
+export type AudioErrorCode = AudioError['code'];
+
+/**
+ * The error type of one code.
+ */
+export type AudioErrorWithCode<C extends AudioErrorCode> = Extract<AudioError, { code: C }>;
+
+const DEFAULTS: { [C in AudioErrorCode]: { recovery: AudioErrorWithCode<C>['recovery']; message: string } } = {
+    'unsupported': { recovery: 'use-metronome', message: 'Web Audio API is not supported in this browser' },
+    'cors-restricted': { recovery: 'use-metronome', message: 'The audio is served from another origin without CORS, so it cannot be analyzed' },
+    'autoplay-blocked': { recovery: 'user-gesture', message: 'The browser blocked playback until the page is clicked' },
+    'network': { recovery: 'retry', message: 'The audio could not be downloaded' },
+    'decode-failed': { recovery: 'skip', message: 'The audio format is not supported or the file is corrupt' },
+    'analysis-crashed': { recovery: 'retry', message: 'Audio analysis stopped unexpectedly' },
+    'input-ended': { recovery: 'retry', message: 'Audio input ended: the input device was disconnected or the stream was stopped' },
+    'no-media': { recovery: 'none', message: 'No audio available' },
+    'unknown': { recovery: 'retry', message: 'Unknown audio error' },
+};
+
+// MediaError codes, spelled out since not every environment defines the MediaError global
+const MEDIA_ERR_ABORTED = 1;
+const MEDIA_ERR_NETWORK = 2;
+const MEDIA_ERR_DECODE = 3;
+const MEDIA_ERR_SRC_NOT_SUPPORTED = 4;
+
+/**
+ * Creates an audio error with its code's recovery.
+ * 
+ * @param code - Kind of failure
+ * @param source - Part of the pipeline the error came from
+ * @param message - Description; defaults to a generic one for the code
+ * @param cause - Underlying exception or event
+ * @returns The error
+ * 
+ * @example
+ * ```typescript
+ * setError(createAudioError('input-ended', 'stream'));
+ * ```
+ */
+export function createAudioError<C extends AudioErrorCode>(
+    code: C,
+    source: AudioErrorSource,
+    message?: string,
+    cause?: unknown
+): AudioErrorWithCode<C> {
+    const defaults = DEFAULTS[code];
+    return {
+        code,
+        source,
+        recovery: defaults.recovery,
+        message: message ?? defaults.message,
+        cause,
+    } as AudioErrorWithCode<C>;
+}
+
+/**
+ * Classifies the error of a failed media element.
+ * 
+ * @param mediaError - The element's `error` property
+ * @param source - Part of the pipeline the element belongs to
+ * @returns The error, or null if the load was merely aborted (e.g. by a new src)
+ * 
+ * @example
+ * ```typescript
+ * audio.addEventListener('error', () => {
+ *   const error = fromMediaError(audio.error, 'element');
+ *   if (error) setError(error);
+ * });
+ * ```
+ */
+export function fromMediaError(mediaError: MediaError | null, source: AudioErrorSource): AudioError | null {
+    if (!mediaError) {
+        return createAudioError('unknown', source, 'Unknown audio playback error');
+    }
+
+    const detail = mediaError.message ? `: ${mediaError.message}` : '';
+    switch (mediaError.code) {
+        case MEDIA_ERR_ABORTED:
+            return null;
+        case MEDIA_ERR_NETWORK:
+            return createAudioError('network', source, `Audio download failed${detail}`, mediaError);
+        case MEDIA_ERR_DECODE:
+        case MEDIA_ERR_SRC_NOT_SUPPORTED:
+            return createAudioError('decode-failed', source, `Audio could not be decoded${detail}`, mediaError);
+        default:
+            return createAudioError('unknown', source, `Audio playback error${detail} (code: ${mediaError.code})`, mediaError);
+    }
+}
+
+/**
+ * Classifies an exception thrown by audio APIs, such as the rejection of
+ * `HTMLMediaElement.play()`, by its DOMException name.
+ * 
+ * @param err - The exception
+ * @param source - Part of the pipeline that threw
+ * @param fallbackMessage - Message for exceptions without one
+ * @returns The error; exceptions that already are audio errors are returned as they are
+ * 
+ * @example
+ * ```typescript
+ * audio.play().catch((err) => setError(toAudioError(err, 'playback')));
+ * ```
+ */
+export function toAudioError(err: unknown, source: AudioErrorSource, fallbackMessage?: string): AudioError {
+    if (isAudioError(err)) {
+        return err;
+    }
+
+    const name = err instanceof Error ? err.name : '';
+    const message = err instanceof Error && err.message ? err.message : fallbackMessage;
+    switch (name) {
+        case 'NotAllowedError':
+            return createAudioError('autoplay-blocked', source, undefined, err);
+        case 'NotSupportedError':
+        case 'EncodingError':
+            return createAudioError('decode-failed', source, message, err);
+        case 'NetworkError':
+            return createAudioError('network', source, message, err);
+        case 'SecurityError':
+            return createAudioError('cors-restricted', source, undefined, err);
+        default:
+            return createAudioError('unknown', source, message, err);
+    }
+}
+
+/**
+ * Checks whether a value is an audio error.
+ * 
+ * @param value - Value to check
+ * @returns True if the value has a known code, a source, a recovery and a message
+ */
+export function isAudioError(value: unknown): value is AudioError {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const error = value as AudioError;
+    return typeof error.code === 'string' && error.code in DEFAULTS &&
+        typeof error.source === 'string' &&
+        typeof error.recovery === 'string' &&
+        typeof error.message === 'string';
+}
+
+// Whether a media element's source is on another origin than the page
+function hasCrossOriginSource(element: HTMLMediaElement): boolean {
+    const src = element.currentSrc || element.src;
+    if (!src) {
+        return false;
+    }
+
+    try {
+        const url = new URL(src, window.location.href);
+        // blob: and data: URLs belong to the page
+        if (url.protocol === 'blob:' || url.protocol === 'data:') {
+            return false;
+        }
+        return url.origin !== window.location.origin;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether a media element's audio is hidden from Web Audio analysis.
+ * 
+ * A cross-origin element loaded without a crossorigin attribute still plays,
+ * but a MediaElementAudioSourceNode only outputs silence for it.
+ * 
+ * @param element - Element to check, after its source is set
+ * @returns True if analysis of the element would only hear silence
+ */
+export function isCorsRestricted(element: HTMLMediaElement): boolean {
+    return !element.crossOrigin && hasCrossOriginSource(element);
+}
+
+/**
+ * Checks whether a media element loads cross-origin media with a CORS request.
+ * 
+ * Such a load fails like an unsupported source when the server does not allow
+ * the page's origin; loading again without the crossorigin attribute plays it,
+ * but hides it from analysis (see isCorsRestricted).
+ * 
+ * @param element - Element to check, after its source is set
+ * @returns True if the element's load depends on the server's CORS headers
+ */
+export function isCorsRequest(element: HTMLMediaElement): boolean {
+    return Boolean(element.crossOrigin) && hasCrossOriginSource(element);
+}
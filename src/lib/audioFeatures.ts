@@ -0,0 +1,102 @@
+/**
+ * Audio Features Module
+ * 
+ * Continuous per-frame features computed from AnalyserNode data: band
+ * energies, RMS level and spectral centroid. Unlike beat detection, these
+ * values change smoothly every frame, which makes them suitable for driving
+ * continuous animations. All functions work on caller-owned buffers and do
+ * not allocate.
+ * 
+ * @module audioFeatures
+ */
+
+import { BandBins } from './beatDetection';
+
+/**
+ * Calculates the average energy of a band of frequency bins.
+ * 
+ * @param frequencyData - Frequency data from AnalyserNode (values 0-255)
+ * @param bins - Bins of the band to average (see getBandBins)
+ * @returns Normalized band energy (0-1)
+ * 
+ * @example
+ * ```typescript
+ * const subBins = getBandBins(DEFAULT_FREQUENCY_BANDS[0], audioContext.sampleRate, frequencyData.length);
+ * const subEnergy = calculateBandEnergy(frequencyData, subBins);
+ * ```
+ */
+export function calculateBandEnergy(frequencyData: ArrayLike<number>, bins: BandBins): number {
+    const start = Math.max(0, bins.startBin);
+    const end = Math.min(bins.endBin, frequencyData.length);
+
+    if (end <= start) {
+        return 0;
+    }
+
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+        sum += frequencyData[i];
+    }
+
+    return sum / ((end - start) * 255);
+}
+
+/**
+ * Calculates the root mean square level of a time-domain frame.
+ * 
+ * @param timeDomainData - Byte time-domain data from AnalyserNode.getByteTimeDomainData (128 = silence)
+ * @returns RMS level (0-1), where 1 is a full-scale square wave
+ * 
+ * @example
+ * ```typescript
+ * analyser.getByteTimeDomainData(timeDomainData);
+ * const level = calculateRms(timeDomainData);
+ * ```
+ */
+export function calculateRms(timeDomainData: ArrayLike<number>): number {
+    const len = timeDomainData.length;
+    if (len === 0) {
+        return 0;
+    }
+
+    let sumSquares = 0;
+    for (let i = 0; i < len; i++) {
+        const sample = (timeDomainData[i] - 128) / 128;
+        sumSquares += sample * sample;
+    }
+
+    return Math.min(1, Math.sqrt(sumSquares / len));
+}
+
+/**
+ * Calculates the spectral centroid (the magnitude-weighted mean frequency).
+ * 
+ * Low values indicate a dark, bass-heavy sound; high values a bright one.
+ * 
+ * @param frequencyData - Frequency data from AnalyserNode (values 0-255)
+ * @param sampleRate - Sample rate of the AudioContext in Hz
+ * @returns Centroid frequency in Hz, 0 for silence
+ * 
+ * @example
+ * ```typescript
+ * const centroid = calculateSpectralCentroid(frequencyData, audioContext.sampleRate);
+ * ```
+ */
+export function calculateSpectralCentroid(frequencyData: ArrayLike<number>, sampleRate: number): number {
+    const len = frequencyData.length;
+    if (len === 0) {
+        return 0;
+    }
+
+    // frequencyBinCount is half the FFT size, so each bin spans sampleRate / (2 * len) Hz
+    const binHz = sampleRate / (2 * len);
+
+    let weightedSum = 0;
+    let magnitudeSum = 0;
+    for (let i = 0; i < len; i++) {
+        weightedSum += i * frequencyData[i];
+        magnitudeSum += frequencyData[i];
+    }
+
+    return magnitudeSum > 0 ? (weightedSum / magnitudeSum) * binHz : 0;
+}
@@ -0,0 +1,139 @@
+/**
+ * Audio Graph Module
+ * 
+ * The AudioContext shared by all live analysis, and the source node of each
+ * media element. A media element can only ever be connected to one
+ * MediaElementAudioSourceNode, so the node is created once per element and
+ * reused whenever the element is registered again (e.g. after a remount).
+ * 
+ * @module audioGraph
+ */
+
+let sharedContext: AudioContext | null = null;
+
+// Source node of each media element, created at most once per element
+const elementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+/**
+ * Gets the shared AudioContext, creating it on first use.
+ * 
+ * The context is never closed by the analysis layer: element source nodes
+ * belong to it, and their elements would go silent with it.
+ * 
+ * @returns The shared context
+ * @throws Error if the Web Audio API is unavailable
+ */
+export function getSharedAudioContext(): AudioContext {
+    if (!sharedContext || sharedContext.state === 'closed') {
+        // Fall back to the prefixed constructor in older Safari
+        const AudioContextClass = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+        if (typeof AudioContextClass === 'undefined') {
+            throw new Error('Web Audio API is not supported in this browser');
+        }
+        sharedContext = new AudioContextClass();
+    }
+    return sharedContext;
+}
+
+/**
+ * Gets the source node of a media element, creating it on first use.
+ * 
+ * A new node is routed straight to the context's destination, so the element
+ * stays audible whether or not anything analyzes it. Analysers connect to the
+ * node as extra outputs and must be disconnected individually
+ * (`node.disconnect(analyser)`), never with a bare `disconnect()`.
+ * 
+ * @param element - Media element to get the node for
+ * @param context - Context the node must belong to
+ * @returns The element's source node
+ * @throws Error if the element is already connected to a different context
+ * 
+ * @example
+ * ```typescript
+ * const context = getSharedAudioContext();
+ * const source = getMediaElementSource(audio, context);
+ * source.connect(analyser);
+ * // later
+ * source.disconnect(analyser);
+ * ```
+ */
+export function getMediaElementSource(element: HTMLMediaElement, context: AudioContext): MediaElementAudioSourceNode {
+    const cached = elementSources.get(element);
+    if (cached) {
+        if (cached.context !== context) {
+            throw new Error('Audio element is already connected to another AudioContext');
+        }
+        return cached;
+    }
+
+    const source = context.createMediaElementSource(element);
+    source.connect(context.destination);
+    elementSources.set(element, source);
+    return source;
+}
+
+/**
+ * State of an AudioContext, including Safari's non-standard 'interrupted'
+ * state (e.g. during a phone call on iOS).
+ */
+export type AudioContextStatus = AudioContextState | 'interrupted';
+
+/**
+ * Gets the state of a context.
+ * 
+ * @param context - Context to check
+ * @returns The context's state, which may be 'interrupted' in Safari
+ */
+export function getAudioContextStatus(context: BaseAudioContext): AudioContextStatus {
+    return context.state as AudioContextStatus;
+}
+
+// Events that count as user activation for the autoplay policy. touchend unlocks audio on iOS.
+const GESTURE_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+/**
+ * Resumes a context on the next user gesture.
+ * 
+ * Browsers keep a context created without a user gesture suspended, and
+ * Safari suspends or interrupts it when another app takes the audio session.
+ * Listeners stay attached until the context runs, since a resume attempted
+ * during an interruption fails.
+ * 
+ * @param context - Context to resume
+ * @param target - Where to listen for gestures
+ * @returns Cleanup function that removes the gesture listeners
+ * 
+ * @example
+ * ```typescript
+ * const context = getSharedAudioContext();
+ * if (context.state !== 'running') {
+ *   const stop = resumeOnUserGesture(context);
+ *   // call stop() when the context is no longer needed
+ * }
+ * ```
+ */
+export function resumeOnUserGesture(context: AudioContext, target: EventTarget = window): () => void {
+    const stop = () => {
+        GESTURE_EVENTS.forEach(type => target.removeEventListener(type, resume, true));
+    };
+
+    function resume() {
+        if (context.state === 'running' || context.state === 'closed') {
+            stop();
+            return;
+        }
+        context.resume()
+            .then(() => {
+                if (context.state === 'running') {
+                    stop();
+                }
+            })
+            .catch((err) => {
+                console.warn('audioGraph: Failed to resume AudioContext', err);
+            });
+    }
+
+    // Capture phase, so gestures handled with stopPropagation() still count
+    GESTURE_EVENTS.forEach(type => target.addEventListener(type, resume, true));
+    return stop;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BarPosition, BarTracker, WALTZ_TIME } from './barTracking';
+import { getGroundTruth, SyntheticSignalOptions } from './syntheticSignals';
+
+interface TrackedBeat extends BarPosition {
+    time: number;
+    kick: boolean;
+}
+
+// Beats of the grid, with a kick where the signal has one and a hi-hat on the other beats
+function getBeats(options: SyntheticSignalOptions): { time: number; kick: boolean }[] {
+    const { beats, onsets } = getGroundTruth(options);
+    return beats.map(time => ({ time, kick: onsets.includes(time) }));
+}
+
+function track(beats: { time: number; kick: boolean }[], bpm: number, tracker = new BarTracker()): TrackedBeat[] {
+    return beats.map(({ time, kick }) => ({
+        time,
+        kick,
+        ...tracker.observeBeat(time, kick ? 0.9 : 0.4, kick ? ['kick'] : ['hihat'], bpm),
+    }));
+}
+
+// Positions once the tracker has heard a few bars
+const settled = (beats: TrackedBeat[], afterMs: number) => beats.filter(beat => beat.time >= afterMs);
+
+describe('BarTracker', () => {
+    it('keeps 4/4 and puts the downbeat on the kick of a four-beat pattern', () => {
+        const tracker = new BarTracker();
+        const beats = track(getBeats({ durationMs: 16000, bpm: 120, pattern: [0] }), 120, tracker);
+
+        expect(tracker.getMeter().beatsPerBar).toBe(4);
+        expect(tracker.getMeter().confidence).toBeGreaterThan(0.5);
+        settled(beats, 4000).forEach(beat => {
+            expect(beat.beatsPerBar).toBe(4);
+            expect(beat.beatInBar === 1).toBe(beat.kick);
+        });
+    });
+
+    it('switches to 3/4 when the accents repeat every three beats', () => {
+        const tracker = new BarTracker();
+        const beats = track(getBeats({ durationMs: 16000, bpm: 120, timeSignature: WALTZ_TIME, pattern: [0] }), 120, tracker);
+
+        expect(tracker.getMeter().beatsPerBar).toBe(3);
+        settled(beats, 8000).forEach(beat => {
+            expect(beat.beatsPerBar).toBe(3);
+            expect(beat.beatInBar === 1).toBe(beat.kick);
+        });
+    });
+
+    it('stays in 4/4 without an accent pattern', () => {
+        const tracker = new BarTracker();
+        track(getBeats({ durationMs: 16000, bpm: 120 }), 120, tracker);
+        expect(tracker.getMeter().beatsPerBar).toBe(4);
+    });
+
+    it('finds the downbeat after a pickup', () => {
+        // The music starts on beat 3 of the first bar
+        const beats = track(getBeats({ durationMs: 16000, bpm: 120, pattern: [0] }).slice(2), 120);
+
+        const later = settled(beats, 4000);
+        later.forEach(beat => expect(beat.beatInBar === 1).toBe(beat.kick));
+        // Bars advance on the downbeats
+        for (let i = 1; i < later.length; i++) {
+            expect(later[i].barIndex - later[i - 1].barIndex).toBe(later[i].kick ? 1 : 0);
+        }
+    });
+
+    it('keeps counting through missed beats', () => {
+        // Drop every fifth beat that is not a downbeat
+        const beats = getBeats({ durationMs: 20000, bpm: 100, pattern: [0] })
+            .filter((beat, i) => beat.kick || i % 5 !== 0);
+        const tracked = track(beats, 100);
+
+        settled(tracked, 6000).forEach(beat => expect(beat.beatInBar === 1).toBe(beat.kick));
+    });
+
+    it('marks beats between grid beats as off-beats', () => {
+        const grid = getBeats({ durationMs: 8000, bpm: 120, pattern: [0] });
+        const withOffbeats = grid.flatMap(beat => [beat, { time: beat.time + 250, kick: false }]);
+        const tracked = track(withOffbeats, 120);
+
+        tracked.forEach((beat, i) => {
+            expect(beat.offbeat).toBe(i % 2 === 1);
+            if (beat.offbeat) {
+                // Off-beats carry the position of the beat before them
+                expect(beat.beatInBar).toBe(tracked[i - 1].beatInBar);
+                expect(beat.barIndex).toBe(tracked[i - 1].barIndex);
+            }
+        });
+    });
+
+    it('returns to 4/4 after reset', () => {
+        const tracker = new BarTracker();
+        track(getBeats({ durationMs: 16000, bpm: 120, timeSignature: WALTZ_TIME, pattern: [0] }), 120, tracker);
+        tracker.reset();
+        expect(tracker.getMeter()).toEqual({ beatsPerBar: 4, confidence: 0 });
+    });
+});
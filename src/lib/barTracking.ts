@@ -0,0 +1,314 @@
+/**
+ * Bar Tracking Module
+ * 
+ * Places beats within bars: counts beats on the tempo grid, infers the meter
+ * (4/4 by default, 3/4 when the accents clearly repeat every three beats) and
+ * where the downbeat falls, so visuals can emphasize beat 1 of each bar.
+ * 
+ * @module barTracking
+ */
+
+import { PercussionKind } from './percussion';
+
+/**
+ * Time signature of a bar.
+ */
+export interface TimeSignature {
+    /** Beats per bar (the numerator, e.g. 3 in 3/4) */
+    beatsPerBar: number;
+
+    /** Note value of one beat (the denominator, e.g. 4 in 3/4) */
+    beatUnit: number;
+}
+
+/**
+ * 4/4, the default meter.
+ */
+export const COMMON_TIME: Readonly<TimeSignature> = { beatsPerBar: 4, beatUnit: 4 };
+
+/**
+ * 3/4.
+ */
+export const WALTZ_TIME: Readonly<TimeSignature> = { beatsPerBar: 3, beatUnit: 4 };
+
+/**
+ * Position of a beat within the bar structure.
+ */
+export interface BarPosition {
+    /**
+     * Index of the bar since tracking started. Bar 0 holds the first beat,
+     * which may be a pickup before the first downbeat.
+     */
+    barIndex: number;
+
+    /** Position of the beat in its bar (1-based, 1 is the downbeat) */
+    beatInBar: number;
+
+    /** Beats per bar of the current meter */
+    beatsPerBar: number;
+
+    /**
+     * Whether the beat falls between grid beats (e.g. an off-beat hi-hat).
+     * Off-beats carry the position of the preceding grid beat.
+     */
+    offbeat: boolean;
+}
+
+/**
+ * Meter inferred by a BarTracker.
+ */
+export interface MeterEstimate {
+    /** Beats per bar (3 or 4) */
+    beatsPerBar: number;
+
+    /** Confidence in the meter and downbeat (0-1) */
+    confidence: number;
+}
+
+/**
+ * Options for BarTracker.
+ */
+export interface BarTrackerOptions {
+    /**
+     * Fixed beats per bar. When set, only the downbeat is inferred, not the meter.
+     */
+    beatsPerBar?: number;
+
+    /**
+     * Grid beats observed before the meter may change from 4/4.
+     * 
+     * @default 12
+     */
+    minBeatsForMeter?: number;
+
+    /**
+     * How much stronger the 3/4 accent pattern must be than the 4/4 one to switch meter.
+     * 
+     * @default 1.25
+     */
+    meterSwitchRatio?: number;
+}
+
+// Candidate meters, the default first
+const CANDIDATE_METERS = [4, 3];
+
+// Weight of each new accent in the per-position averages
+const ACCENT_SMOOTHING = 0.15;
+
+// Contrast a meter's accent pattern needs before the tracker switches to it. Evenly
+// accented beats still show a little contrast while the averages warm up.
+const MIN_SWITCH_CONTRAST = 0.1;
+
+// A beat further than this fraction of a period from the grid is an off-beat
+const OFFBEAT_TOLERANCE = 0.3;
+
+// Gaps longer than this many beats restart the count instead of extrapolating the grid
+const MAX_GAP_BEATS = 16;
+
+/**
+ * Accent of a beat for downbeat inference. Kicks mark downbeats more often
+ * than snares and hi-hats.
+ * 
+ * @private
+ */
+function getAccent(strength: number, kinds: readonly PercussionKind[]): number {
+    const weight = kinds.includes('kick') ? 1 : kinds.includes('snare') ? 0.5 : 0.25;
+    return (0.25 + strength) * weight;
+}
+
+/**
+ * BarTracker class for assigning bar positions to beats.
+ * 
+ * Beats are counted on the grid given by the tempo, so missed beats do not
+ * shift the downbeat. For each candidate meter, the tracker keeps an average
+ * accent per position in the bar; the meter and downbeat are the ones whose
+ * accents stand out most.
+ * 
+ * @example
+ * ```typescript
+ * const tracker = new BarTracker();
+ * const position = tracker.observeBeat(performance.now(), 0.8, ['kick'], 120);
+ * if (position.beatInBar === 1 && !position.offbeat) {
+ *   bloom();
+ * }
+ * ```
+ */
+export class BarTracker {
+    private readonly fixedBeatsPerBar: number | null;
+    private readonly minBeatsForMeter: number;
+    private readonly meterSwitchRatio: number;
+    private accents: Map<number, Float64Array> = new Map();
+    private beatsPerBar: number;
+    private downbeatPhase = 0;
+    private beatCount = -1;
+    private barIndex = 0;
+    private gridBeats = 0;
+    private lastGridTime: number | null = null;
+    private confidence = 0;
+
+    /**
+     * Creates a new BarTracker instance.
+     * 
+     * @param options - Fixed meter and inference settings
+     */
+    constructor(options: BarTrackerOptions = {}) {
+        this.fixedBeatsPerBar = options.beatsPerBar !== undefined ? Math.max(1, Math.round(options.beatsPerBar)) : null;
+        this.minBeatsForMeter = options.minBeatsForMeter ?? 12;
+        this.meterSwitchRatio = options.meterSwitchRatio ?? 1.25;
+        this.beatsPerBar = this.fixedBeatsPerBar ?? CANDIDATE_METERS[0];
+        this.resetAccents();
+    }
+
+    /**
+     * Places a beat in the bar structure and updates the meter estimate.
+     * 
+     * @param timestamp - Beat time in milliseconds
+     * @param strength - Beat intensity (0-1)
+     * @param kinds - Percussion classes of the beat
+     * @param bpm - Current tempo, or null if unknown (every beat then counts as the next grid beat)
+     * @returns Position of the beat
+     */
+    observeBeat(timestamp: number, strength: number, kinds: readonly PercussionKind[], bpm: number | null): BarPosition {
+        let steps = 1;
+        if (bpm !== null && bpm > 0 && this.lastGridTime !== null) {
+            const periodMs = 60000 / bpm;
+            const beats = (timestamp - this.lastGridTime) / periodMs;
+            steps = Math.round(beats);
+
+            if (beats > MAX_GAP_BEATS) {
+                // Too long to extrapolate the grid: count the beat as the next one
+                steps = 1;
+            } else if (steps === 0 || Math.abs(beats - steps) > OFFBEAT_TOLERANCE) {
+                return this.getPosition(true);
+            }
+        }
+
+        const previousCount = this.beatCount;
+        this.beatCount += steps;
+        this.gridBeats++;
+        this.lastGridTime = timestamp;
+
+        this.observeAccent(getAccent(strength, kinds));
+        this.updateMeter();
+
+        // Count the downbeats passed since the previous grid beat
+        if (previousCount >= 0) {
+            const meter = this.beatsPerBar;
+            this.barIndex += Math.floor((this.beatCount - this.downbeatPhase) / meter) -
+                Math.floor((previousCount - this.downbeatPhase) / meter);
+        }
+
+        return this.getPosition(false);
+    }
+
+    /**
+     * Gets the current meter estimate.
+     * 
+     * @returns Beats per bar and confidence
+     */
+    getMeter(): MeterEstimate {
+        return { beatsPerBar: this.beatsPerBar, confidence: this.confidence };
+    }
+
+    /**
+     * Forgets all beats and returns to 4/4 (or the fixed meter), e.g. on track change.
+     */
+    reset(): void {
+        this.beatsPerBar = this.fixedBeatsPerBar ?? CANDIDATE_METERS[0];
+        this.downbeatPhase = 0;
+        this.beatCount = -1;
+        this.barIndex = 0;
+        this.gridBeats = 0;
+        this.lastGridTime = null;
+        this.confidence = 0;
+        this.resetAccents();
+    }
+
+    /**
+     * Creates empty accent averages for each candidate meter.
+     * 
+     * @private
+     */
+    private resetAccents(): void {
+        const meters = this.fixedBeatsPerBar !== null ? [this.fixedBeatsPerBar] : CANDIDATE_METERS;
+        this.accents = new Map(meters.map(meter => [meter, new Float64Array(meter)]));
+    }
+
+    /**
+     * Adds the current grid beat's accent to each meter's position averages.
+     * 
+     * @private
+     */
+    private observeAccent(accent: number): void {
+        this.accents.forEach((averages, meter) => {
+            const position = this.beatCount % meter;
+            averages[position] += (accent - averages[position]) * ACCENT_SMOOTHING;
+        });
+    }
+
+    /**
+     * Scores how much one position stands out from the others.
+     * 
+     * @returns The strongest position and its contrast (0 when all positions are equal)
+     * @private
+     */
+    private scoreMeter(averages: Float64Array): { phase: number; contrast: number } {
+        let phase = 0;
+        let total = 0;
+        for (let p = 0; p < averages.length; p++) {
+            total += averages[p];
+            if (averages[p] > averages[phase]) {
+                phase = p;
+            }
+        }
+
+        const othersMean = averages.length > 1 ? (total - averages[phase]) / (averages.length - 1) : 0;
+        const contrast = averages[phase] > 0 ? (averages[phase] - othersMean) / averages[phase] : 0;
+        return { phase, contrast };
+    }
+
+    /**
+     * Picks the meter and downbeat from the accent averages.
+     * 
+     * @private
+     */
+    private updateMeter(): void {
+        const scores = new Map<number, { phase: number; contrast: number }>();
+        this.accents.forEach((averages, meter) => scores.set(meter, this.scoreMeter(averages)));
+
+        if (this.fixedBeatsPerBar === null && this.gridBeats >= this.minBeatsForMeter) {
+            // Switching meter needs a clear margin, in either direction, so it does not flicker
+            const current = scores.get(this.beatsPerBar);
+            scores.forEach((score, meter) => {
+                if (meter !== this.beatsPerBar && current && score.contrast >= MIN_SWITCH_CONTRAST &&
+                    score.contrast > current.contrast * this.meterSwitchRatio) {
+                    this.beatsPerBar = meter;
+                }
+            });
+        }
+
+        const score = scores.get(this.beatsPerBar);
+        if (score) {
+            this.downbeatPhase = score.phase;
+            // Needs about two bars before the estimate means anything
+            const warmup = Math.min(1, this.gridBeats / (this.beatsPerBar * 2));
+            this.confidence = Math.max(0, Math.min(1, score.contrast)) * warmup;
+        }
+    }
+
+    /**
+     * Converts the beat count to a bar position.
+     * 
+     * @private
+     */
+    private getPosition(offbeat: boolean): BarPosition {
+        const meter = this.beatsPerBar;
+        const sinceDownbeat = Math.max(0, this.beatCount) - this.downbeatPhase;
+        return {
+            barIndex: this.barIndex,
+            beatInBar: (((sinceDownbeat % meter) + meter) % meter) + 1,
+            beatsPerBar: meter,
+            offbeat,
+        };
+    }
+}
@@ -0,0 +1,295 @@
+/**
+ * Beat Calibration Module
+ * 
+ * Tunes the beat detector's threshold multiplier and debounce to a track.
+ * A calibrator watches the first seconds of live analysis and, once the tempo
+ * is known, picks the settings that detect about one beat per tempo beat:
+ * slow tracks get a higher bar and a longer debounce, fast tracks a lower bar
+ * and a shorter one.
+ * 
+ * @module beatCalibration
+ */
+
+import { DetectionSensitivity } from './beatDetection';
+
+/**
+ * Settings chosen for a track, with the measurements behind them.
+ */
+export interface CalibrationResult extends DetectionSensitivity {
+    /** Tempo the target beat rate was derived from */
+    bpm: number;
+
+    /** Beat rate the settings were tuned toward, in beats per minute */
+    targetBeatsPerMinute: number;
+
+    /** Beat rate the chosen settings detect over the observed audio, in beats per minute */
+    expectedBeatsPerMinute: number;
+
+    /** Milliseconds of playing audio the settings were chosen from */
+    observedMs: number;
+
+    /** Time of calibration (ms since epoch) */
+    calibratedAt: number;
+}
+
+/**
+ * Where the detector's current settings come from.
+ * 
+ * - 'off': auto-calibration is disabled; the configured settings are used
+ * - 'calibrating': the configured settings are used while the track is observed
+ * - 'calibrated': settings were chosen for the current track
+ * - 'restored': settings were calibrated for the track earlier and loaded from storage
+ * - 'failed': no tempo was found in time; the configured settings are kept
+ */
+export type CalibrationStatus = 'off' | 'calibrating' | 'calibrated' | 'restored' | 'failed';
+
+/**
+ * Current calibration state of the beat detector.
+ */
+export interface DetectionCalibration {
+    /** Where the settings come from */
+    status: CalibrationStatus;
+
+    /** Settings currently used by the detector */
+    sensitivity: DetectionSensitivity;
+
+    /** Calibration behind the settings, null unless status is 'calibrated' or 'restored' */
+    result: CalibrationResult | null;
+}
+
+/**
+ * Options for BeatCalibrator.
+ */
+export interface BeatCalibratorOptions {
+    /**
+     * Playing time observed before calibrating, in milliseconds.
+     * 
+     * @default 8000
+     */
+    durationMs?: number;
+
+    /**
+     * Playing time after which calibration gives up if there is still no tempo.
+     * 
+     * @default 20000
+     */
+    maxDurationMs?: number;
+
+    /**
+     * Detected beats wanted per tempo beat. 2 would also keep the off-beats.
+     * 
+     * @default 1
+     */
+    beatsPerTempoBeat?: number;
+
+    /**
+     * Lowest threshold multiplier considered.
+     * 
+     * @default 1.05
+     */
+    minThresholdMultiplier?: number;
+
+    /**
+     * Highest threshold multiplier considered.
+     * 
+     * @default 3
+     */
+    maxThresholdMultiplier?: number;
+
+    /**
+     * Debounce as a fraction of the beat period. Long enough to swallow a
+     * beat's own echoes, short enough to let a slightly early next beat through.
+     * 
+     * @default 0.4
+     */
+    debounceRatio?: number;
+
+    /**
+     * Debounce bounds in milliseconds.
+     * 
+     * @default [60, 400]
+     */
+    debounceRangeMs?: [number, number];
+}
+
+// Resolution of the threshold multiplier search
+const MULTIPLIER_STEP = 0.01;
+
+// Frame gaps longer than this (pause, background tab) do not count as observed time
+const MAX_FRAME_GAP_MS = 100;
+
+/**
+ * BeatCalibrator class for choosing detector settings from a track's opening.
+ * 
+ * Every frame contributes its trigger multiplier, the largest multiplier at
+ * which it would have fired (see BeatDetector.getTriggerMultiplier). Since
+ * the adaptive averages do not depend on the multiplier, replaying those
+ * values with the debounce shows exactly how many beats any multiplier would
+ * have produced, so the search needs no second pass over the audio.
+ * 
+ * @example
+ * ```typescript
+ * const calibrator = new BeatCalibrator();
+ * source.addFrameListener((frame) => {
+ *   calibrator.observeFrame(frame.timestamp, frame.triggerMultiplier);
+ *   const tempo = tempoTracker.getEstimate();
+ *   if (calibrator.isReady() && tempo) {
+ *     const result = calibrator.calibrate(tempo.bpm);
+ *     if (result) source.setSensitivity(result);
+ *   }
+ * });
+ * ```
+ */
+export class BeatCalibrator {
+    private readonly durationMs: number;
+    private readonly maxDurationMs: number;
+    private readonly beatsPerTempoBeat: number;
+    private readonly minThresholdMultiplier: number;
+    private readonly maxThresholdMultiplier: number;
+    private readonly debounceRatio: number;
+    private readonly debounceRangeMs: [number, number];
+    private timestamps: number[] = [];
+    private triggerMultipliers: number[] = [];
+    private observedMs = 0;
+
+    /**
+     * Creates a new BeatCalibrator instance.
+     * 
+     * @param options - Observation length, target rate and search bounds
+     */
+    constructor(options: BeatCalibratorOptions = {}) {
+        this.durationMs = options.durationMs ?? 8000;
+        this.maxDurationMs = Math.max(this.durationMs, options.maxDurationMs ?? 20000);
+        this.beatsPerTempoBeat = options.beatsPerTempoBeat ?? 1;
+        this.minThresholdMultiplier = options.minThresholdMultiplier ?? 1.05;
+        this.maxThresholdMultiplier = Math.max(this.minThresholdMultiplier, options.maxThresholdMultiplier ?? 3);
+        this.debounceRatio = options.debounceRatio ?? 0.4;
+        this.debounceRangeMs = options.debounceRangeMs ?? [60, 400];
+    }
+
+    /**
+     * Adds an analysis frame.
+     * 
+     * @param timestamp - Frame time in milliseconds
+     * @param triggerMultiplier - Largest multiplier at which the frame would have fired
+     */
+    observeFrame(timestamp: number, triggerMultiplier: number): void {
+        const count = this.timestamps.length;
+        if (count > 0) {
+            const elapsed = timestamp - this.timestamps[count - 1];
+            if (elapsed <= 0) {
+                return;
+            }
+            if (elapsed < MAX_FRAME_GAP_MS) {
+                this.observedMs += elapsed;
+            }
+        }
+
+        this.timestamps.push(timestamp);
+        this.triggerMultipliers.push(triggerMultiplier);
+    }
+
+    /**
+     * Gets the playing time observed so far.
+     * 
+     * @returns Milliseconds of observed audio
+     */
+    getObservedMs(): number {
+        return this.observedMs;
+    }
+
+    /**
+     * Whether enough audio has been observed to calibrate.
+     * 
+     * @returns True once durationMs of audio has been observed
+     */
+    isReady(): boolean {
+        return this.observedMs >= this.durationMs;
+    }
+
+    /**
+     * Whether calibration should give up waiting for a tempo.
+     * 
+     * @returns True once maxDurationMs of audio has been observed
+     */
+    hasExpired(): boolean {
+        return this.observedMs >= this.maxDurationMs;
+    }
+
+    /**
+     * Chooses the settings for the observed audio.
+     * 
+     * The debounce follows from the beat period; the threshold multiplier is
+     * the one whose beat rate comes closest to the target. When a range of
+     * multipliers is equally close, the middle of the range is used so small
+     * changes in the music do not tip the rate.
+     * 
+     * @param bpm - Estimated tempo of the track
+     * @returns Chosen settings, or null if nothing has been observed or the tempo is not positive
+     */
+    calibrate(bpm: number): CalibrationResult | null {
+        if (this.observedMs <= 0 || !(bpm > 0)) {
+            return null;
+        }
+
+        const [minDebounceMs, maxDebounceMs] = this.debounceRangeMs;
+        const periodMs = 60000 / (bpm * this.beatsPerTempoBeat);
+        const debounceMs = Math.round(Math.max(minDebounceMs, Math.min(maxDebounceMs, periodMs * this.debounceRatio)));
+        const targetBeatsPerMinute = bpm * this.beatsPerTempoBeat;
+        const observedMinutes = this.observedMs / 60000;
+
+        const steps = Math.round((this.maxThresholdMultiplier - this.minThresholdMultiplier) / MULTIPLIER_STEP);
+        const rates: number[] = [];
+        let bestError = Infinity;
+        for (let i = 0; i <= steps; i++) {
+            const rate = this.countBeats(this.minThresholdMultiplier + i * MULTIPLIER_STEP, debounceMs) / observedMinutes;
+            rates.push(rate);
+            bestError = Math.min(bestError, Math.abs(rate - targetBeatsPerMinute));
+        }
+
+        // Beat counts only fall as the multiplier rises, so the closest candidates are contiguous
+        const closest: number[] = [];
+        rates.forEach((rate, i) => {
+            if (Math.abs(rate - targetBeatsPerMinute) <= bestError + 1e-9) {
+                closest.push(i);
+            }
+        });
+        const chosen = closest[Math.floor(closest.length / 2)];
+
+        return {
+            thresholdMultiplier: Math.round((this.minThresholdMultiplier + chosen * MULTIPLIER_STEP) * 100) / 100,
+            debounceMs,
+            bpm,
+            targetBeatsPerMinute,
+            expectedBeatsPerMinute: rates[chosen],
+            observedMs: this.observedMs,
+            calibratedAt: Date.now(),
+        };
+    }
+
+    /**
+     * Forgets all observed frames, e.g. on track change.
+     */
+    reset(): void {
+        this.timestamps = [];
+        this.triggerMultipliers = [];
+        this.observedMs = 0;
+    }
+
+    /**
+     * Counts the beats a multiplier and debounce would have detected in the observed frames.
+     * 
+     * @private
+     */
+    private countBeats(thresholdMultiplier: number, debounceMs: number): number {
+        let beats = 0;
+        let lastBeatTime = -Infinity;
+        for (let i = 0; i < this.timestamps.length; i++) {
+            if (this.triggerMultipliers[i] > thresholdMultiplier && this.timestamps[i] - lastBeatTime >= debounceMs) {
+                beats++;
+                lastBeatTime = this.timestamps[i];
+            }
+        }
+        return beats;
+    }
+}
@@ -0,0 +1,233 @@
+/**
+ * Beat Calibration Store Module
+ * 
+ * Persists calibrated detector settings per track in localStorage, so a track
+ * is calibrated once and starts with its own settings on later plays. Like the
+ * beat map cache, entries record the detector configuration hash they were
+ * calibrated with and do not match another configuration. The store keeps at
+ * most a fixed number of entries and evicts the least recently used ones.
+ * 
+ * @module beatCalibrationStore
+ */
+
+import { CalibrationResult } from './beatCalibration';
+
+/**
+ * Configuration for the calibration store.
+ * 
+ * @example
+ * ```typescript
+ * // In tests, pass any Storage implementation
+ * const store = new BeatCalibrationStore({ storage: sessionStorage, maxEntries: 3 });
+ * ```
+ */
+export interface BeatCalibrationStoreOptions {
+    /**
+     * Storage key holding all entries.
+     * 
+     * @default 'beat-calibrations'
+     */
+    key?: string;
+
+    /**
+     * Maximum number of stored calibrations. Least recently used entries are evicted first.
+     * 
+     * @default 100
+     */
+    maxEntries?: number;
+
+    /**
+     * Storage to use. Defaults to the browser's `localStorage`.
+     */
+    storage?: Storage;
+}
+
+/**
+ * A calibration as stored.
+ */
+export interface StoredCalibration {
+    /** Track URL */
+    url: string;
+
+    /** Hash of the detector configuration the track was calibrated with */
+    configHash: string;
+
+    /** The calibration */
+    result: CalibrationResult;
+
+    /** Time the entry was last read or written (ms since epoch), used for LRU eviction */
+    lastAccessed: number;
+}
+
+/**
+ * Checks whether localStorage is available in the current environment.
+ * 
+ * @returns True if a global localStorage exists
+ */
+export function isCalibrationStoreSupported(): boolean {
+    try {
+        return typeof localStorage !== 'undefined' && localStorage !== null;
+    } catch {
+        // Some browsers throw when storage is disabled
+        return false;
+    }
+}
+
+/**
+ * Checks that a parsed value has the shape of a stored calibration.
+ * 
+ * @private
+ */
+function isStoredCalibration(value: unknown): value is StoredCalibration {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const entry = value as StoredCalibration;
+    return typeof entry.url === 'string' &&
+        typeof entry.configHash === 'string' &&
+        typeof entry.lastAccessed === 'number' &&
+        typeof entry.result === 'object' && entry.result !== null &&
+        typeof entry.result.thresholdMultiplier === 'number' &&
+        typeof entry.result.debounceMs === 'number';
+}
+
+/**
+ * BeatCalibrationStore class for storing calibrated settings per track.
+ * 
+ * Methods are synchronous. Storage failures (quota, disabled storage,
+ * corrupt data) are logged and treated as misses, so they never block playback.
+ * 
+ * @example
+ * ```typescript
+ * const store = new BeatCalibrationStore();
+ * const stored = store.get(url, configHash);
+ * if (stored) {
+ *   source.setSensitivity(stored);
+ * }
+ * ```
+ */
+export class BeatCalibrationStore {
+    private readonly key: string;
+    private readonly maxEntries: number;
+    private readonly storage: Storage | null;
+
+    /**
+     * Creates a new BeatCalibrationStore instance.
+     * 
+     * @param options - Storage key, size limit and storage
+     */
+    constructor(options: BeatCalibrationStoreOptions = {}) {
+        this.key = options.key ?? 'beat-calibrations';
+        this.maxEntries = Math.max(1, options.maxEntries ?? 100);
+        this.storage = options.storage ?? (isCalibrationStoreSupported() ? localStorage : null);
+    }
+
+    /**
+     * Looks up the calibration for a track.
+     * 
+     * Entries stored with a different configuration hash are misses. A hit
+     * refreshes the entry's LRU position.
+     * 
+     * @param url - Track URL
+     * @param configHash - Hash of the current detector configuration
+     * @returns Stored calibration, or null on a miss
+     */
+    get(url: string, configHash: string): CalibrationResult | null {
+        const entries = this.read();
+        const entry = entries.find(candidate => candidate.url === url);
+        if (!entry || entry.configHash !== configHash) {
+            return null;
+        }
+
+        entry.lastAccessed = Date.now();
+        this.write(entries);
+        return entry.result;
+    }
+
+    /**
+     * Stores the calibration for a track, replacing any previous entry.
+     * Evicts least recently used entries beyond the size limit.
+     * 
+     * @param url - Track URL
+     * @param configHash - Hash of the detector configuration the track was calibrated with
+     * @param result - Calibration to store
+     */
+    put(url: string, configHash: string, result: CalibrationResult): void {
+        const entries = this.read().filter(entry => entry.url !== url);
+        entries.push({ url, configHash, result, lastAccessed: Date.now() });
+
+        entries.sort((a, b) => b.lastAccessed - a.lastAccessed);
+        this.write(entries.slice(0, this.maxEntries));
+    }
+
+    /**
+     * Removes stored calibrations.
+     * 
+     * @param url - Track URL to remove; removes every entry when omitted
+     */
+    invalidate(url?: string): void {
+        this.write(url === undefined ? [] : this.read().filter(entry => entry.url !== url));
+    }
+
+    /**
+     * Lists the stored calibrations, most recently used first.
+     * 
+     * @returns Copies of the stored entries
+     */
+    entries(): StoredCalibration[] {
+        return this.read().sort((a, b) => b.lastAccessed - a.lastAccessed);
+    }
+
+    /**
+     * Reads all entries, dropping malformed ones.
+     * 
+     * @private
+     */
+    private read(): StoredCalibration[] {
+        if (!this.storage) {
+            return [];
+        }
+        try {
+            const text = this.storage.getItem(this.key);
+            const parsed: unknown = text ? JSON.parse(text) : [];
+            return Array.isArray(parsed) ? parsed.filter(isStoredCalibration) : [];
+        } catch (err) {
+            console.warn('BeatCalibrationStore: Failed to read calibrations', err);
+            return [];
+        }
+    }
+
+    /**
+     * Writes all entries.
+     * 
+     * @private
+     */
+    private write(entries: StoredCalibration[]): void {
+        if (!this.storage) {
+            return;
+        }
+        try {
+            if (entries.length === 0) {
+                this.storage.removeItem(this.key);
+            } else {
+                this.storage.setItem(this.key, JSON.stringify(entries));
+            }
+        } catch (err) {
+            console.warn('BeatCalibrationStore: Failed to write calibrations', err);
+        }
+    }
+}
+
+let defaultStore: BeatCalibrationStore | null = null;
+
+/**
+ * Gets the shared calibration store used by the audio analysis layer.
+ * 
+ * @returns Shared store instance, or null when localStorage is unavailable
+ */
+export function getDefaultCalibrationStore(): BeatCalibrationStore | null {
+    if (!defaultStore && isCalibrationStoreSupported()) {
+        defaultStore = new BeatCalibrationStore();
+    }
+    return defaultStore;
+}
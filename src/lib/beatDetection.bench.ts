@@ -0,0 +1,62 @@
+/**
+ * Per-frame cost of BeatDetector as the history grows.
+ * 
+ * Run with `npm run bench`. Each group should report roughly the same
+ * ops/sec for every history size, since history statistics are updated in
+ * constant time.
+ */
+
+import { bench, describe } from 'vitest';
+import { BeatDetector, DetectionStrategy } from './beatDetection';
+
+const HISTORY_SIZES = [60, 600, 6000];
+const BIN_COUNT = 1024;
+const FRAME_MS = 1000 / 60;
+
+// A few seconds of spectra with a kick every half second, so thresholds and beats are exercised
+const spectra: Uint8Array[] = Array.from({ length: 240 }, (_, frame) => {
+    const spectrum = new Uint8Array(BIN_COUNT);
+    const kick = frame % 30 < 3;
+    for (let bin = 0; bin < BIN_COUNT; bin++) {
+        const base = 160 * Math.exp(-bin / 200) + ((frame * 31 + bin * 17) % 23);
+        spectrum[bin] = Math.min(255, base + (kick && bin < 12 ? 80 : 0));
+    }
+    return spectrum;
+});
+
+const createRunner = (historySize: number, strategy: DetectionStrategy) => {
+    const detector = new BeatDetector(historySize, 1.3, 100, { strategy });
+
+    // Fill the history so the window is at capacity for every measured frame
+    for (let i = 0; i < historySize; i++) {
+        detector.detectOnset(spectra[i % spectra.length], i * FRAME_MS);
+    }
+    let frame = historySize;
+
+    return () => {
+        detector.detectOnset(spectra[frame % spectra.length], frame * FRAME_MS);
+        frame++;
+    };
+};
+
+describe('updateHistory', () => {
+    HISTORY_SIZES.forEach(historySize => {
+        const detector = new BeatDetector(historySize);
+        let i = 0;
+        bench(`history ${historySize}`, () => {
+            detector.updateHistory(((i++ * 7919) % 1000) / 1000);
+        });
+    });
+});
+
+describe('detectOnset (bass-energy)', () => {
+    HISTORY_SIZES.forEach(historySize => {
+        bench(`history ${historySize}`, createRunner(historySize, 'bass-energy'));
+    });
+});
+
+describe('detectOnset (spectral-flux)', () => {
+    HISTORY_SIZES.forEach(historySize => {
+        bench(`history ${historySize}`, createRunner(historySize, 'spectral-flux'));
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { BeatDetector, BeatResult, DetectionStrategy, FrequencyBand, frequencyToBin, getBandBins } from './beatDetection';
+import { generateFrequencyFrames } from './syntheticSignals';
+
+const BIN_COUNT = 1024;
+const FRAME_MS = 1000 / 60;
+
+// A second of quiet frames followed by one loud bass frame
+const detectBassHit = (detector: BeatDetector): BeatResult | null => {
+    const quiet = new Uint8Array(BIN_COUNT).fill(40);
+    const loud = new Uint8Array(BIN_COUNT).fill(40);
+    loud.fill(250, 0, 20);
+
+    for (let frame = 0; frame < 60; frame++) {
+        detector.detectOnset(quiet, frame * FRAME_MS);
+    }
+    return detector.detectOnset(loud, 60 * FRAME_MS);
+};
+
+describe('bass-energy band names', () => {
+    it('reports the default bands overlapping the energy band', () => {
+        const result = detectBassHit(new BeatDetector());
+        expect(result?.bands).toEqual(['sub', 'low']);
+    });
+
+    it('reports the configured bands overlapping the energy band', () => {
+        const bands: FrequencyBand[] = [
+            { name: 'kick', minHz: 30, maxHz: 120 },
+            { name: 'body', minHz: 120, maxHz: 600 },
+            { name: 'air', minHz: 8000, maxHz: 16000 },
+        ];
+        const result = detectBassHit(new BeatDetector(60, 1.3, 100, { bands }));
+        expect(result?.bands).toEqual(['kick', 'body']);
+    });
+
+    it('falls back to the energy band name when no configured band overlaps it', () => {
+        const bands: FrequencyBand[] = [{ name: 'high', minHz: 4000, maxHz: 11025 }];
+        const energyBand: FrequencyBand = { name: 'thump', minHz: 0, maxHz: 200 };
+        const result = detectBassHit(new BeatDetector(60, 1.3, 100, { bands, energyBand }));
+        expect(result?.bands).toEqual(['thump']);
+    });
+});
+
+describe('sample rate and FFT size invariance', () => {
+    const FFT_SIZES = [2048, 4096, 8192];
+    const SAMPLE_RATES = [44100, 48000];
+
+    const detectBeats = (strategy: DetectionStrategy, fftSize: number, sampleRate: number): number[] => {
+        const signal = generateFrequencyFrames({ durationMs: 8000, bpm: 120, sampleRate }, { fftSize });
+        const detector = new BeatDetector(60, 1.3, 100, { strategy, sampleRate });
+        return signal.frames
+            .map((frame, i) => (detector.detectOnset(frame, signal.timestamps[i]) !== null ? signal.timestamps[i] : null))
+            .filter((time): time is number => time !== null);
+    };
+
+    it('maps a frequency to the bin nearest to it at any resolution', () => {
+        SAMPLE_RATES.forEach(sampleRate => {
+            FFT_SIZES.forEach(fftSize => {
+                const binCount = fftSize / 2;
+                const hzPerBin = sampleRate / (2 * binCount);
+                const bin = frequencyToBin(1000, sampleRate, binCount);
+                expect(Math.abs(bin * hzPerBin - 1000)).toBeLessThanOrEqual(hzPerBin / 2);
+            });
+        });
+    });
+
+    it('gives every band at least one bin', () => {
+        SAMPLE_RATES.forEach(sampleRate => {
+            FFT_SIZES.forEach(fftSize => {
+                const bins = getBandBins({ name: 'sub', minHz: 20, maxHz: 86 }, sampleRate, fftSize / 2);
+                expect(bins.endBin).toBeGreaterThan(bins.startBin);
+            });
+        });
+    });
+
+    (['bass-energy', 'spectral-flux'] as const).forEach(strategy => {
+        it(`detects the same beats at every FFT size and sample rate (${strategy})`, () => {
+            const reference = detectBeats(strategy, 2048, 44100);
+            expect(reference.length).toBeGreaterThan(10);
+
+            SAMPLE_RATES.forEach(sampleRate => {
+                FFT_SIZES.forEach(fftSize => {
+                    expect(detectBeats(strategy, fftSize, sampleRate)).toEqual(reference);
+                });
+            });
+        });
+    });
+});
@@ -3,49 +3,163 @@
  * 
  * Provides beat detection functionality by analyzing frequency data
  * from the Web Audio API AnalyserNode. Uses adaptive thresholding
- * to detect beats across varying audio volumes and styles.
+ * to detect beats across varying audio volumes and styles, either from
+ * bass energy or from multi-band spectral flux.
  * 
  * @module beatDetection
  */
 
+import { RollingWindow } from './rollingStatistics';
+
+/**
+ * Sample rate assumed when none is given, in Hz.
+ */
+export const DEFAULT_SAMPLE_RATE = 44100;
+
+/**
+ * A named frequency range used for onset detection and band features.
+ * 
+ * Bands are defined in Hz and converted to FFT bins for the analyser at hand
+ * (see getBandBins), so they cover the same frequencies whatever the FFT size
+ * and sample rate.
+ * 
+ * @example
+ * ```typescript
+ * const kickBand: FrequencyBand = { name: 'kick', minHz: 20, maxHz: 150 };
+ * ```
+ */
+export interface FrequencyBand {
+    /** Identifier reported in beat results when this band fires */
+    name: string;
+
+    /** Lower edge of the band in Hz */
+    minHz: number;
+
+    /** Upper edge of the band in Hz */
+    maxHz: number;
+}
+
+/**
+ * A band converted to a range of frequency bins.
+ */
+export interface BandBins {
+    /** First bin of the band (inclusive) */
+    startBin: number;
+
+    /** Last bin of the band (exclusive) */
+    endBin: number;
+}
+
+/**
+ * Band whose average energy drives bass-energy detection.
+ * 
+ * Covers 0-230 Hz, the range of bins 0-10 at the reference FFT size of 2048
+ * and 44.1kHz, where bass frequencies carry most of the beat information.
+ */
+export const DEFAULT_ENERGY_BAND: FrequencyBand = { name: 'bass', minHz: 0, maxHz: 230 };
+
+/**
+ * Default band layout for spectral-flux detection.
+ * 
+ * - sub: 20-86 Hz (kick drum fundamentals, sub bass)
+ * - low: 86-258 Hz (bass lines, kick body)
+ * - mid: 258 Hz-4 kHz (snares, vocals, most melodic content)
+ * - high: 4-11 kHz (hi-hats, cymbals)
+ */
+export const DEFAULT_FREQUENCY_BANDS: readonly FrequencyBand[] = [
+    { name: 'sub', minHz: 20, maxHz: 86 },
+    { name: 'low', minHz: 86, maxHz: 258 },
+    { name: 'mid', minHz: 258, maxHz: 4000 },
+    { name: 'high', minHz: 4000, maxHz: 11025 },
+];
+
+/**
+ * Converts a frequency to the nearest bin edge of an analyser's spectrum.
+ * 
+ * Bin k is centered on k * sampleRate / fftSize Hz, and frequencyBinCount is
+ * half the FFT size.
+ * 
+ * @param frequency - Frequency in Hz
+ * @param sampleRate - Sample rate of the audio in Hz
+ * @param binCount - Number of frequency bins (AnalyserNode.frequencyBinCount)
+ * @returns Bin index, clamped to 0-binCount
+ */
+export function frequencyToBin(frequency: number, sampleRate: number, binCount: number): number {
+    const bin = Math.round((frequency * 2 * binCount) / sampleRate);
+    return Math.max(0, Math.min(binCount, bin));
+}
+
+/**
+ * Converts a band to the range of bins it covers in an analyser's spectrum.
+ * 
+ * A band narrower than one bin still gets the bin it falls in, so coarse
+ * FFT sizes do not silence it.
+ * 
+ * @param band - Band to convert
+ * @param sampleRate - Sample rate of the audio in Hz
+ * @param binCount - Number of frequency bins (AnalyserNode.frequencyBinCount)
+ * @returns Bin range of the band; empty if the band lies above the Nyquist frequency
+ * 
+ * @example
+ * ```typescript
+ * const bins = getBandBins(DEFAULT_FREQUENCY_BANDS[0], audioContext.sampleRate, analyser.frequencyBinCount);
+ * // { startBin: 1, endBin: 4 } at 44.1kHz with an FFT size of 2048
+ * ```
+ */
+export function getBandBins(band: FrequencyBand, sampleRate: number, binCount: number): BandBins {
+    const startBin = frequencyToBin(band.minHz, sampleRate, binCount);
+    let endBin = frequencyToBin(band.maxHz, sampleRate, binCount);
+    if (endBin <= startBin && startBin < binCount) {
+        endBin = startBin + 1;
+    }
+    return { startBin, endBin };
+}
+
 /**
  * Calculates the energy level from frequency data.
  * 
- * Focuses on low-frequency bins (bass range, bins 0-10) as bass frequencies
- * are most indicative of beats in music. With an FFT size of 2048 and a
- * sample rate of 44.1kHz, this covers approximately 0-430 Hz.
+ * Averages the bins of a bass range, as bass frequencies are most indicative
+ * of beats in music. Without a range, DEFAULT_ENERGY_BAND is converted
+ * assuming DEFAULT_SAMPLE_RATE; pass the analyser's range when the sample
+ * rate is known.
  * 
  * @param frequencyData - Uint8Array of frequency data from AnalyserNode (values 0-255)
+ * @param bins - Bins to average
  * @returns Normalized energy value (0-1)
  * 
  * @example
  * ```typescript
  * const analyser = audioContext.createAnalyser();
  * const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+ * const bassBins = getBandBins(DEFAULT_ENERGY_BAND, audioContext.sampleRate, analyser.frequencyBinCount);
  * analyser.getByteFrequencyData(frequencyData);
  * 
- * const energy = calculateEnergy(frequencyData);
+ * const energy = calculateEnergy(frequencyData, bassBins);
  * console.log('Current energy:', energy);
  * ```
  */
-export function calculateEnergy(frequencyData: Uint8Array): number {
+export function calculateEnergy(
+    frequencyData: Uint8Array,
+    bins: BandBins = getBandBins(DEFAULT_ENERGY_BAND, DEFAULT_SAMPLE_RATE, frequencyData?.length ?? 0)
+): number {
     // Handle empty or invalid data
     if (!frequencyData || frequencyData.length === 0) {
         return 0;
     }
 
-    // Focus on low-frequency bins (bass range, bins 0-10)
-    // These frequencies (roughly 0-430 Hz with FFT size 2048 at 44.1kHz sample rate)
-    // contain the most beat information
-    const bassRange = Math.min(11, frequencyData.length); // bins 0-10 inclusive
+    const start = Math.max(0, bins.startBin);
+    const end = Math.min(bins.endBin, frequencyData.length);
+    if (end <= start) {
+        return 0;
+    }
 
     let sum = 0;
-    for (let i = 0; i < bassRange; i++) {
+    for (let i = start; i < end; i++) {
         sum += frequencyData[i];
     }
 
     // Calculate average energy in the bass range
-    const averageEnergy = sum / bassRange;
+    const averageEnergy = sum / (end - start);
 
     // Normalize to 0-1 range (frequency data is 0-255)
     const normalizedEnergy = averageEnergy / 255;
@@ -53,6 +167,157 @@ export function calculateEnergy(frequencyData: Uint8Array): number {
     return normalizedEnergy;
 }
 
+/**
+ * Algorithm used by BeatDetector to decide whether a frame contains a beat.
+ * 
+ * - 'bass-energy': compares average bass energy against an adaptive threshold (original algorithm)
+ * - 'spectral-flux': measures the positive change in magnitude per band between frames,
+ *   each band with its own adaptive threshold
+ */
+export type DetectionStrategy = 'bass-energy' | 'spectral-flux';
+
+/**
+ * Optional settings for BeatDetector beyond the core thresholding parameters.
+ */
+export interface BeatDetectorOptions {
+    /**
+     * Detection algorithm to use.
+     * 
+     * @default 'bass-energy'
+     */
+    strategy?: DetectionStrategy;
+
+    /**
+     * Frequency bands analyzed in spectral-flux mode.
+     * 
+     * @default DEFAULT_FREQUENCY_BANDS
+     */
+    bands?: readonly FrequencyBand[];
+
+    /**
+     * Band whose energy is compared against the threshold in bass-energy mode.
+     * 
+     * @default DEFAULT_ENERGY_BAND
+     */
+    energyBand?: FrequencyBand;
+
+    /**
+     * Sample rate of the analyzed audio in Hz, used to convert bands to bins.
+     * Pass the AudioContext's sample rate; the FFT size is taken from each frame.
+     * 
+     * @default DEFAULT_SAMPLE_RATE
+     */
+    sampleRate?: number;
+
+    /**
+     * Minimum normalized flux a band must reach to fire in spectral-flux mode.
+     * Keeps low-level noise from triggering beats in near-silent bands.
+     * 
+     * @default 0.02
+     */
+    minimumFlux?: number;
+}
+
+/**
+ * Settings that control how readily the detector reports beats.
+ * Can be changed while the detector runs (see BeatDetector.setSensitivity).
+ */
+export interface DetectionSensitivity {
+    /** Multiplier for the average energy (or flux) giving the beat threshold */
+    thresholdMultiplier: number;
+
+    /** Minimum time between beats in milliseconds */
+    debounceMs: number;
+}
+
+/**
+ * Result of a detected beat, including which frequency bands triggered it.
+ * 
+ * @example
+ * ```typescript
+ * const result = detector.detectOnset(frequencyData, performance.now());
+ * if (result && result.bands.includes('high')) {
+ *   twinkleSmallStars(result.strength);
+ * }
+ * ```
+ */
+export interface BeatResult {
+    /** Normalized beat intensity (0-1) */
+    strength: number;
+
+    /**
+     * Names of the bands whose onset exceeded their threshold.
+     * In bass-energy mode these are the configured bands overlapping the
+     * energy band ('sub' and 'low' by default), or the energy band's own name
+     * if none overlap it.
+     */
+    bands: string[];
+
+    /** Timestamp of the frame that produced the beat in milliseconds */
+    timestamp: number;
+}
+
+/**
+ * Calculates the spectral flux of a single band between two frames.
+ * 
+ * Spectral flux is the sum of positive magnitude changes across the band's bins.
+ * Only increases are counted, so decaying notes do not register as onsets.
+ * 
+ * @param current - Current frame frequency data (values 0-255)
+ * @param previous - Previous frame frequency data (values 0-255)
+ * @param bins - Bins of the band to measure (see getBandBins)
+ * @returns Normalized flux value (0-1)
+ * 
+ * @example
+ * ```typescript
+ * const highBins = getBandBins(DEFAULT_FREQUENCY_BANDS[3], audioContext.sampleRate, frequencyData.length);
+ * const flux = calculateBandFlux(frequencyData, previousFrame, highBins);
+ * ```
+ */
+export function calculateBandFlux(
+    current: ArrayLike<number>,
+    previous: ArrayLike<number>,
+    bins: BandBins
+): number {
+    const start = Math.max(0, bins.startBin);
+    const end = Math.min(bins.endBin, current.length, previous.length);
+
+    if (end <= start) {
+        return 0;
+    }
+
+    let flux = 0;
+    for (let i = start; i < end; i++) {
+        const diff = current[i] - previous[i];
+        if (diff > 0) {
+            flux += diff;
+        }
+    }
+
+    // Normalize to 0-1 range by the maximum possible rise across the band
+    return flux / ((end - start) * 255);
+}
+
+/**
+ * Per-band adaptive threshold state used in spectral-flux mode.
+ */
+export interface BandDetectionState {
+    /** Name of the band this state belongs to */
+    name: string;
+
+    /** Rolling window of recent flux values for this band */
+    fluxHistory: number[];
+
+    /** Running average flux across the history window */
+    averageFlux: number;
+
+    /** Flux standard deviation across the history window */
+    varianceFlux: number;
+
+    /** Flux value of the most recent frame */
+    lastFlux: number;
+}
+
 /**
  * State for beat detection algorithm with adaptive thresholding.
  * 
@@ -95,6 +360,11 @@ export interface BeatDetectionState {
     varianceEnergy: number;
 }
 
+// Band state as kept by the detector; getBandStates() exposes the window as fluxHistory
+interface BandWindowState extends Omit<BandDetectionState, 'fluxHistory'> {
+    fluxWindow: RollingWindow;
+}
+
 /**
  * BeatDetector class for analyzing audio and detecting beats.
  * 
@@ -121,10 +391,26 @@ export interface BeatDetectionState {
  * ```
  */
 export class BeatDetector {
-    private state: BeatDetectionState;
+    private state: Omit<BeatDetectionState, 'energyHistory'>;
+    private readonly energyWindow: RollingWindow;
+    private bandStates: BandWindowState[];
+    private previousSpectrum: Float32Array | null = null;
+    private lastEnergy = 0;
+    private lastTriggerMultiplier = 0;
     private readonly historySize: number;
-    private readonly thresholdMultiplier: number;
-    private readonly debounceMs: number;
+    private thresholdMultiplier: number;
+    private debounceMs: number;
+    private readonly strategy: DetectionStrategy;
+    private readonly bands: readonly FrequencyBand[];
+    private readonly energyBand: FrequencyBand;
+    // Bands reported for bass-energy beats
+    private readonly energyBandNames: readonly string[];
+    private readonly sampleRate: number;
+    private readonly minimumFlux: number;
+    // Bins of the energy band and the flux bands for the current frame size
+    private binCount = -1;
+    private energyBins: BandBins = { startBin: 0, endBin: 0 };
+    private bandBins: BandBins[] = [];
 
     /**
      * Creates a new BeatDetector instance.
@@ -132,6 +418,7 @@ export class BeatDetector {
      * @param historySize - Number of frames to keep in energy history. Typically 60 frames (1 second at 60fps)
      * @param thresholdMultiplier - Multiplier for average energy to determine beat threshold. Higher values make detection less sensitive
      * @param debounceMs - Minimum time between beats in milliseconds. Prevents multiple detections of the same beat
+     * @param options - Detection strategy, frequency bands and sample rate (defaults to the bass-energy strategy)
      * 
      * @example
      * ```typescript
@@ -140,23 +427,45 @@ export class BeatDetector {
      * 
      * // Create detector with custom sensitivity
      * const sensitiveDetector = new BeatDetector(60, 1.2, 80);
+     * 
+     * // Create a multi-band spectral-flux detector
+     * const fluxDetector = new BeatDetector(60, 1.5, 100, { strategy: 'spectral-flux' });
+     * 
+     * // Detect kicks only, in a 48kHz context
+     * const kickDetector = new BeatDetector(60, 1.5, 100, {
+     *   strategy: 'spectral-flux',
+     *   bands: [{ name: 'kick', minHz: 20, maxHz: 150 }],
+     *   sampleRate: 48000,
+     * });
      * ```
      */
     constructor(
         historySize: number = 60,
         thresholdMultiplier: number = 1.3,
-        debounceMs: number = 100
+        debounceMs: number = 100,
+        options: BeatDetectorOptions = {}
     ) {
         this.historySize = historySize;
         this.thresholdMultiplier = thresholdMultiplier;
         this.debounceMs = debounceMs;
+        this.strategy = options.strategy ?? 'bass-energy';
+        this.bands = options.bands ?? DEFAULT_FREQUENCY_BANDS;
+        this.energyBand = options.energyBand ?? DEFAULT_ENERGY_BAND;
+        this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+        this.minimumFlux = options.minimumFlux ?? 0.02;
+
+        const overlapping = this.bands
+            .filter(band => band.minHz < this.energyBand.maxHz && band.maxHz > this.energyBand.minHz)
+            .map(band => band.name);
+        this.energyBandNames = overlapping.length > 0 ? overlapping : [this.energyBand.name];
 
         this.state = {
-            energyHistory: [],
             lastBeatTime: 0,
             averageEnergy: 0,
             varianceEnergy: 0,
         };
+        this.energyWindow = new RollingWindow(historySize);
+        this.bandStates = this.createBandStates();
     }
 
     /**
@@ -186,11 +495,50 @@ export class BeatDetector {
      * ```
      */
     detectBeat(frequencyData: Uint8Array, timestamp: number): number | null {
-        const energy = calculateEnergy(frequencyData);
+        const result = this.detectOnset(frequencyData, timestamp);
+        return result !== null ? result.strength : null;
+    }
+
+    /**
+     * Analyzes frequency data and returns a detailed beat result.
+     * 
+     * Same as detectBeat(), but reports which frequency bands fired. Uses the
+     * strategy selected at construction time.
+     * 
+     * @param frequencyData - Uint8Array of frequency data from AnalyserNode
+     * @param timestamp - Current timestamp in milliseconds (typically from performance.now())
+     * @returns Beat result if a beat was detected, null otherwise
+     * 
+     * @example
+     * ```typescript
+     * const detector = new BeatDetector(60, 1.5, 100, { strategy: 'spectral-flux' });
+     * 
+     * const result = detector.detectOnset(frequencyData, performance.now());
+     * if (result) {
+     *   console.log(`Beat in ${result.bands.join(', ')} with strength ${result.strength}`);
+     * }
+     * ```
+     */
+    detectOnset(frequencyData: Uint8Array, timestamp: number): BeatResult | null {
+        if (frequencyData.length !== this.binCount) {
+            this.resolveBins(frequencyData.length);
+        }
+
+        const energy = calculateEnergy(frequencyData, this.energyBins);
+        this.lastEnergy = energy;
 
         // Update history with current energy
         this.updateHistory(energy);
 
+        if (this.strategy === 'spectral-flux') {
+            return this.detectSpectralFlux(frequencyData, timestamp);
+        }
+
+        // Largest multiplier whose threshold this energy would exceed
+        this.lastTriggerMultiplier = this.state.averageEnergy > 0
+            ? Math.max(0, (energy - this.state.varianceEnergy * 0.5) / this.state.averageEnergy)
+            : 0;
+
         // Check debounce - prevent beats too close together
         if (timestamp - this.state.lastBeatTime < this.debounceMs) {
             return null;
@@ -198,8 +546,7 @@ export class BeatDetector {
 
         // Calculate dynamic threshold with variance factor
         // Threshold adapts to both average energy level and variability
-        const threshold = (this.state.averageEnergy * this.thresholdMultiplier) +
-            (this.state.varianceEnergy * 0.5);
+        const threshold = this.getThreshold();
 
         // Detect beat if energy exceeds threshold
         if (energy > threshold && this.state.averageEnergy > 0) {
@@ -208,18 +555,136 @@ export class BeatDetector {
             // Calculate beat strength (0-1) based on how much energy exceeds threshold
             const beatStrength = Math.min(1, (energy - threshold) / threshold);
 
-            return beatStrength;
+            return {
+                strength: beatStrength,
+                bands: [...this.energyBandNames],
+                timestamp,
+            };
         }
 
         return null;
     }
 
+    /**
+     * Runs spectral-flux onset detection across all configured bands.
+     * 
+     * Each band keeps its own flux history and threshold, so a hi-hat can fire
+     * the 'high' band even when bass energy is flat.
+     * 
+     * @param frequencyData - Current frame frequency data
+     * @param timestamp - Current timestamp in milliseconds
+     * @returns Beat result if any band fired, null otherwise
+     * 
+     * @private
+     */
+    private detectSpectralFlux(frequencyData: Uint8Array, timestamp: number): BeatResult | null {
+        // First frame (or a new FFT size): store the spectrum and wait for the next one
+        if (!this.previousSpectrum || this.previousSpectrum.length !== frequencyData.length) {
+            this.previousSpectrum = new Float32Array(frequencyData.length);
+            this.previousSpectrum.set(frequencyData);
+            this.lastTriggerMultiplier = 0;
+            return null;
+        }
+
+        const debounced = timestamp - this.state.lastBeatTime < this.debounceMs;
+        let firedBands: string[] | null = null;
+        let maxStrength = 0;
+        let triggerMultiplier = 0;
+
+        for (let b = 0; b < this.bands.length; b++) {
+            const bandState = this.bandStates[b];
+            const flux = calculateBandFlux(frequencyData, this.previousSpectrum, this.bandBins[b]);
+
+            // Threshold from history before this frame, so a spike does not raise its own bar
+            const previousAverage = bandState.averageFlux;
+            const previousVariance = bandState.varianceFlux;
+            const threshold = (previousAverage * this.thresholdMultiplier) + (previousVariance * 0.5);
+            const hasHistory = previousAverage > 0;
+
+            this.updateBandHistory(bandState, flux);
+
+            if (hasHistory && flux >= this.minimumFlux) {
+                triggerMultiplier = Math.max(triggerMultiplier,
+                    (flux - previousVariance * 0.5) / previousAverage);
+            }
+
+            if (!debounced && hasHistory && flux > threshold && flux >= this.minimumFlux) {
+                const strength = Math.min(1, (flux - threshold) / threshold);
+                if (firedBands === null) {
+                    firedBands = [];
+                }
+                firedBands.push(bandState.name);
+                maxStrength = Math.max(maxStrength, strength);
+            }
+        }
+
+        this.previousSpectrum.set(frequencyData);
+        this.lastTriggerMultiplier = triggerMultiplier;
+
+        if (firedBands === null) {
+            return null;
+        }
+
+        this.state.lastBeatTime = timestamp;
+
+        return {
+            strength: maxStrength,
+            bands: firedBands,
+            timestamp,
+        };
+    }
+
+    /**
+     * Adds a flux value to a band's rolling history and refreshes its statistics.
+     * 
+     * @param bandState - Band state to update
+     * @param flux - Flux value for the current frame
+     * 
+     * @private
+     */
+    private updateBandHistory(bandState: BandWindowState, flux: number): void {
+        const window = bandState.fluxWindow;
+
+        window.push(flux);
+        bandState.averageFlux = window.getMean();
+        bandState.varianceFlux = window.getStandardDeviation();
+        bandState.lastFlux = flux;
+    }
+
+    /**
+     * Converts the energy band and flux bands to bins for a frame size.
+     * 
+     * @param binCount - Number of frequency bins per frame
+     * 
+     * @private
+     */
+    private resolveBins(binCount: number): void {
+        this.binCount = binCount;
+        this.energyBins = getBandBins(this.energyBand, this.sampleRate, binCount);
+        this.bandBins = this.bands.map(band => getBandBins(band, this.sampleRate, binCount));
+    }
+
+    /**
+     * Creates empty per-band state for the configured bands.
+     * 
+     * @private
+     */
+    private createBandStates(): BandWindowState[] {
+        return this.bands.map(band => ({
+            name: band.name,
+            fluxWindow: new RollingWindow(this.historySize),
+            averageFlux: 0,
+            varianceFlux: 0,
+            lastFlux: 0,
+        }));
+    }
+
     /**
      * Updates internal state with new energy value.
      * 
      * Maintains a rolling window of energy history and calculates
      * running statistics (average and variance) used for adaptive thresholding.
-     * Optimized to minimize allocations and reuse calculations.
+     * Runs in constant time and does not allocate, whatever the history size.
      * 
      * @param energy - Current energy value to add to history (0-1)
      * 
@@ -231,39 +696,18 @@ export class BeatDetector {
      * ```
      */
     updateHistory(energy: number): void {
-        const history = this.state.energyHistory;
-
-        // Add to history
-        history.push(energy);
-
-        // Maintain history size limit - remove oldest entry
-        if (history.length > this.historySize) {
-            history.shift();
-        }
-
-        // Calculate average energy using cached sum
-        let sum = 0;
-        const len = history.length;
-        for (let i = 0; i < len; i++) {
-            sum += history[i];
-        }
-        this.state.averageEnergy = sum / len;
-
-        // Calculate variance efficiently
-        let varianceSum = 0;
-        const avg = this.state.averageEnergy;
-        for (let i = 0; i < len; i++) {
-            const diff = history[i] - avg;
-            varianceSum += diff * diff;
-        }
-        this.state.varianceEnergy = Math.sqrt(varianceSum / len);
+        // The window drops the oldest entry once full and keeps running sums
+        this.energyWindow.push(energy);
+        this.state.averageEnergy = this.energyWindow.getMean();
+        this.state.varianceEnergy = this.energyWindow.getStandardDeviation();
     }
 
     /**
      * Gets the current beat detection state.
      * 
      * Useful for testing, debugging, or monitoring the detector's internal state.
-     * Returns a readonly copy to prevent external modification.
+     * Returns a readonly copy to prevent external modification. Copying the
+     * history allocates, so avoid calling this every frame.
      * 
      * @returns Readonly copy of the current beat detection state
      * 
@@ -276,7 +720,141 @@ export class BeatDetector {
      * ```
      */
     getState(): Readonly<BeatDetectionState> {
-        return { ...this.state };
+        return {
+            ...this.state,
+            energyHistory: this.energyWindow.toArray(),
+        };
+    }
+
+    /**
+     * Gets the per-band spectral-flux state.
+     * 
+     * Only updated while the detector runs in spectral-flux mode.
+     * 
+     * @returns Readonly copies of each band's state, in band order
+     * 
+     * @example
+     * ```typescript
+     * const detector = new BeatDetector(60, 1.5, 100, { strategy: 'spectral-flux' });
+     * detector.getBandStates().forEach(band => {
+     *   console.log(band.name, band.lastFlux, band.averageFlux);
+     * });
+     * ```
+     */
+    getBandStates(): ReadonlyArray<Readonly<BandDetectionState>> {
+        return this.bandStates.map(({ fluxWindow, ...band }) => ({
+            ...band,
+            fluxHistory: fluxWindow.toArray(),
+        }));
+    }
+
+    /**
+     * Gets the bass energy of the most recently analyzed frame.
+     * 
+     * @returns Normalized energy (0-1), as returned by calculateEnergy()
+     */
+    getEnergy(): number {
+        return this.lastEnergy;
+    }
+
+    /**
+     * Gets the current adaptive bass-energy threshold.
+     * 
+     * After detectOnset() this is the threshold the frame's energy was compared
+     * against in bass-energy mode. Does not allocate, so it is safe to call every frame.
+     * 
+     * @returns Threshold on the same scale as getEnergy()
+     * 
+     * @example
+     * ```typescript
+     * detector.detectOnset(frequencyData, performance.now());
+     * const headroom = detector.getEnergy() - detector.getThreshold();
+     * ```
+     */
+    getThreshold(): number {
+        return (this.state.averageEnergy * this.thresholdMultiplier) +
+            (this.state.varianceEnergy * 0.5);
+    }
+
+    /**
+     * Gets the largest threshold multiplier at which the most recent frame
+     * would have produced a beat, ignoring the debounce.
+     * 
+     * A frame fires exactly when the multiplier is below this value, so
+     * collecting it over a stretch of audio shows how many beats any multiplier
+     * would have detected there (see BeatCalibrator). In spectral-flux mode it is
+     * the largest value across the bands.
+     * 
+     * @returns Multiplier, or 0 if no multiplier would have fired
+     */
+    getTriggerMultiplier(): number {
+        return this.lastTriggerMultiplier;
+    }
+
+    /**
+     * Gets the current threshold multiplier and debounce.
+     * 
+     * @returns Copy of the sensitivity settings
+     */
+    getSensitivity(): DetectionSensitivity {
+        return { thresholdMultiplier: this.thresholdMultiplier, debounceMs: this.debounceMs };
+    }
+
+    /**
+     * Changes the threshold multiplier and/or debounce without clearing history.
+     * Takes effect from the next frame.
+     * 
+     * @param sensitivity - Settings to change; omitted settings keep their values
+     * 
+     * @example
+     * ```typescript
+     * // A slow track: fewer, more clearly separated beats
+     * detector.setSensitivity({ thresholdMultiplier: 1.6, debounceMs: 300 });
+     * ```
+     */
+    setSensitivity(sensitivity: Partial<DetectionSensitivity>): void {
+        if (sensitivity.thresholdMultiplier !== undefined) {
+            this.thresholdMultiplier = sensitivity.thresholdMultiplier;
+        }
+        if (sensitivity.debounceMs !== undefined) {
+            this.debounceMs = sensitivity.debounceMs;
+        }
+    }
+
+    /**
+     * Gets the frequency bands analyzed in spectral-flux mode.
+     * 
+     * @returns Configured bands, in order
+     */
+    getBands(): readonly FrequencyBand[] {
+        return this.bands;
+    }
+
+    /**
+     * Gets the band whose energy drives bass-energy detection.
+     * 
+     * @returns Configured energy band
+     */
+    getEnergyBand(): FrequencyBand {
+        return this.energyBand;
+    }
+
+    /**
+     * Gets the sample rate bands are converted to bins with.
+     * 
+     * @returns Sample rate in Hz
+     */
+    getSampleRate(): number {
+        return this.sampleRate;
+    }
+
+    /**
+     * Gets the active detection strategy.
+     * 
+     * @returns The strategy selected at construction time
+     */
+    getStrategy(): DetectionStrategy {
+        return this.strategy;
     }
 
     /**
@@ -295,10 +873,14 @@ export class BeatDetector {
      */
     reset(): void {
         this.state = {
-            energyHistory: [],
             lastBeatTime: 0,
             averageEnergy: 0,
             varianceEnergy: 0,
         };
+        this.energyWindow.clear();
+        this.bandStates = this.createBandStates();
+        this.previousSpectrum = null;
+        this.lastEnergy = 0;
+        this.lastTriggerMultiplier = 0;
     }
 }
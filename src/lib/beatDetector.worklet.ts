@@ -0,0 +1,150 @@
+/**
+ * Beat Detector Worklet
+ * 
+ * AudioWorklet processor that runs beat detection on the audio thread.
+ * Reproduces the AnalyserNode pipeline (see spectrumAnalysis.ts) on every
+ * hop of samples, feeds the result to BeatDetector and posts beats back to
+ * the main thread. Unlike the
+ * requestAnimationFrame loop, it keeps running in background tabs and is
+ * not delayed by rendering.
+ * 
+ * Loaded with audioWorklet.addModule() through workletAnalysis.ts; never
+ * import this file from main-thread code.
+ * 
+ * @module beatDetector.worklet
+ */
+
+import { BeatDetector } from './beatDetection';
+import { ByteSpectrumAnalyzer } from './spectrumAnalysis';
+import type { BeatDetectorProcessorOptions, WorkletCommand, WorkletMessage } from './workletAnalysis';
+
+// AudioWorkletGlobalScope declarations (not part of the DOM lib)
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+class BeatDetectorProcessor extends AudioWorkletProcessor {
+    private readonly fftSize: number;
+    private readonly hopSize: number;
+    private readonly detector: BeatDetector;
+    private readonly analyzer: ByteSpectrumAnalyzer;
+    private readonly samples: Float32Array;
+    private readonly frame: Float32Array;
+    private readonly frequencyData: Uint8Array;
+    private writeIndex = 0;
+    private samplesSinceHop = 0;
+    private active = true;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const config = options.processorOptions as BeatDetectorProcessorOptions;
+
+        this.fftSize = config.fftSize;
+        this.hopSize = config.hopSize;
+
+        // Keep the history covering the same duration as the 60fps main-thread loop
+        const hopMs = (this.hopSize / sampleRate) * 1000;
+        const historyFrames = Math.max(1, Math.round((config.historySize * (1000 / 60)) / hopMs));
+        this.detector = new BeatDetector(historyFrames, config.thresholdMultiplier, config.debounceMs, {
+            strategy: config.strategy,
+            bands: config.bands,
+            energyBand: config.energyBand,
+            sampleRate,
+        });
+
+        this.analyzer = new ByteSpectrumAnalyzer({
+            fftSize: this.fftSize,
+            smoothingTimeConstant: config.smoothingTimeConstant,
+            minDecibels: config.minDecibels,
+            maxDecibels: config.maxDecibels,
+        });
+        this.samples = new Float32Array(this.fftSize);
+        this.frame = new Float32Array(this.fftSize);
+        this.frequencyData = new Uint8Array(this.fftSize / 2);
+
+        this.port.onmessage = (event: MessageEvent<WorkletCommand>) => {
+            this.handleCommand(event.data);
+        };
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channels = inputs[0];
+        if (!channels || channels.length === 0) {
+            return true;
+        }
+
+        const blockLength = channels[0].length;
+        const channelCount = channels.length;
+
+        for (let i = 0; i < blockLength; i++) {
+            // Mix down to mono
+            let sample = 0;
+            for (let c = 0; c < channelCount; c++) {
+                sample += channels[c][i];
+            }
+            this.samples[this.writeIndex] = sample / channelCount;
+            this.writeIndex = (this.writeIndex + 1) % this.fftSize;
+
+            if (++this.samplesSinceHop >= this.hopSize) {
+                this.samplesSinceHop = 0;
+                if (this.active) {
+                    this.analyzeFrame(currentTime + (i + 1) / sampleRate);
+                }
+            }
+        }
+
+        // Keep the processor alive while the node exists
+        return true;
+    }
+
+    private handleCommand(command: WorkletCommand): void {
+        switch (command.type) {
+            case 'reset':
+                this.detector.reset();
+                this.analyzer.reset();
+                break;
+            case 'active':
+                this.active = command.active;
+                break;
+            case 'sensitivity':
+                this.detector.setSensitivity(command.sensitivity);
+                break;
+        }
+    }
+
+    private analyzeFrame(time: number): void {
+        const { fftSize, frame, frequencyData } = this;
+
+        // Oldest sample first
+        for (let i = 0; i < fftSize; i++) {
+            frame[i] = this.samples[(this.writeIndex + i) % fftSize];
+        }
+        this.analyzer.getByteFrequencyData(frame, frequencyData);
+
+        const result = this.detector.detectOnset(frequencyData, time * 1000);
+
+        const state: WorkletMessage = {
+            type: 'state',
+            energy: this.detector.getEnergy(),
+            threshold: this.detector.getThreshold(),
+            triggerMultiplier: this.detector.getTriggerMultiplier(),
+            time,
+        };
+        this.port.postMessage(state);
+
+        if (result !== null) {
+            const beat: WorkletMessage = { type: 'beat', strength: result.strength, bands: result.bands, time };
+            this.port.postMessage(beat);
+        }
+    }
+}
+
+// Must match BEAT_DETECTOR_PROCESSOR_NAME in workletAnalysis.ts
+registerProcessor('beat-detector', BeatDetectorProcessor);
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { resolveAnalysisConfig } from './beatMap';
+import { computeSpectrumFrames, DEFAULT_BEAT_TOLERANCE_MS, detectBeatsInFrames, evaluateBeats } from './beatEvaluation';
+import { generatePcm } from './syntheticSignals';
+
+describe('evaluateBeats', () => {
+    it('scores partial matches', () => {
+        const result = evaluateBeats([100, 520, 990, 1600], [0, 500, 1000, 1500]);
+        expect(result).toEqual({
+            precision: 0.5,
+            recall: 0.5,
+            fMeasure: 0.5,
+            meanOffsetMs: 5,
+            truePositives: 2,
+            falsePositives: 2,
+            falseNegatives: 2,
+        });
+    });
+
+    it('matches each detection to at most one reference beat', () => {
+        // 25 lies within the tolerance of both references
+        const result = evaluateBeats([25], [0, 60]);
+        expect(result.truePositives).toBe(1);
+        expect(result.falseNegatives).toBe(1);
+        expect(result.meanOffsetMs).toBe(25);
+    });
+
+    it('matches each reference beat to at most one detection', () => {
+        const result = evaluateBeats([-20, 10, 40], [0]);
+        expect(result.truePositives).toBe(1);
+        expect(result.falsePositives).toBe(2);
+        expect(result.meanOffsetMs).toBe(10);
+    });
+
+    it('pairs the closest detection and reference beat first', () => {
+        // 45 is in range of the beat at 0 but closer to the one at 50
+        const result = evaluateBeats([45, 60], [0, 50]);
+        expect(result.truePositives).toBe(2);
+        expect(result.meanOffsetMs).toBe((-5 + 60) / 2);
+    });
+
+    it('counts detections exactly at the tolerance as hits', () => {
+        const tolerance = DEFAULT_BEAT_TOLERANCE_MS;
+        expect(evaluateBeats([1000 - tolerance], [1000]).truePositives).toBe(1);
+        expect(evaluateBeats([1000 + tolerance], [1000]).truePositives).toBe(1);
+        expect(evaluateBeats([1000 - tolerance - 1], [1000]).truePositives).toBe(0);
+        expect(evaluateBeats([1000 + tolerance + 1], [1000]).truePositives).toBe(0);
+    });
+
+    it('honors a custom tolerance', () => {
+        expect(evaluateBeats([1020], [1000], 20).truePositives).toBe(1);
+        expect(evaluateBeats([1021], [1000], 20).truePositives).toBe(0);
+    });
+
+    it('scores zero without detections', () => {
+        expect(evaluateBeats([], [0, 500])).toEqual({
+            precision: 0,
+            recall: 0,
+            fMeasure: 0,
+            meanOffsetMs: null,
+            truePositives: 0,
+            falsePositives: 0,
+            falseNegatives: 2,
+        });
+    });
+
+    it('scores zero without reference beats', () => {
+        expect(evaluateBeats([0, 500], [])).toEqual({
+            precision: 0,
+            recall: 0,
+            fMeasure: 0,
+            meanOffsetMs: null,
+            truePositives: 0,
+            falsePositives: 2,
+            falseNegatives: 0,
+        });
+    });
+
+    it('scores zero when both lists are empty', () => {
+        const result = evaluateBeats([], []);
+        expect(result.fMeasure).toBe(0);
+        expect(result.meanOffsetMs).toBeNull();
+    });
+});
+
+describe('offline pipeline', () => {
+    it('finds the kicks of a synthetic track', () => {
+        const { samples, sampleRate, onsets } = generatePcm({ durationMs: 10000, bpm: 120, sampleRate: 44100 });
+        const config = resolveAnalysisConfig({ thresholdMultiplier: 1.1, debounceMs: 250 });
+
+        const spectra = computeSpectrumFrames(samples, sampleRate, config);
+        expect(spectra.frames).toHaveLength(10 * config.frameRate - 1);
+        expect(spectra.frames[0]).toHaveLength(config.fftSize / 2);
+
+        const result = evaluateBeats(detectBeatsInFrames(spectra, config), onsets);
+        expect(result.fMeasure).toBeGreaterThan(0.9);
+        expect(Math.abs(result.meanOffsetMs ?? Infinity)).toBeLessThan(DEFAULT_BEAT_TOLERANCE_MS);
+    });
+});
@@ -0,0 +1,197 @@
+/**
+ * Beat Evaluation Module
+ * 
+ * Measures how well the beat detector finds annotated beats. Decoded audio is
+ * turned into the same byte spectra an AnalyserNode would report, frame by
+ * frame (see spectrumAnalysis.ts), and fed to BeatDetector exactly as offline
+ * analysis does; the detections are then scored against reference beat times
+ * with the usual beat-tracking metrics (precision, recall, F-measure within a
+ * tolerance window). Runs without Web Audio, so it works in Node as well as in tests.
+ * 
+ * @module beatEvaluation
+ */
+
+import { BeatDetector } from './beatDetection';
+import { BeatMapAnalysisConfig } from './beatMap';
+import { ByteSpectrumAnalyzer } from './spectrumAnalysis';
+
+/**
+ * Settings that determine the spectra of a track. Detection settings can be
+ * varied over the same spectra without recomputing them.
+ */
+export type SpectrumConfig = Pick<BeatMapAnalysisConfig, 'fftSize' | 'smoothingTimeConstant' | 'frameRate'>;
+
+/**
+ * Analyser frames of a track.
+ */
+export interface SpectrumFrames {
+    /** Byte frequency data of each frame, as from AnalyserNode.getByteFrequencyData() */
+    frames: Uint8Array[];
+
+    /** Time of each frame in milliseconds */
+    timestamps: number[];
+
+    /** Sample rate of the analyzed audio */
+    sampleRate: number;
+}
+
+/**
+ * Scores of detected beats against reference beats.
+ */
+export interface BeatEvaluation {
+    /** Fraction of detections that match a reference beat (0-1) */
+    precision: number;
+
+    /** Fraction of reference beats that were detected (0-1) */
+    recall: number;
+
+    /** Harmonic mean of precision and recall (0-1) */
+    fMeasure: number;
+
+    /**
+     * Average of detection time minus reference time over matched beats, in
+     * milliseconds. Positive when detections come late; null without matches.
+     */
+    meanOffsetMs: number | null;
+
+    /** Detections matched to a reference beat */
+    truePositives: number;
+
+    /** Detections without a reference beat */
+    falsePositives: number;
+
+    /** Reference beats that were not detected */
+    falseNegatives: number;
+}
+
+/**
+ * Default tolerance window for a detection to count as a hit: ±70 ms, the
+ * MIREX beat-tracking convention.
+ */
+export const DEFAULT_BEAT_TOLERANCE_MS = 70;
+
+/**
+ * Computes the analyser frames of a track at the configured frame rate.
+ * 
+ * @param samples - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param config - FFT size, smoothing and frame rate
+ * @returns One frame per analysis step, starting one step into the audio like offline analysis
+ * 
+ * @example
+ * ```typescript
+ * const spectra = computeSpectrumFrames(samples, 44100, resolveAnalysisConfig());
+ * ```
+ */
+export function computeSpectrumFrames(samples: Float32Array, sampleRate: number, config: SpectrumConfig): SpectrumFrames {
+    const analyzer = new ByteSpectrumAnalyzer(config);
+    const block = new Float32Array(config.fftSize);
+    const duration = samples.length / sampleRate;
+    const frameCount = Math.floor(duration * config.frameRate);
+    const frames: Uint8Array[] = [];
+    const timestamps: number[] = [];
+
+    for (let frame = 1; frame < frameCount; frame++) {
+        const time = frame / config.frameRate;
+        // The fftSize samples before the frame's time; samples before the start are silence
+        const end = Math.round(time * sampleRate);
+        const start = end - config.fftSize;
+        block.fill(0);
+        block.set(samples.subarray(Math.max(0, start), Math.min(end, samples.length)), Math.max(0, -start));
+
+        const data = new Uint8Array(config.fftSize / 2);
+        analyzer.getByteFrequencyData(block, data);
+        frames.push(data);
+        timestamps.push(time * 1000);
+    }
+
+    return { frames, timestamps, sampleRate };
+}
+
+/**
+ * Runs the beat detector over precomputed frames.
+ * 
+ * @param spectra - Frames of a track
+ * @param config - Detector settings
+ * @returns Times of detected beats in milliseconds
+ */
+export function detectBeatsInFrames(
+    spectra: SpectrumFrames,
+    config: Pick<BeatMapAnalysisConfig, 'historySize' | 'thresholdMultiplier' | 'debounceMs' | 'strategy' | 'bands'>
+): number[] {
+    const detector = new BeatDetector(
+        config.historySize,
+        config.thresholdMultiplier,
+        config.debounceMs,
+        { strategy: config.strategy, bands: config.bands, sampleRate: spectra.sampleRate }
+    );
+
+    const beats: number[] = [];
+    spectra.frames.forEach((frame, i) => {
+        const timestamp = spectra.timestamps[i];
+        if (detector.detectOnset(frame, timestamp) !== null) {
+            beats.push(timestamp);
+        }
+    });
+    return beats;
+}
+
+/**
+ * Scores detected beats against reference beats.
+ * 
+ * Each reference beat is matched to at most one detection within the
+ * tolerance, and each detection to at most one reference beat, closest first.
+ * 
+ * @param detected - Detected beat times in milliseconds, ascending
+ * @param reference - Annotated beat times in milliseconds, ascending
+ * @param toleranceMs - Largest distance at which a detection counts as a hit
+ * @returns Precision, recall, F-measure and mean offset
+ * 
+ * @example
+ * ```typescript
+ * const { fMeasure, meanOffsetMs } = evaluateBeats(detectBeatsInFrames(spectra, config), annotations);
+ * ```
+ */
+export function evaluateBeats(
+    detected: readonly number[],
+    reference: readonly number[],
+    toleranceMs: number = DEFAULT_BEAT_TOLERANCE_MS
+): BeatEvaluation {
+    const candidates: { detection: number; annotation: number; distance: number }[] = [];
+    let first = 0;
+    reference.forEach((time, annotation) => {
+        while (first < detected.length && detected[first] < time - toleranceMs) {
+            first++;
+        }
+        for (let detection = first; detection < detected.length && detected[detection] <= time + toleranceMs; detection++) {
+            candidates.push({ detection, annotation, distance: Math.abs(detected[detection] - time) });
+        }
+    });
+    candidates.sort((a, b) => a.distance - b.distance);
+
+    const usedDetections = new Set<number>();
+    const usedAnnotations = new Set<number>();
+    let offsetSum = 0;
+    candidates.forEach(({ detection, annotation }) => {
+        if (usedDetections.has(detection) || usedAnnotations.has(annotation)) {
+            return;
+        }
+        usedDetections.add(detection);
+        usedAnnotations.add(annotation);
+        offsetSum += detected[detection] - reference[annotation];
+    });
+
+    const truePositives = usedDetections.size;
+    const precision = detected.length > 0 ? truePositives / detected.length : 0;
+    const recall = reference.length > 0 ? truePositives / reference.length : 0;
+
+    return {
+        precision,
+        recall,
+        fMeasure: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+        meanOffsetMs: truePositives > 0 ? offsetSum / truePositives : null,
+        truePositives,
+        falsePositives: detected.length - truePositives,
+        falseNegatives: reference.length - truePositives,
+    };
+}
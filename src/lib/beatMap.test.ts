@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { analyzeAudioBuffer } from './beatMap';
+import { evaluateBeats } from './beatEvaluation';
+import { clickTrack, FakeOfflineAudioController, getClickTimes, installFakeOfflineAudio } from '../test/fakeWebAudio';
+
+const SAMPLE_RATE = 44100;
+const DURATION_MS = 10000;
+const CLICKS = { bpm: 120, offsetMs: 250 };
+
+describe('analyzeAudioBuffer', () => {
+    let offline: FakeOfflineAudioController;
+    let buffer: AudioBuffer;
+
+    beforeEach(() => {
+        offline = installFakeOfflineAudio();
+        buffer = new OfflineAudioContext(1, 1, SAMPLE_RATE).createBuffer(1, (DURATION_MS / 1000) * SAMPLE_RATE, SAMPLE_RATE);
+        offline.setBufferScript(buffer, clickTrack(CLICKS));
+    });
+
+    afterEach(() => {
+        offline.uninstall();
+    });
+
+    const getBeatTimes = (beatMap: { beats: { time: number }[] }) => beatMap.beats.map(beat => beat.time * 1000);
+
+    it('finds the beats of a click track', async () => {
+        const beatMap = await analyzeAudioBuffer(buffer);
+
+        expect(evaluateBeats(getBeatTimes(beatMap), getClickTimes(CLICKS, DURATION_MS)).fMeasure).toBeGreaterThan(0.9);
+        expect(beatMap.tempo).toBeCloseTo(120, 0);
+        expect(beatMap.duration).toBe(DURATION_MS / 1000);
+    });
+
+    it('analyzes at most one frame per render quantum', async () => {
+        const beatMap = await analyzeAudioBuffer(buffer, { frameRate: 1000 });
+
+        // Frames faster than render quanta would collide and be rejected
+        expect(evaluateBeats(getBeatTimes(beatMap), getClickTimes(CLICKS, DURATION_MS)).fMeasure).toBeGreaterThan(0.9);
+    });
+
+    it('rejects when reading a frame fails, after rendering to the end', async () => {
+        const script = clickTrack(CLICKS);
+        offline.setBufferScript(buffer, (timeMs, bins, sampleRate) => {
+            if (timeMs > 5000) {
+                throw new Error('Analyser failed');
+            }
+            script(timeMs, bins, sampleRate);
+        });
+
+        await expect(analyzeAudioBuffer(buffer)).rejects.toThrow('Analyser failed');
+        expect(offline.contexts[1].state).toBe('closed');
+    });
+
+    it('rejects with an AbortError when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(analyzeAudioBuffer(buffer, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,616 @@
+/**
+ * Beat Map Module
+ * 
+ * Precomputes beats for a whole track before playback. The track is decoded
+ * and rendered through an OfflineAudioContext with the same AnalyserNode and
+ * BeatDetector pipeline used for live analysis, producing a serializable beat
+ * map (timestamps, strengths and tempo). A BeatMapPlayer then replays the map
+ * in sync with the playback position of an audio element, and BeatMapSource
+ * exposes that playback as a beat source.
+ * 
+ * @module beatMap
+ */
+
+import { BeatDetector, DEFAULT_FREQUENCY_BANDS, DetectionStrategy, FrequencyBand } from './beatDetection';
+import { TempoTracker } from './tempoEstimation';
+import { BaseBeatSource } from './beatSource';
+import { classifyOnset } from './percussion';
+
+/**
+ * Format version of serialized beat maps.
+ * Bump when the BeatMap shape or the analysis pipeline changes meaningfully.
+ */
+export const BEAT_MAP_VERSION = 1;
+
+// Frames per render quantum; an OfflineAudioContext suspends at most once per quantum
+const RENDER_QUANTUM_SIZE = 128;
+
+/**
+ * A single beat in a beat map.
+ */
+export interface BeatMapEntry {
+    /** Position of the beat in the track, in seconds */
+    time: number;
+
+    /** Beat intensity (0-1) */
+    strength: number;
+
+    /** Frequency bands that fired for this beat */
+    bands: string[];
+}
+
+/**
+ * Precomputed beats and tempo for a track.
+ * 
+ * Plain data only, so it can be stored with JSON.stringify().
+ * 
+ * @example
+ * ```typescript
+ * const beatMap: BeatMap = {
+ *   version: 1,
+ *   duration: 30,
+ *   tempo: 101.2,
+ *   tempoConfidence: 0.72,
+ *   beats: [{ time: 0.41, strength: 0.8, bands: ['sub', 'low'] }],
+ * };
+ * ```
+ */
+export interface BeatMap {
+    /** Beat map format version (see BEAT_MAP_VERSION) */
+    version: number;
+
+    /** Track duration in seconds */
+    duration: number;
+
+    /** Estimated tempo over the whole track in BPM, null if none was found */
+    tempo: number | null;
+
+    /** Confidence of the tempo estimate (0-1) */
+    tempoConfidence: number;
+
+    /** Detected beats in chronological order */
+    beats: BeatMapEntry[];
+}
+
+/**
+ * Settings for offline analysis.
+ * 
+ * Defaults match the live AudioAnalysisProvider so offline and live
+ * analysis find the same beats.
+ */
+export interface OfflineAnalysisOptions {
+    /** @default 2048 */
+    fftSize?: number;
+
+    /** @default 0.8 */
+    smoothingTimeConstant?: number;
+
+    /**
+     * Analysis frames per second of audio. Matches the live rAF loop.
+     * Capped at one frame per render quantum (sampleRate / 128), the finest
+     * step an OfflineAudioContext can suspend at.
+     * 
+     * @default 60
+     */
+    frameRate?: number;
+
+    /** @default 60 */
+    historySize?: number;
+
+    /** @default 1.3 */
+    thresholdMultiplier?: number;
+
+    /** @default 100 */
+    debounceMs?: number;
+
+    /** @default 'bass-energy' */
+    strategy?: DetectionStrategy;
+
+    /** @default DEFAULT_FREQUENCY_BANDS */
+    bands?: readonly FrequencyBand[];
+
+    /** Aborts fetching, decoding or analysis */
+    signal?: AbortSignal;
+}
+
+/**
+ * Fully resolved analysis settings that determine which beats are found.
+ * 
+ * Two beat maps produced with equal configurations are interchangeable,
+ * which is what the beat map cache relies on.
+ */
+export type BeatMapAnalysisConfig = Required<Omit<OfflineAnalysisOptions, 'signal'>>;
+
+/**
+ * Fills in defaults for analysis settings.
+ * 
+ * @param options - Partial analysis settings
+ * @returns Complete analysis configuration (without the abort signal)
+ * 
+ * @example
+ * ```typescript
+ * const config = resolveAnalysisConfig({ thresholdMultiplier: 1.4 });
+ * // { fftSize: 2048, smoothingTimeConstant: 0.8, frameRate: 60, historySize: 60, ... }
+ * ```
+ */
+export function resolveAnalysisConfig(options: OfflineAnalysisOptions = {}): BeatMapAnalysisConfig {
+    return {
+        fftSize: options.fftSize ?? 2048,
+        smoothingTimeConstant: options.smoothingTimeConstant ?? 0.8,
+        frameRate: options.frameRate ?? 60,
+        historySize: options.historySize ?? 60,
+        thresholdMultiplier: options.thresholdMultiplier ?? 1.3,
+        debounceMs: options.debounceMs ?? 100,
+        strategy: options.strategy ?? 'bass-energy',
+        bands: options.bands ?? DEFAULT_FREQUENCY_BANDS,
+    };
+}
+
+/**
+ * Checks whether offline analysis is available in the current environment.
+ * 
+ * @returns True if OfflineAudioContext exists
+ */
+export function isOfflineAnalysisSupported(): boolean {
+    return typeof OfflineAudioContext !== 'undefined';
+}
+
+/**
+ * Decodes compressed audio data (MP3, AAC, WAV, ...) into an AudioBuffer.
+ * 
+ * @param data - Encoded audio file contents
+ * @returns Decoded audio buffer
+ * @throws Error if OfflineAudioContext is unavailable or decoding fails
+ */
+export async function decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+    if (!isOfflineAnalysisSupported()) {
+        throw new Error('OfflineAudioContext is not supported in this browser');
+    }
+
+    // Any context can decode; a one-sample offline context avoids touching audio hardware
+    const decoder = new OfflineAudioContext(1, 1, 44100);
+    return decoder.decodeAudioData(data);
+}
+
+/**
+ * Runs the beat detection pipeline over a decoded buffer.
+ * 
+ * Renders the buffer through an OfflineAudioContext, suspending rendering at
+ * every analysis frame to read the AnalyserNode and feed BeatDetector, exactly
+ * as the live loop does once per animation frame.
+ * 
+ * @param buffer - Decoded audio
+ * @param options - Analysis settings
+ * @returns Beat map for the buffer
+ * @throws Error if rendering or reading a frame fails, or an AbortError when aborted
+ * 
+ * @example
+ * ```typescript
+ * const buffer = await decodeAudio(await file.arrayBuffer());
+ * const beatMap = await analyzeAudioBuffer(buffer, { strategy: 'spectral-flux' });
+ * console.log(`${beatMap.beats.length} beats at ${beatMap.tempo} BPM`);
+ * ```
+ */
+export async function analyzeAudioBuffer(
+    buffer: AudioBuffer,
+    options: OfflineAnalysisOptions = {}
+): Promise<BeatMap> {
+    if (!isOfflineAnalysisSupported()) {
+        throw new Error('OfflineAudioContext is not supported in this browser');
+    }
+
+    const config = resolveAnalysisConfig(options);
+    const frameRate = Math.min(config.frameRate, buffer.sampleRate / RENDER_QUANTUM_SIZE);
+    const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+
+    const analyser = context.createAnalyser();
+    analyser.fftSize = config.fftSize;
+    analyser.smoothingTimeConstant = config.smoothingTimeConstant;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(analyser);
+    analyser.connect(context.destination);
+
+    const detector = new BeatDetector(
+        config.historySize,
+        config.thresholdMultiplier,
+        config.debounceMs,
+        { strategy: config.strategy, bands: config.bands, sampleRate: buffer.sampleRate }
+    );
+
+    // Tempo over the whole track rather than a sliding window
+    const tempoTracker = new TempoTracker({ windowMs: buffer.duration * 1000 + 1 });
+    const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+    const beats: BeatMapEntry[] = [];
+
+    // Rendering goes on past a failed frame, so the first failure is kept and thrown once it has finished
+    let failure: unknown = null;
+    const fail = (err: unknown) => {
+        failure ??= err;
+    };
+
+    // Schedule a suspension at every frame; suspend() cannot target the end of the buffer
+    const frameCount = Math.floor(buffer.duration * frameRate);
+    for (let frame = 1; frame < frameCount; frame++) {
+        const time = frame / frameRate;
+        // Half a sample into the frame, so rounding cannot move it into the previous quantum
+        const suspendTime = (Math.round(time * buffer.sampleRate) + 0.5) / buffer.sampleRate;
+        context.suspend(suspendTime).then(() => {
+            try {
+                if (!options.signal?.aborted && failure === null) {
+                    analyser.getByteFrequencyData(frequencyData);
+
+                    const timestamp = time * 1000;
+                    const result = detector.detectOnset(frequencyData, timestamp);
+                    if (result !== null) {
+                        beats.push({ time, strength: result.strength, bands: result.bands });
+                        tempoTracker.addOnset(timestamp, result.strength);
+                    }
+                }
+            } finally {
+                // Rendering stays suspended until resumed, whatever happened to the frame
+                context.resume().catch(fail);
+            }
+        }).catch(fail);
+    }
+
+    source.start(0);
+    await context.startRendering();
+
+    if (options.signal?.aborted) {
+        throw new DOMException('Beat map analysis was aborted', 'AbortError');
+    }
+    if (failure !== null) {
+        throw failure;
+    }
+
+    const tempo = tempoTracker.getEstimate();
+
+    return {
+        version: BEAT_MAP_VERSION,
+        duration: buffer.duration,
+        tempo: tempo ? tempo.bpm : null,
+        tempoConfidence: tempo ? tempo.confidence : 0,
+        beats,
+    };
+}
+
+/**
+ * Fetches, decodes and analyzes a track.
+ * 
+ * The track URL must allow CORS requests; opaque responses cannot be decoded.
+ * 
+ * @param url - Audio file URL
+ * @param options - Analysis settings
+ * @returns Beat map for the track
+ * @throws Error if fetching, decoding or analysis fails
+ * 
+ * @example
+ * ```typescript
+ * const beatMap = await analyzeTrack('/audio/track.mp3');
+ * const player = new BeatMapPlayer(beatMap);
+ * ```
+ */
+export async function analyzeTrack(url: string, options: OfflineAnalysisOptions = {}): Promise<BeatMap> {
+    const response = await fetch(url, { signal: options.signal });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch audio (${response.status})`);
+    }
+
+    const buffer = await decodeAudio(await response.arrayBuffer());
+    return analyzeAudioBuffer(buffer, options);
+}
+
+/**
+ * Checks that an unknown value is a beat map of the current version.
+ * 
+ * Use before trusting a beat map read from storage or a file.
+ * 
+ * @param value - Parsed JSON value
+ * @returns True if the value is a valid beat map
+ */
+export function isBeatMap(value: unknown): value is BeatMap {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const candidate = value as Partial<BeatMap>;
+    return candidate.version === BEAT_MAP_VERSION &&
+        typeof candidate.duration === 'number' &&
+        (candidate.tempo === null || typeof candidate.tempo === 'number') &&
+        typeof candidate.tempoConfidence === 'number' &&
+        Array.isArray(candidate.beats) &&
+        candidate.beats.every(beat =>
+            typeof beat?.time === 'number' &&
+            typeof beat.strength === 'number' &&
+            Array.isArray(beat.bands)
+        );
+}
+
+/**
+ * BeatMapRecorder class for building a beat map from live analysis.
+ * 
+ * Records beats against the audio element's playback position and tracks how
+ * much of the track was actually heard in order, so a session with seeks or
+ * interruptions does not produce an incomplete beat map.
+ * 
+ * @example
+ * ```typescript
+ * const recorder = new BeatMapRecorder();
+ * 
+ * // Every frame
+ * recorder.advance(audio.currentTime);
+ * if (beatStrength !== null) {
+ *   recorder.recordBeat(audio.currentTime, beatStrength, ['sub', 'low']);
+ * }
+ * 
+ * // When the track ends
+ * const beatMap = recorder.toBeatMap(audio.duration, tempoTracker.getEstimate());
+ * ```
+ */
+export class BeatMapRecorder {
+    private beats: BeatMapEntry[] = [];
+    private lastTime: number | null = null;
+    private coveredSeconds = 0;
+    private readonly maxStepSeconds: number;
+
+    /**
+     * Creates a new BeatMapRecorder instance.
+     * 
+     * @param maxStepSeconds - Largest forward step counted as continuous playback
+     */
+    constructor(maxStepSeconds: number = 0.5) {
+        this.maxStepSeconds = maxStepSeconds;
+    }
+
+    /**
+     * Updates the covered playback time. Call once per analysis frame.
+     * 
+     * @param currentTime - Playback position in seconds
+     */
+    advance(currentTime: number): void {
+        if (this.lastTime !== null) {
+            const step = currentTime - this.lastTime;
+            if (step > 0 && step <= this.maxStepSeconds) {
+                this.coveredSeconds += step;
+            }
+        }
+        this.lastTime = currentTime;
+    }
+
+    /**
+     * Records a detected beat.
+     * 
+     * @param time - Playback position of the beat in seconds
+     * @param strength - Beat strength (0-1)
+     * @param bands - Frequency bands that fired
+     */
+    recordBeat(time: number, strength: number, bands: string[]): void {
+        // Beats recorded after a backwards seek would break chronological order
+        const last = this.beats[this.beats.length - 1];
+        if (last && time <= last.time) {
+            return;
+        }
+        this.beats.push({ time, strength, bands });
+    }
+
+    /**
+     * Fraction of the track heard continuously while recording.
+     * 
+     * @param duration - Track duration in seconds
+     * @returns Coverage (0-1)
+     */
+    getCoverage(duration: number): number {
+        return duration > 0 ? Math.min(1, this.coveredSeconds / duration) : 0;
+    }
+
+    /**
+     * Builds a beat map from the recorded session.
+     * 
+     * @param duration - Track duration in seconds
+     * @param tempo - Tempo estimate at the end of the session
+     * @param minCoverage - Minimum coverage required (0-1)
+     * @returns Beat map, or null if too little of the track was recorded
+     */
+    toBeatMap(
+        duration: number,
+        tempo: { bpm: number; confidence: number } | null,
+        minCoverage: number = 0.9
+    ): BeatMap | null {
+        if (!Number.isFinite(duration) || this.getCoverage(duration) < minCoverage) {
+            return null;
+        }
+
+        return {
+            version: BEAT_MAP_VERSION,
+            duration,
+            tempo: tempo ? tempo.bpm : null,
+            tempoConfidence: tempo ? tempo.confidence : 0,
+            beats: this.beats.slice(),
+        };
+    }
+
+    /**
+     * Discards recorded beats and coverage.
+     */
+    reset(): void {
+        this.beats = [];
+        this.lastTime = null;
+        this.coveredSeconds = 0;
+    }
+}
+
+/**
+ * BeatMapPlayer class for replaying a beat map alongside playback.
+ * 
+ * Call advance() every frame with the audio element's currentTime; it emits
+ * every beat passed since the previous call. Seeks (jumps backwards or far
+ * forwards) reposition the player without emitting the skipped beats.
+ * 
+ * @example
+ * ```typescript
+ * const player = new BeatMapPlayer(beatMap);
+ * 
+ * function frame() {
+ *   player.advance(audio.currentTime, (beat) => pulse(beat.strength));
+ *   requestAnimationFrame(frame);
+ * }
+ * ```
+ */
+export class BeatMapPlayer {
+    private readonly beatMap: BeatMap;
+    private nextIndex = 0;
+    private lastTime: number | null = null;
+    private readonly maxStepSeconds: number;
+
+    /**
+     * Creates a new BeatMapPlayer instance.
+     * 
+     * @param beatMap - Beat map to replay
+     * @param maxStepSeconds - Largest forward jump treated as normal playback rather than a seek
+     */
+    constructor(beatMap: BeatMap, maxStepSeconds: number = 0.5) {
+        this.beatMap = beatMap;
+        this.maxStepSeconds = maxStepSeconds;
+    }
+
+    /**
+     * Gets the beat map being played.
+     * 
+     * @returns The beat map passed to the constructor
+     */
+    getBeatMap(): BeatMap {
+        return this.beatMap;
+    }
+
+    /**
+     * Emits beats between the previous and current playback positions.
+     * 
+     * @param currentTime - Playback position in seconds (e.g. audio.currentTime)
+     * @param onBeat - Called for each beat reached, in order
+     */
+    advance(currentTime: number, onBeat: (beat: BeatMapEntry) => void): void {
+        const beats = this.beatMap.beats;
+        const lastTime = this.lastTime;
+        this.lastTime = currentTime;
+
+        // First call or seek: jump to the position without emitting skipped beats
+        if (lastTime === null || currentTime < lastTime || currentTime - lastTime > this.maxStepSeconds) {
+            this.nextIndex = this.findNextIndex(currentTime);
+            return;
+        }
+
+        while (this.nextIndex < beats.length && beats[this.nextIndex].time <= currentTime) {
+            onBeat(beats[this.nextIndex]);
+            this.nextIndex++;
+        }
+    }
+
+    /**
+     * Forgets the playback position; the next advance() call resynchronizes.
+     */
+    reset(): void {
+        this.nextIndex = 0;
+        this.lastTime = null;
+    }
+
+    /**
+     * Binary search for the first beat strictly after a time.
+     * 
+     * @private
+     */
+    private findNextIndex(time: number): number {
+        const beats = this.beatMap.beats;
+        let lo = 0;
+        let hi = beats.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >>> 1;
+            if (beats[mid].time <= time) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        return lo;
+    }
+}
+
+/**
+ * BeatMapSource class for driving beats from a beat map.
+ * 
+ * Follows a playback clock (typically audio.currentTime) from a
+ * requestAnimationFrame loop and emits the beats it passes.
+ * 
+ * @example
+ * ```typescript
+ * const source = new BeatMapSource(beatMap, () => audio.currentTime);
+ * activateBeatSource(source);
+ * source.start();
+ * ```
+ */
+export class BeatMapSource extends BaseBeatSource {
+    readonly kind = 'beat-map' as const;
+    private readonly player: BeatMapPlayer;
+    private readonly getCurrentTime: () => number;
+    private animationFrameId: number | null = null;
+
+    /**
+     * Creates a new BeatMapSource instance.
+     * 
+     * @param beatMap - Beat map to play
+     * @param getCurrentTime - Returns the playback position in seconds
+     */
+    constructor(beatMap: BeatMap, getCurrentTime: () => number) {
+        super();
+        this.player = new BeatMapPlayer(beatMap);
+        this.getCurrentTime = getCurrentTime;
+    }
+
+    /**
+     * Gets the beat map being played.
+     * 
+     * @returns The beat map passed to the constructor
+     */
+    getBeatMap(): BeatMap {
+        return this.player.getBeatMap();
+    }
+
+    start(): void {
+        if (this.status === 'running') return;
+
+        this.status = 'running';
+        this.player.reset();
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    }
+
+    stop(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        if (this.status === 'running') {
+            this.status = 'stopped';
+        }
+    }
+
+    private tick = (): void => {
+        try {
+            const now = performance.now();
+            const currentTime = this.getCurrentTime();
+            this.player.advance(currentTime, (beat) => {
+                // A beat passed between frames happened slightly before now
+                this.emit(beat.strength, {
+                    kinds: classifyOnset(beat.bands),
+                    bands: beat.bands,
+                    timestamp: now - (currentTime - beat.time) * 1000,
+                });
+            });
+            this.animationFrameId = requestAnimationFrame(this.tick);
+        } catch (err) {
+            console.error('BeatMapSource: Error during playback', err);
+            this.animationFrameId = null;
+            this.status = 'error';
+        }
+    };
+}
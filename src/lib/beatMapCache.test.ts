@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BeatMap, BEAT_MAP_VERSION, resolveAnalysisConfig } from './beatMap';
+import { BeatMapCache, getOrAnalyzeBeatMap, hashDetectorConfig } from './beatMapCache';
+import { createFakeIndexedDB } from '../test/fakeIndexedDB';
+
+const CONFIG_HASH = hashDetectorConfig(resolveAnalysisConfig());
+
+const createBeatMap = (tempo: number): BeatMap => ({
+    version: BEAT_MAP_VERSION,
+    duration: 30,
+    tempo,
+    tempoConfidence: 0.9,
+    beats: [
+        { time: 0.5, strength: 0.8, bands: ['sub', 'low'] },
+        { time: 1, strength: 0.6, bands: ['low'] },
+    ],
+});
+
+describe('BeatMapCache', () => {
+    let indexedDB: IDBFactory;
+
+    beforeEach(() => {
+        indexedDB = createFakeIndexedDB();
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_000_000);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    // Moves the clock on, so entries written next count as more recently used
+    const later = () => vi.setSystemTime(Date.now() + 1000);
+
+    it('misses when nothing is stored', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toBeNull();
+        expect(await cache.size()).toBe(0);
+    });
+
+    it('returns a stored beat map', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toEqual(createBeatMap(120));
+        expect(await cache.get('b.mp3', CONFIG_HASH)).toBeNull();
+    });
+
+    it('replaces the entry of a track', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(128));
+
+        expect((await cache.get('a.mp3', CONFIG_HASH))?.tempo).toBe(128);
+        expect(await cache.size()).toBe(1);
+    });
+
+    it('misses for a different detector configuration', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+
+        const otherHash = hashDetectorConfig(resolveAnalysisConfig({ thresholdMultiplier: 1.5 }));
+        expect(otherHash).not.toBe(CONFIG_HASH);
+        expect(await cache.get('a.mp3', otherHash)).toBeNull();
+        expect(await cache.get('a.mp3', CONFIG_HASH)).not.toBeNull();
+    });
+
+    it('misses for beat maps of another version', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, { ...createBeatMap(120), version: BEAT_MAP_VERSION + 1 });
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toBeNull();
+    });
+
+    it('evicts the least recently stored entries beyond the limit', async () => {
+        const cache = new BeatMapCache({ indexedDB, maxEntries: 2 });
+        for (const url of ['a.mp3', 'b.mp3', 'c.mp3']) {
+            await cache.put(url, CONFIG_HASH, createBeatMap(120));
+            later();
+        }
+
+        expect(await cache.size()).toBe(2);
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toBeNull();
+        expect(await cache.get('b.mp3', CONFIG_HASH)).not.toBeNull();
+        expect(await cache.get('c.mp3', CONFIG_HASH)).not.toBeNull();
+    });
+
+    it('keeps entries that were read recently', async () => {
+        const cache = new BeatMapCache({ indexedDB, maxEntries: 2 });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        later();
+        await cache.put('b.mp3', CONFIG_HASH, createBeatMap(120));
+        later();
+        await cache.get('a.mp3', CONFIG_HASH);
+        later();
+        await cache.put('c.mp3', CONFIG_HASH, createBeatMap(120));
+
+        expect(await cache.get('a.mp3', CONFIG_HASH)).not.toBeNull();
+        expect(await cache.get('b.mp3', CONFIG_HASH)).toBeNull();
+    });
+
+    it('does not refresh entries on a configuration miss', async () => {
+        const cache = new BeatMapCache({ indexedDB, maxEntries: 2 });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        later();
+        await cache.put('b.mp3', CONFIG_HASH, createBeatMap(120));
+        later();
+        await cache.get('a.mp3', 'other');
+        later();
+        await cache.put('c.mp3', CONFIG_HASH, createBeatMap(120));
+
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toBeNull();
+    });
+
+    it('never evicts the entry just stored', async () => {
+        const cache = new BeatMapCache({ indexedDB, maxEntries: 1 });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        // Same timestamp as 'a.mp3' and first in key order, so eviction visits it first
+        await cache.put('0.mp3', CONFIG_HASH, createBeatMap(120));
+
+        expect(await cache.size()).toBe(1);
+        expect(await cache.get('0.mp3', CONFIG_HASH)).not.toBeNull();
+    });
+
+    it('removes one or all entries', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        await cache.put('b.mp3', CONFIG_HASH, createBeatMap(120));
+
+        await cache.invalidate('a.mp3');
+        expect(await cache.get('a.mp3', CONFIG_HASH)).toBeNull();
+        expect(await cache.size()).toBe(1);
+
+        await cache.invalidate();
+        expect(await cache.size()).toBe(0);
+    });
+
+    it('keeps entries across connections', async () => {
+        const cache = new BeatMapCache({ indexedDB });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+        await cache.close();
+
+        expect(await cache.get('a.mp3', CONFIG_HASH)).not.toBeNull();
+        expect(await new BeatMapCache({ indexedDB }).get('a.mp3', CONFIG_HASH)).not.toBeNull();
+        expect(await new BeatMapCache({ indexedDB, dbName: 'other' }).get('a.mp3', CONFIG_HASH)).toBeNull();
+    });
+});
+
+describe('getOrAnalyzeBeatMap', () => {
+    it('returns a cached beat map without analyzing the track', async () => {
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
+        const cache = new BeatMapCache({ indexedDB: createFakeIndexedDB() });
+        await cache.put('a.mp3', CONFIG_HASH, createBeatMap(120));
+
+        expect(await getOrAnalyzeBeatMap('a.mp3', {}, cache)).toEqual(createBeatMap(120));
+        expect(fetchSpy).not.toHaveBeenCalled();
+        fetchSpy.mockRestore();
+    });
+});
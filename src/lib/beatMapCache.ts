@@ -0,0 +1,396 @@
+/**
+ * Beat Map Cache Module
+ * 
+ * Persists beat maps in IndexedDB, keyed by track URL, so a track only has to
+ * be analyzed once. Each entry records the detector configuration hash and the
+ * beat map version it was produced with; entries that do not match the current
+ * configuration are treated as misses. The cache keeps at most a fixed number
+ * of entries and evicts the least recently used ones.
+ * 
+ * @module beatMapCache
+ */
+
+import {
+    analyzeTrack,
+    BeatMap,
+    BeatMapAnalysisConfig,
+    BEAT_MAP_VERSION,
+    isBeatMap,
+    OfflineAnalysisOptions,
+    resolveAnalysisConfig,
+} from './beatMap';
+
+/**
+ * Configuration for the beat map cache.
+ * 
+ * @example
+ * ```typescript
+ * // In tests, pass the in-memory IndexedDB from src/test/fakeIndexedDB.ts
+ * const cache = new BeatMapCache({ indexedDB: createFakeIndexedDB(), maxEntries: 3 });
+ * ```
+ */
+export interface BeatMapCacheOptions {
+    /**
+     * IndexedDB database name.
+     * 
+     * @default 'beat-map-cache'
+     */
+    dbName?: string;
+
+    /**
+     * Maximum number of cached beat maps. Least recently used entries are evicted first.
+     * 
+     * @default 50
+     */
+    maxEntries?: number;
+
+    /**
+     * IndexedDB factory to use. Defaults to the browser's `indexedDB`.
+     * Allows an in-memory stand-in to be injected in tests.
+     */
+    indexedDB?: IDBFactory;
+}
+
+/**
+ * A beat map record as stored in IndexedDB.
+ */
+export interface CachedBeatMapRecord {
+    /** Track URL (primary key) */
+    url: string;
+
+    /** Hash of the detector configuration that produced the beat map */
+    configHash: string;
+
+    /** Beat map format version at the time of storing */
+    version: number;
+
+    /** The cached beat map */
+    beatMap: BeatMap;
+
+    /** Time the entry was stored (ms since epoch) */
+    storedAt: number;
+
+    /** Time the entry was last read or written (ms since epoch), used for LRU eviction */
+    lastAccessed: number;
+}
+
+const STORE_NAME = 'beatMaps';
+const LAST_ACCESSED_INDEX = 'lastAccessed';
+const DB_VERSION = 1;
+
+/**
+ * Hashes a detector configuration into a short stable string.
+ * 
+ * Keys are sorted before hashing so property order does not matter.
+ * Uses 32-bit FNV-1a, which is plenty to tell configurations apart.
+ * 
+ * @param config - Analysis configuration used to produce a beat map
+ * @returns Hex hash string
+ * 
+ * @example
+ * ```typescript
+ * const hash = hashDetectorConfig(resolveAnalysisConfig({ thresholdMultiplier: 1.4 }));
+ * ```
+ */
+export function hashDetectorConfig(config: BeatMapAnalysisConfig): string {
+    const keys = Object.keys(config).sort() as (keyof BeatMapAnalysisConfig)[];
+    const text = keys.map(key => `${key}=${JSON.stringify(config[key])}`).join(';');
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Checks whether IndexedDB is available in the current environment.
+ * 
+ * @returns True if a global indexedDB factory exists
+ */
+export function isBeatMapCacheSupported(): boolean {
+    try {
+        return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch {
+        // Some browsers throw when storage is disabled
+        return false;
+    }
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves when a transaction commits.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * BeatMapCache class for storing beat maps in IndexedDB.
+ * 
+ * All methods are asynchronous and open the database lazily on first use.
+ * 
+ * @example
+ * ```typescript
+ * const cache = new BeatMapCache();
+ * const configHash = hashDetectorConfig(resolveAnalysisConfig());
+ * 
+ * let beatMap = await cache.get(url, configHash);
+ * if (!beatMap) {
+ *   beatMap = await analyzeTrack(url);
+ *   await cache.put(url, configHash, beatMap);
+ * }
+ * ```
+ */
+export class BeatMapCache {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private readonly dbName: string;
+    private readonly maxEntries: number;
+    private readonly factory: IDBFactory | null;
+
+    /**
+     * Creates a new BeatMapCache instance.
+     * 
+     * @param options - Database name, size limit and IndexedDB factory
+     */
+    constructor(options: BeatMapCacheOptions = {}) {
+        this.dbName = options.dbName ?? 'beat-map-cache';
+        this.maxEntries = Math.max(1, options.maxEntries ?? 50);
+        this.factory = options.indexedDB ?? (isBeatMapCacheSupported() ? indexedDB : null);
+    }
+
+    /**
+     * Looks up the beat map for a track.
+     * 
+     * Entries stored with a different configuration hash or beat map version
+     * are misses. A hit refreshes the entry's LRU position.
+     * 
+     * @param url - Track URL
+     * @param configHash - Hash of the current detector configuration
+     * @returns Cached beat map, or null on a miss
+     */
+    async get(url: string, configHash: string): Promise<BeatMap | null> {
+        const db = await this.open();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const done = transactionDone(transaction);
+
+        const record = await requestToPromise<CachedBeatMapRecord | undefined>(store.get(url));
+        let beatMap: BeatMap | null = null;
+
+        if (record && record.configHash === configHash &&
+            record.version === BEAT_MAP_VERSION && isBeatMap(record.beatMap)) {
+            beatMap = record.beatMap;
+            store.put({ ...record, lastAccessed: Date.now() });
+        }
+
+        await done;
+        return beatMap;
+    }
+
+    /**
+     * Stores the beat map for a track, replacing any previous entry.
+     * Evicts least recently used entries beyond the size limit.
+     * 
+     * @param url - Track URL
+     * @param configHash - Hash of the detector configuration that produced the beat map
+     * @param beatMap - Beat map to store
+     */
+    async put(url: string, configHash: string, beatMap: BeatMap): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const done = transactionDone(transaction);
+
+        const now = Date.now();
+        const record: CachedBeatMapRecord = {
+            url,
+            configHash,
+            version: BEAT_MAP_VERSION,
+            beatMap,
+            storedAt: now,
+            lastAccessed: now,
+        };
+        store.put(record);
+
+        // Evict oldest entries, walking the lastAccessed index in ascending order
+        const count = await requestToPromise(store.count());
+        let excess = count - this.maxEntries;
+        if (excess > 0) {
+            const cursorRequest = store.index(LAST_ACCESSED_INDEX).openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || excess <= 0) {
+                    return;
+                }
+                if (cursor.primaryKey !== url) {
+                    cursor.delete();
+                    excess--;
+                }
+                cursor.continue();
+            };
+        }
+
+        await done;
+    }
+
+    /**
+     * Removes cached beat maps.
+     * 
+     * @param url - Track URL to remove; removes every entry when omitted
+     */
+    async invalidate(url?: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const done = transactionDone(transaction);
+
+        if (url === undefined) {
+            store.clear();
+        } else {
+            store.delete(url);
+        }
+
+        await done;
+    }
+
+    /**
+     * Counts cached beat maps.
+     * 
+     * @returns Number of entries in the cache
+     */
+    async size(): Promise<number> {
+        const db = await this.open();
+        const transaction = db.transaction(STORE_NAME, 'readonly');
+        const done = transactionDone(transaction);
+        const count = await requestToPromise(transaction.objectStore(STORE_NAME).count());
+        await done;
+        return count;
+    }
+
+    /**
+     * Closes the database connection. The next call reopens it.
+     */
+    async close(): Promise<void> {
+        if (!this.dbPromise) {
+            return;
+        }
+        const dbPromise = this.dbPromise;
+        this.dbPromise = null;
+        try {
+            (await dbPromise).close();
+        } catch {
+            // Opening failed; nothing to close
+        }
+    }
+
+    /**
+     * Opens (and if needed creates) the database.
+     * 
+     * @private
+     */
+    private open(): Promise<IDBDatabase> {
+        if (this.dbPromise) {
+            return this.dbPromise;
+        }
+
+        const factory = this.factory;
+        if (!factory) {
+            return Promise.reject(new Error('IndexedDB is not supported in this browser'));
+        }
+
+        this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = factory.open(this.dbName, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'url' });
+                    store.createIndex(LAST_ACCESSED_INDEX, 'lastAccessed');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Beat map cache database is blocked by another tab'));
+        });
+
+        // Allow a retry after a failed open
+        this.dbPromise.catch(() => {
+            this.dbPromise = null;
+        });
+
+        return this.dbPromise;
+    }
+}
+
+let defaultCache: BeatMapCache | null = null;
+
+/**
+ * Gets the shared beat map cache used by the audio analysis layer.
+ * 
+ * @returns Shared cache instance, or null when IndexedDB is unavailable
+ */
+export function getDefaultBeatMapCache(): BeatMapCache | null {
+    if (!defaultCache && isBeatMapCacheSupported()) {
+        defaultCache = new BeatMapCache();
+    }
+    return defaultCache;
+}
+
+/**
+ * Returns a track's beat map from the cache, analyzing and caching it on a miss.
+ * 
+ * Cache failures are logged and treated as misses, so a broken IndexedDB never
+ * blocks analysis.
+ * 
+ * @param url - Track URL (must allow CORS for analysis)
+ * @param options - Analysis settings; also determine the cache key
+ * @param cache - Cache to use, or null to always analyze
+ * @returns Beat map for the track
+ * @throws Error if the beat map is not cached and analysis fails
+ * 
+ * @example
+ * ```typescript
+ * const beatMap = await getOrAnalyzeBeatMap(track.previewUrl, { signal }, getDefaultBeatMapCache());
+ * ```
+ */
+export async function getOrAnalyzeBeatMap(
+    url: string,
+    options: OfflineAnalysisOptions = {},
+    cache: BeatMapCache | null = getDefaultBeatMapCache()
+): Promise<BeatMap> {
+    const configHash = hashDetectorConfig(resolveAnalysisConfig(options));
+
+    if (cache) {
+        try {
+            const cached = await cache.get(url, configHash);
+            if (cached) {
+                return cached;
+            }
+        } catch (err) {
+            console.warn('BeatMapCache: Lookup failed, analyzing instead', err);
+        }
+    }
+
+    const beatMap = await analyzeTrack(url, options);
+
+    cache?.put(url, configHash, beatMap).catch((err) => {
+        console.warn('BeatMapCache: Failed to store beat map', err);
+    });
+
+    return beatMap;
+}
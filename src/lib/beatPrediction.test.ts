@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BeatPredictor, PredictedBeat } from './beatPrediction';
+
+const FRAME_MS = 10;
+const PERIOD_MS = 500;
+const LATENCY_MS = 40;
+
+interface Prediction extends PredictedBeat {
+    polledAt: number;
+}
+
+// Polls a predictor every frame, feeding it detections (latency included) as they come due
+function runPredictor(detections: number[], durationMs: number, confidence = 0.9): Prediction[] {
+    const predictor = new BeatPredictor();
+    predictor.setLatency(LATENCY_MS);
+    const predictions: Prediction[] = [];
+    const pending = [...detections];
+
+    for (let now = 0; now <= durationMs; now += FRAME_MS) {
+        while (pending.length > 0 && pending[0] <= now) {
+            predictor.setTempo(60000 / PERIOD_MS, confidence);
+            predictor.observeBeat(pending.shift(), 0.8);
+        }
+        const predicted = predictor.poll(now);
+        if (predicted) {
+            predictions.push({ ...predicted, polledAt: now });
+        }
+    }
+    return predictions;
+}
+
+// Beats heard every PERIOD_MS from `startMs` and detected LATENCY_MS later
+function detectionsOf(startMs: number, count: number, jitter: (i: number) => number = () => 0): number[] {
+    return Array.from({ length: count }, (_, i) => startMs + i * PERIOD_MS + LATENCY_MS + jitter(i));
+}
+
+// Distance from a time to the nearest beat of the grid through `anchorMs`
+function gridError(time: number, anchorMs: number): number {
+    const offset = (((time - anchorMs) % PERIOD_MS) + PERIOD_MS) % PERIOD_MS;
+    return Math.min(offset, PERIOD_MS - offset);
+}
+
+describe('BeatPredictor', () => {
+    it('schedules predicted beats on the tempo grid', () => {
+        const predictions = runPredictor(detectionsOf(1000, 8), 5000);
+
+        // Every grid beat after the first detection is predicted once, at the time it is heard
+        const expected = Array.from({ length: 8 }, (_, i) => 1500 + i * PERIOD_MS);
+        expect(predictions.map(beat => beat.scheduledTime)).toEqual(expected);
+
+        // ...and announced within the lookahead window before that time
+        predictions.forEach(beat => {
+            expect(beat.scheduledTime - beat.polledAt).toBeGreaterThanOrEqual(0);
+            expect(beat.scheduledTime - beat.polledAt).toBeLessThanOrEqual(50);
+        });
+    });
+
+    it('stays on the grid through detection jitter', () => {
+        const jitter = (i: number) => [0, 10, -10, 10, 0, -10, 10, -10, 0, 10][i];
+        const predictions = runPredictor(detectionsOf(1000, 10, jitter), 5500);
+
+        expect(predictions.length).toBeGreaterThanOrEqual(8);
+        predictions.forEach(beat => expect(gridError(beat.scheduledTime, 1000)).toBeLessThanOrEqual(10));
+    });
+
+    it('ignores a stray off-beat detection', () => {
+        const detections = [...detectionsOf(1000, 8)];
+        detections.splice(4, 0, 2750 + LATENCY_MS);
+        const predictions = runPredictor(detections, 5000);
+
+        predictions.forEach(beat => expect(gridError(beat.scheduledTime, 1000)).toBeCloseTo(0, 6));
+    });
+
+    it('moves to a new grid after a run of off-grid detections', () => {
+        // The beat shifts by half a period at 3250
+        const detections = [...detectionsOf(1000, 5), ...detectionsOf(3250, 8)];
+        const predictions = runPredictor(detections, 7500);
+
+        const late = predictions.filter(beat => beat.scheduledTime > 4500);
+        expect(late.length).toBeGreaterThanOrEqual(4);
+        late.forEach(beat => expect(gridError(beat.scheduledTime, 3250)).toBeCloseTo(0, 6));
+    });
+
+    it('stops predicting when detections dry up', () => {
+        const predictions = runPredictor(detectionsOf(1000, 4), 8000);
+
+        // Last beat heard at 2500; predictions continue for four periods at most
+        expect(predictions.length).toBeGreaterThan(0);
+        expect(Math.max(...predictions.map(beat => beat.scheduledTime))).toBeLessThanOrEqual(2500 + 4 * PERIOD_MS);
+    });
+
+    it('does not predict without a confident tempo', () => {
+        expect(runPredictor(detectionsOf(1000, 8), 5000, 0.2)).toEqual([]);
+    });
+});
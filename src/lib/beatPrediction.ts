@@ -0,0 +1,305 @@
+/**
+ * Beat Prediction Module
+ * 
+ * Predicts upcoming beats from the estimated tempo and the phase of recently
+ * detected beats, so visuals can fire when a beat is heard instead of after
+ * the analyser has noticed it. Compensates for analysis delay (FFT window,
+ * analyser smoothing, frame time) and audio output latency.
+ * 
+ * @module beatPrediction
+ */
+
+/**
+ * A beat predicted ahead of time.
+ * 
+ * @example
+ * ```typescript
+ * onPredictedBeat((beat: PredictedBeat) => {
+ *   const delay = beat.scheduledTime - performance.now();
+ *   setTimeout(() => pulse(beat.strength), Math.max(0, delay));
+ * });
+ * ```
+ */
+export interface PredictedBeat {
+    /**
+     * Time at which the beat will be heard, in milliseconds on the
+     * performance.now() clock. Usually slightly in the future.
+     */
+    scheduledTime: number;
+
+    /** Expected beat intensity (0-1), averaged from recent detected beats */
+    strength: number;
+
+    /** Confidence in the prediction (0-1), derived from tempo confidence */
+    confidence: number;
+}
+
+/**
+ * Inputs used to estimate how late beat detection runs behind the audio.
+ * 
+ * Structurally compatible with AudioContext and AnalyserNode so the live
+ * objects can be passed directly.
+ */
+export interface LatencySources {
+    /** Audio context sample rate in Hz */
+    sampleRate: number;
+
+    /** AudioContext.outputLatency in seconds (not available in every browser) */
+    outputLatency?: number;
+
+    /** AudioContext.baseLatency in seconds (not available in every browser) */
+    baseLatency?: number;
+
+    /** AnalyserNode FFT size */
+    fftSize: number;
+
+    /** AnalyserNode smoothing time constant (0-1) */
+    smoothingTimeConstant: number;
+}
+
+/**
+ * Configuration for the beat predictor.
+ */
+export interface BeatPredictorOptions {
+    /**
+     * How far ahead of the scheduled time a beat is emitted, in milliseconds.
+     * Should cover at least one frame so subscribers can render on time.
+     * 
+     * @default 50
+     */
+    lookaheadMs?: number;
+
+    /**
+     * Minimum tempo confidence required before beats are predicted.
+     * 
+     * @default 0.4
+     */
+    minConfidence?: number;
+
+    /**
+     * Number of beat periods to keep predicting after the last detected beat.
+     * Stops predictions from running on through breaks or silence.
+     * 
+     * @default 4
+     */
+    maxExtrapolationBeats?: number;
+}
+
+// Fraction of the phase error applied when a detected beat lands near the grid
+const PHASE_CORRECTION_RATE = 0.3;
+
+// Detected beats within this fraction of a period from the grid correct its phase
+const MAX_PHASE_ERROR = 0.25;
+
+// Consecutive off-grid beats after which the grid is re-anchored
+const MAX_OFF_GRID_BEATS = 3;
+
+// Smoothing factor for the expected beat strength
+const STRENGTH_SMOOTHING = 0.2;
+
+/**
+ * Estimates the delay between a beat being heard and being detected.
+ * 
+ * Detection runs behind the audio graph by half the FFT window, the group delay
+ * of the analyser's exponential smoothing (applied once per frame) and half a
+ * frame on average. The sound itself reaches the listener after the output and
+ * base latency. The result is the offset to subtract from a detection time to
+ * get the time the beat was heard.
+ * 
+ * @param sources - Audio context and analyser settings
+ * @param frameIntervalMs - Average time between analysis frames in milliseconds
+ * @returns Latency in milliseconds (positive when detection lags the audible beat)
+ * 
+ * @example
+ * ```typescript
+ * const latency = estimateDetectionLatency({
+ *   sampleRate: audioContext.sampleRate,
+ *   outputLatency: audioContext.outputLatency,
+ *   baseLatency: audioContext.baseLatency,
+ *   fftSize: analyser.fftSize,
+ *   smoothingTimeConstant: analyser.smoothingTimeConstant,
+ * }, 16.7);
+ * ```
+ */
+export function estimateDetectionLatency(sources: LatencySources, frameIntervalMs: number): number {
+    const windowDelay = sources.sampleRate > 0
+        ? (sources.fftSize / 2 / sources.sampleRate) * 1000
+        : 0;
+
+    // Exponential smoothing y[n] = s*y[n-1] + (1-s)*x[n] delays by s/(1-s) frames
+    const smoothing = Math.max(0, Math.min(0.99, sources.smoothingTimeConstant));
+    const smoothingDelay = (smoothing / (1 - smoothing)) * frameIntervalMs;
+
+    const frameDelay = frameIntervalMs / 2;
+    const outputDelay = ((sources.outputLatency || 0) + (sources.baseLatency || 0)) * 1000;
+
+    return windowDelay + smoothingDelay + frameDelay - outputDelay;
+}
+
+/**
+ * BeatPredictor class for scheduling beats ahead of detection.
+ * 
+ * Keeps a beat grid anchored on latency-corrected detected beats and spaced by
+ * the estimated tempo. Each frame, poll() returns the next grid beat once it is
+ * within the lookahead window.
+ * 
+ * @example
+ * ```typescript
+ * const predictor = new BeatPredictor();
+ * 
+ * function analyzeFrame(now: number) {
+ *   predictor.setLatency(estimateDetectionLatency(sources, 16.7));
+ * 
+ *   const beatStrength = detector.detectBeat(frequencyData, now);
+ *   if (beatStrength !== null) {
+ *     const estimate = tempoTracker.addOnset(now, beatStrength);
+ *     predictor.setTempo(estimate?.bpm ?? null, estimate?.confidence ?? 0);
+ *     predictor.observeBeat(now, beatStrength);
+ *   }
+ * 
+ *   const predicted = predictor.poll(now);
+ *   if (predicted) {
+ *     schedulePulse(predicted.scheduledTime, predicted.strength);
+ *   }
+ * }
+ * ```
+ */
+export class BeatPredictor {
+    private anchorTime: number | null = null;
+    private lastObservedTime: number | null = null;
+    private lastEmittedTime = -Infinity;
+    private offGridBeats = 0;
+    private periodMs: number | null = null;
+    private confidence = 0;
+    private expectedStrength = 0.5;
+    private latencyMs = 0;
+    private readonly lookaheadMs: number;
+    private readonly minConfidence: number;
+    private readonly maxExtrapolationBeats: number;
+
+    /**
+     * Creates a new BeatPredictor instance.
+     * 
+     * @param options - Lookahead and confidence configuration
+     */
+    constructor(options: BeatPredictorOptions = {}) {
+        this.lookaheadMs = options.lookaheadMs ?? 50;
+        this.minConfidence = options.minConfidence ?? 0.4;
+        this.maxExtrapolationBeats = options.maxExtrapolationBeats ?? 4;
+    }
+
+    /**
+     * Sets the detection latency used to correct detected beat times.
+     * 
+     * @param latencyMs - Delay between hearing and detecting a beat (see estimateDetectionLatency)
+     */
+    setLatency(latencyMs: number): void {
+        this.latencyMs = Number.isFinite(latencyMs) ? latencyMs : 0;
+    }
+
+    /**
+     * Gets the detection latency currently applied.
+     * 
+     * @returns Latency in milliseconds
+     */
+    getLatency(): number {
+        return this.latencyMs;
+    }
+
+    /**
+     * Updates the tempo used to space predicted beats.
+     * 
+     * @param bpm - Estimated tempo, or null if unknown
+     * @param confidence - Tempo confidence (0-1)
+     */
+    setTempo(bpm: number | null, confidence: number): void {
+        this.periodMs = bpm !== null && bpm > 0 ? 60000 / bpm : null;
+        this.confidence = Math.max(0, Math.min(1, confidence));
+    }
+
+    /**
+     * Aligns the beat grid with a detected beat.
+     * 
+     * Beats close to the grid nudge its phase; a run of beats far from it re-anchors the grid.
+     * 
+     * @param detectedTime - Time the beat was detected (performance.now() clock)
+     * @param strength - Detected beat strength (0-1)
+     */
+    observeBeat(detectedTime: number, strength: number): void {
+        const heardTime = detectedTime - this.latencyMs;
+        this.lastObservedTime = heardTime;
+        this.expectedStrength += (strength - this.expectedStrength) * STRENGTH_SMOOTHING;
+
+        if (this.anchorTime === null || this.periodMs === null) {
+            this.anchorTime = heardTime;
+            return;
+        }
+
+        const beatsSinceAnchor = Math.round((heardTime - this.anchorTime) / this.periodMs);
+        const gridTime = this.anchorTime + beatsSinceAnchor * this.periodMs;
+        const phaseError = heardTime - gridTime;
+
+        if (Math.abs(phaseError) <= this.periodMs * MAX_PHASE_ERROR) {
+            this.anchorTime = gridTime + phaseError * PHASE_CORRECTION_RATE;
+            this.offGridBeats = 0;
+        } else if (++this.offGridBeats >= MAX_OFF_GRID_BEATS) {
+            // Off-beat onsets (hats, syncopation) are expected now and then;
+            // only a run of them means the grid has lost the phase
+            this.anchorTime = heardTime;
+            this.offGridBeats = 0;
+        }
+    }
+
+    /**
+     * Returns the next predicted beat once it falls within the lookahead window.
+     * 
+     * Call once per frame. Each grid beat is returned at most once.
+     * 
+     * @param now - Current time in milliseconds (performance.now() clock)
+     * @returns Predicted beat to schedule, or null if none is due
+     */
+    poll(now: number): PredictedBeat | null {
+        if (this.anchorTime === null || this.periodMs === null || this.lastObservedTime === null) {
+            return null;
+        }
+        if (this.confidence < this.minConfidence) {
+            return null;
+        }
+
+        // Stop extrapolating when detected beats have dried up
+        if (now - this.lastObservedTime > this.periodMs * this.maxExtrapolationBeats) {
+            return null;
+        }
+
+        // Next grid beat that has not been emitted yet (half a period of slack
+        // so a phase nudge cannot emit the same beat twice)
+        const earliest = Math.max(now, this.lastEmittedTime + this.periodMs / 2);
+        const beatsAhead = Math.ceil((earliest - this.anchorTime) / this.periodMs);
+        const nextBeatTime = this.anchorTime + beatsAhead * this.periodMs;
+
+        if (nextBeatTime - now > this.lookaheadMs) {
+            return null;
+        }
+
+        this.lastEmittedTime = nextBeatTime;
+
+        return {
+            scheduledTime: nextBeatTime,
+            strength: this.expectedStrength,
+            confidence: this.confidence,
+        };
+    }
+
+    /**
+     * Clears the beat grid and tempo. Call when switching audio sources.
+     */
+    reset(): void {
+        this.anchorTime = null;
+        this.lastObservedTime = null;
+        this.lastEmittedTime = -Infinity;
+        this.offGridBeats = 0;
+        this.periodMs = null;
+        this.confidence = 0;
+        this.expectedStrength = 0.5;
+    }
+}
@@ -0,0 +1,265 @@
+/**
+ * Beat Source Module
+ * 
+ * Defines the common interface for everything that produces beats: live audio
+ * analysis, the BPM metronome, beat map playback and replay. The audio analysis
+ * provider manages one active source at a time and forwards its beats to every
+ * onBeat subscriber, so consumers do not care where beats come from.
+ * 
+ * @module beatSource
+ */
+
+import type { BarPosition } from './barTracking';
+import type { LiveAnalysisFrameListener } from './liveAnalysisSource';
+import { PercussionKind } from './percussion';
+
+/**
+ * Kind of beat source, for display and debugging.
+ */
+export type BeatSourceKind = 'live' | 'metronome' | 'beat-map' | 'replay';
+
+/**
+ * Lifecycle status of a beat source.
+ * 
+ * - 'idle': created, never started
+ * - 'running': producing beats
+ * - 'stopped': stopped after running
+ * - 'error': stopped because of an error
+ */
+export type BeatSourceStatus = 'idle' | 'running' | 'stopped' | 'error';
+
+/**
+ * What a source knows about a beat besides its strength.
+ */
+export interface BeatDetails {
+    /** Percussion classes of the beat (sources without spectral data report 'kick') */
+    kinds: readonly PercussionKind[];
+
+    /** Names of the frequency bands that fired, empty if unknown */
+    bands: readonly string[];
+
+    /**
+     * Position of the beat in its bar, for sources that know it (e.g. the metronome).
+     * When omitted, the audio analysis provider infers it from the beats.
+     */
+    bar?: Readonly<BarPosition>;
+
+    /**
+     * Time of the beat in milliseconds (performance.now() clock), for sources that
+     * know when it happened rather than just when they noticed it. When omitted,
+     * the audio analysis provider uses the time the beat was emitted.
+     */
+    timestamp?: number;
+}
+
+/**
+ * Details used for beats from sources that have no spectral information.
+ */
+export const GENERIC_BEAT_DETAILS: BeatDetails = { kinds: ['kick'], bands: [] };
+
+/**
+ * Listener invoked for every beat a source produces.
+ * 
+ * @param beatStrength - Normalized beat intensity (0-1)
+ * @param details - Percussion classes and bands of the beat
+ */
+export type BeatSourceListener = (beatStrength: number, details: BeatDetails) => void;
+
+/**
+ * Common interface for beat producers.
+ * 
+ * @example
+ * ```typescript
+ * const source: BeatSource = new FakeBeatDetector(120);
+ * const unsubscribe = source.subscribe((strength) => pulse(strength));
+ * source.start();
+ * console.log(source.kind, source.getStatus()); // 'metronome' 'running'
+ * ```
+ */
+export interface BeatSource {
+    /** Kind of source */
+    readonly kind: BeatSourceKind;
+
+    /** Starts producing beats. Calling start() on a running source does nothing. */
+    start(): void;
+
+    /** Stops producing beats. Subscriptions are kept. */
+    stop(): void;
+
+    /**
+     * Registers a listener for beats.
+     * 
+     * @param listener - Called with each beat's strength
+     * @returns Cleanup function to unsubscribe the listener
+     */
+    subscribe(listener: BeatSourceListener): () => void;
+
+    /** Current lifecycle status */
+    getStatus(): BeatSourceStatus;
+
+    /**
+     * Delay between a beat being heard and the source emitting it, in milliseconds.
+     * Sources that know exact beat times (metronome, beat maps) omit this.
+     */
+    getLatency?(): number;
+
+    /**
+     * Registers a listener for per-frame analysis data.
+     * Only sources that analyze or replay audio frames implement this.
+     * 
+     * @param listener - Called with each analysis frame
+     * @returns Cleanup function to unsubscribe the listener
+     */
+    addFrameListener?(listener: LiveAnalysisFrameListener): () => void;
+}
+
+/**
+ * Base class implementing subscription and status bookkeeping for beat sources.
+ * 
+ * Subclasses call emit() for each beat and update `status` from start()/stop().
+ */
+export abstract class BaseBeatSource implements BeatSource {
+    abstract readonly kind: BeatSourceKind;
+    protected status: BeatSourceStatus = 'idle';
+    private listeners: Set<BeatSourceListener> = new Set();
+
+    abstract start(): void;
+    abstract stop(): void;
+
+    subscribe(listener: BeatSourceListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getStatus(): BeatSourceStatus {
+        return this.status;
+    }
+
+    /**
+     * Notifies all listeners of a beat. Listener errors are logged and do not
+     * stop other listeners from running.
+     * 
+     * @param beatStrength - Beat intensity (0-1)
+     * @param details - Percussion classes and bands of the beat
+     */
+    protected emit(beatStrength: number, details: BeatDetails = GENERIC_BEAT_DETAILS): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(beatStrength, details);
+            } catch (err) {
+                console.error(`BeatSource (${this.kind}): Error in beat listener`, err);
+            }
+        });
+    }
+}
+
+/**
+ * A beat to replay, relative to the start of the replay.
+ */
+export interface ReplayBeat {
+    /** Offset from the start of the replay in milliseconds */
+    time: number;
+
+    /** Beat intensity (0-1) */
+    strength: number;
+
+    /**
+     * Percussion classes of the beat.
+     * 
+     * @default ['kick']
+     */
+    kinds?: readonly PercussionKind[];
+}
+
+/**
+ * ReplaySource class for replaying a fixed list of beats.
+ * 
+ * Beats are emitted from a requestAnimationFrame loop at their offset from the
+ * moment start() is called. Stopping and starting again resumes where the replay
+ * left off.
+ * 
+ * @example
+ * ```typescript
+ * const replay = new ReplaySource([
+ *   { time: 0, strength: 0.8 },
+ *   { time: 500, strength: 0.6 },
+ * ]);
+ * activateBeatSource(replay);
+ * replay.start();
+ * ```
+ */
+export class ReplaySource extends BaseBeatSource {
+    readonly kind = 'replay' as const;
+    private readonly beats: ReplayBeat[];
+    private readonly loop: boolean;
+    private nextIndex = 0;
+    private elapsedBeforeStart = 0;
+    private startTime = 0;
+    private animationFrameId: number | null = null;
+
+    /**
+     * Creates a new ReplaySource instance.
+     * 
+     * @param beats - Beats to replay (sorted by time internally)
+     * @param loop - Whether to start over after the last beat
+     */
+    constructor(beats: ReplayBeat[], loop: boolean = false) {
+        super();
+        this.beats = [...beats].sort((a, b) => a.time - b.time);
+        this.loop = loop;
+    }
+
+    start(): void {
+        if (this.status === 'running') return;
+
+        this.status = 'running';
+        this.startTime = performance.now() - this.elapsedBeforeStart;
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    }
+
+    stop(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        if (this.status === 'running') {
+            this.elapsedBeforeStart = performance.now() - this.startTime;
+            this.status = 'stopped';
+        }
+    }
+
+    /**
+     * Rewinds the replay to the first beat.
+     */
+    rewind(): void {
+        this.nextIndex = 0;
+        this.elapsedBeforeStart = 0;
+        this.startTime = performance.now();
+    }
+
+    private tick = (): void => {
+        const elapsed = performance.now() - this.startTime;
+
+        while (this.nextIndex < this.beats.length && this.beats[this.nextIndex].time <= elapsed) {
+            const beat = this.beats[this.nextIndex];
+            this.emit(beat.strength, beat.kinds ? { kinds: beat.kinds, bands: [] } : GENERIC_BEAT_DETAILS);
+            this.nextIndex++;
+        }
+
+        if (this.nextIndex >= this.beats.length) {
+            if (this.loop && this.beats.length > 0) {
+                this.rewind();
+            } else {
+                this.animationFrameId = null;
+                this.elapsedBeforeStart = 0;
+                this.nextIndex = 0;
+                this.status = 'stopped';
+                return;
+            }
+        }
+
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    };
+}
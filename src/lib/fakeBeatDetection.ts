@@ -1,19 +1,29 @@
+import { BaseBeatSource } from './beatSource';
+import { COMMON_TIME, TimeSignature } from './barTracking';
+
 /**
  * Simulates beat detection when actual audio analysis isn't available (e.g., CORS restrictions).
- * Uses a configurable BPM to trigger beats at regular intervals.
+ * Uses a configurable BPM to trigger beats at regular intervals, counted in bars
+ * of a configurable time signature, with an accented downbeat.
+ * Acts as the 'metronome' beat source.
  */
 
-export class FakeBeatDetector {
+export class FakeBeatDetector extends BaseBeatSource {
+    readonly kind = 'metronome' as const;
     private intervalId: number | null = null;
-    private callbacks: Set<(strength: number) => void> = new Set();
     private bpm: number;
+    private timeSignature: TimeSignature;
+    private beatCount = 0;
     private isRunning: boolean = false;
 
     /**
      * @param bpm - Beats per minute (typical range: 60-180)
+     * @param timeSignature - Meter used to number beats within bars (default 4/4)
      */
-    constructor(bpm: number = 120) {
+    constructor(bpm: number = 120, timeSignature: TimeSignature = COMMON_TIME) {
+        super();
         this.bpm = bpm;
+        this.timeSignature = { ...timeSignature };
     }
 
     /**
@@ -23,19 +33,27 @@ export class FakeBeatDetector {
         if (this.isRunning) return;
 
         this.isRunning = true;
+        this.status = 'running';
         const intervalMs = (60 / this.bpm) * 1000;
 
         this.intervalId = window.setInterval(() => {
-            // Vary beat strength slightly for more natural feel (0.6-1.0)
-            const strength = 0.6 + Math.random() * 0.4;
-
-            this.callbacks.forEach(callback => {
-                try {
-                    callback(strength);
-                } catch (err) {
-                    console.error('Error in fake beat callback:', err);
-                }
+            const { beatsPerBar } = this.timeSignature;
+            const beatInBar = (this.beatCount % beatsPerBar) + 1;
+
+            // Vary beat strength slightly for more natural feel (0.6-0.9), accenting downbeats (0.9-1.0)
+            const strength = beatInBar === 1 ? 0.9 + Math.random() * 0.1 : 0.6 + Math.random() * 0.3;
+
+            this.emit(strength, {
+                kinds: ['kick'],
+                bands: [],
+                bar: {
+                    barIndex: Math.floor(this.beatCount / beatsPerBar),
+                    beatInBar,
+                    beatsPerBar,
+                    offbeat: false,
+                },
             });
+            this.beatCount++;
         }, intervalMs);
     }
 
@@ -47,6 +65,9 @@ export class FakeBeatDetector {
             clearInterval(this.intervalId);
             this.intervalId = null;
         }
+        if (this.isRunning) {
+            this.status = 'stopped';
+        }
         this.isRunning = false;
     }
 
@@ -62,11 +83,39 @@ export class FakeBeatDetector {
     }
 
     /**
-     * Register a callback for beat events
+     * Update the time signature. Bar counting restarts at the next beat.
+     */
+    setTimeSignature(timeSignature: TimeSignature): void {
+        this.timeSignature = { ...timeSignature };
+        this.beatCount = 0;
+    }
+
+    /**
+     * Get the current time signature
+     */
+    getTimeSignature(): TimeSignature {
+        return { ...this.timeSignature };
+    }
+
+    /**
+     * Restart bar counting, so the next beat is beat 1 of bar 0 (e.g. on track change)
+     */
+    resetBars(): void {
+        this.beatCount = 0;
+    }
+
+    /**
+     * Get the current BPM
+     */
+    getBPM(): number {
+        return this.bpm;
+    }
+
+    /**
+     * Register a callback for beat events (same as subscribe)
      */
     onBeat(callback: (strength: number) => void): () => void {
-        this.callbacks.add(callback);
-        return () => this.callbacks.delete(callback);
+        return this.subscribe(callback);
     }
 
     /**
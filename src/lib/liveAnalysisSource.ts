@@ -0,0 +1,486 @@
+/**
+ * Live Analysis Source Module
+ * 
+ * Beat source that analyzes audio in real time. Reads frequency data from an
+ * AnalyserNode once per animation frame, runs it through BeatDetector and
+ * emits the detected beats. Every analyzed frame, with its continuous features
+ * (band energies, loudness, spectral centroid, adaptive threshold), is also
+ * delivered to frame listeners.
+ * 
+ * When an AudioWorklet beat detector is attached, beats come from the audio
+ * thread instead and the animation frame loop only computes frame features.
+ * 
+ * The analyser's fftSize may change while the source runs: buffers are
+ * reallocated and detection history is cleared on the next frame.
+ * 
+ * @module liveAnalysisSource
+ */
+
+import { BandBins, BeatDetector, BeatResult, DetectionSensitivity, getBandBins } from './beatDetection';
+import { BaseBeatSource } from './beatSource';
+import { estimateDetectionLatency } from './beatPrediction';
+import { calculateBandEnergy, calculateSpectralCentroid } from './audioFeatures';
+import { LoudnessMeter, LoudnessReading } from './loudness';
+import { classifyOnset, PercussionClassifierOptions } from './percussion';
+import { WorkletCommand, WorkletMessage } from './workletAnalysis';
+
+/**
+ * Data for a single analysis frame.
+ * 
+ * The same object and buffers are reused every frame: read what you need
+ * inside the listener and do not keep references to it.
+ */
+export interface LiveAnalysisFrame {
+    /** Frame time in milliseconds (performance.now() clock) */
+    timestamp: number;
+
+    /** Frequency data read from the analyser this frame */
+    frequencyData: Uint8Array;
+
+    /** Names of the detector's frequency bands, in the same order as bandEnergies */
+    bandNames: readonly string[];
+
+    /** Average energy of each frequency band (0-1) */
+    bandEnergies: Float32Array;
+
+    /** Bass energy the detector compared against its threshold (0-1) */
+    energy: number;
+
+    /** Current adaptive beat threshold, on the same scale as energy */
+    threshold: number;
+
+    /**
+     * Largest threshold multiplier at which this frame would have produced a beat,
+     * ignoring the debounce (see BeatDetector.getTriggerMultiplier). With a worklet,
+     * the largest value since the previous frame.
+     */
+    triggerMultiplier: number;
+
+    /** RMS level of the time-domain signal (0-1), same as loudness.rms */
+    rms: number;
+
+    /** RMS, true-peak and LUFS levels */
+    loudness: Readonly<LoudnessReading>;
+
+    /** Spectral centroid in Hz, 0 for silence */
+    spectralCentroid: number;
+
+    /** Beat detected in this frame, null if none */
+    result: BeatResult | null;
+}
+
+/**
+ * Listener invoked after every analyzed frame.
+ */
+export type LiveAnalysisFrameListener = (frame: Readonly<LiveAnalysisFrame>) => void;
+
+/**
+ * Configuration for a live analysis source.
+ */
+export interface LiveAnalysisSourceOptions {
+    /** Analyser connected to the audio being played */
+    analyser: AnalyserNode;
+
+    /** Detector used to find beats in the frequency data, created with the analyser's sample rate */
+    detector: BeatDetector;
+
+    /**
+     * Whether audio is currently audible. Frames are skipped while this returns false
+     * (e.g. while the audio element is paused).
+     * 
+     * @default () => true
+     */
+    isActive?: () => boolean;
+
+    /** Called when the analysis loop fails. The source stops with status 'error'. */
+    onError?: (error: unknown) => void;
+
+    /** Thresholds for classifying beats into kicks, snares and hi-hats */
+    classifier?: PercussionClassifierOptions;
+}
+
+/**
+ * LiveAnalysisSource class for beats detected from playing audio.
+ * 
+ * @example
+ * ```typescript
+ * const source = new LiveAnalysisSource({
+ *   analyser,
+ *   detector: new BeatDetector(60, 1.3, 100, { sampleRate: audioContext.sampleRate }),
+ *   isActive: () => !audio.paused,
+ * });
+ * source.subscribe((strength) => pulse(strength));
+ * source.start();
+ * ```
+ */
+export class LiveAnalysisSource extends BaseBeatSource {
+    readonly kind = 'live' as const;
+    private readonly analyser: AnalyserNode;
+    private readonly detector: BeatDetector;
+    private readonly isActive: () => boolean;
+    private readonly onError?: (error: unknown) => void;
+    private readonly classifier: PercussionClassifierOptions;
+    private readonly frame: LiveAnalysisFrame;
+    private timeDomainData: Float32Array;
+    // Bins of the detector's bands for the current FFT size
+    private bandBins: BandBins[];
+    private readonly loudnessMeter: LoudnessMeter;
+    private lastMeteredTime: number | null = null;
+    private frameListeners: Set<LiveAnalysisFrameListener> = new Set();
+    private animationFrameId: number | null = null;
+    private lastFrameTime: number | null = null;
+    private frameIntervalMs = 1000 / 60;
+    private worklet: AudioWorkletNode | null = null;
+    private workletHopMs = 0;
+    private workletActive = false;
+    private workletEnergy = 0;
+    private workletThreshold = 0;
+    private workletTriggerMultiplier = 0;
+    private pendingWorkletResult: BeatResult | null = null;
+
+    /**
+     * Creates a new LiveAnalysisSource instance.
+     * 
+     * @param options - Analyser, detector and playback state
+     */
+    constructor(options: LiveAnalysisSourceOptions) {
+        super();
+        this.analyser = options.analyser;
+        this.detector = options.detector;
+        this.isActive = options.isActive ?? (() => true);
+        this.onError = options.onError;
+        this.classifier = options.classifier ?? {};
+
+        // Frequency data buffer with explicit ArrayBuffer type, reused every frame
+        const bands = this.detector.getBands();
+        this.loudnessMeter = new LoudnessMeter(this.analyser.context.sampleRate);
+        this.frame = {
+            timestamp: 0,
+            frequencyData: new Uint8Array(new ArrayBuffer(this.analyser.frequencyBinCount)),
+            bandNames: bands.map(band => band.name),
+            bandEnergies: new Float32Array(bands.length),
+            energy: 0,
+            threshold: 0,
+            triggerMultiplier: 0,
+            rms: 0,
+            loudness: this.loudnessMeter.getReading(),
+            spectralCentroid: 0,
+            result: null,
+        };
+        this.timeDomainData = new Float32Array(this.analyser.fftSize);
+        this.bandBins = this.resolveBandBins();
+    }
+
+    /**
+     * Gets the beat detector used by this source.
+     * 
+     * @returns The detector passed to the constructor
+     */
+    getDetector(): BeatDetector {
+        return this.detector;
+    }
+
+    /**
+     * Changes the detector's threshold multiplier and/or debounce, in the worklet
+     * too when one is attached. Detection history is kept.
+     * 
+     * @param sensitivity - Settings to change; omitted settings keep their values
+     */
+    setSensitivity(sensitivity: Partial<DetectionSensitivity>): void {
+        this.detector.setSensitivity(sensitivity);
+        this.postWorkletCommand({ type: 'sensitivity', sensitivity });
+    }
+
+    /**
+     * Moves beat detection to an AudioWorklet beat detector.
+     * 
+     * The worklet node must already receive the same audio as the analyser.
+     * Frame listeners keep receiving frames; their `result` is the latest beat
+     * from the worklet, and `energy`/`threshold` come from the worklet's detector.
+     * 
+     * @param node - Node created by createBeatDetectorNode()
+     * @param hopSize - Samples between the worklet's analysis frames
+     */
+    attachWorklet(node: AudioWorkletNode, hopSize: number): void {
+        this.detachWorklet();
+        this.worklet = node;
+        this.workletHopMs = (hopSize / this.analyser.context.sampleRate) * 1000;
+        this.pendingWorkletResult = null;
+        node.port.onmessage = this.handleWorkletMessage;
+
+        // Pick up where the main-thread detector was, so the worklet knows whether audio is playing
+        this.workletActive = this.status === 'running' && this.isActive();
+        this.postWorkletCommand({ type: 'active', active: this.workletActive });
+
+        // The node was created with the settings at the time; setSensitivity() may have changed them since
+        this.postWorkletCommand({ type: 'sensitivity', sensitivity: this.detector.getSensitivity() });
+    }
+
+    /**
+     * Disconnects the AudioWorklet beat detector and returns to main-thread detection.
+     */
+    detachWorklet(): void {
+        if (!this.worklet) return;
+
+        this.worklet.port.onmessage = null;
+        this.worklet.disconnect();
+        this.worklet = null;
+        this.pendingWorkletResult = null;
+    }
+
+    /**
+     * Whether beats are detected by an AudioWorklet.
+     * 
+     * @returns True while a worklet is attached
+     */
+    isUsingWorklet(): boolean {
+        return this.worklet !== null;
+    }
+
+    /**
+     * Gets the latest loudness reading.
+     * 
+     * Updated every analyzed frame, whether or not anyone listens for frames.
+     * 
+     * @returns The meter's reading (the same object is updated in place)
+     */
+    getLoudness(): Readonly<LoudnessReading> {
+        return this.loudnessMeter.getReading();
+    }
+
+    /**
+     * Clears detection history and loudness measurements, e.g. when the track changes.
+     */
+    reset(): void {
+        this.detector.reset();
+        this.loudnessMeter.reset();
+        this.lastMeteredTime = null;
+        this.pendingWorkletResult = null;
+        this.postWorkletCommand({ type: 'reset' });
+    }
+
+    /**
+     * Registers a listener for every analyzed frame.
+     * 
+     * @param listener - Called after each frame with the frame data
+     * @returns Cleanup function to unsubscribe the listener
+     */
+    addFrameListener(listener: LiveAnalysisFrameListener): () => void {
+        this.frameListeners.add(listener);
+        return () => {
+            this.frameListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Estimated delay between a beat being heard and being detected.
+     * 
+     * @returns Latency in milliseconds (see estimateDetectionLatency)
+     */
+    getLatency(): number {
+        const context = this.analyser.context as Partial<AudioContext>;
+        return estimateDetectionLatency({
+            sampleRate: this.analyser.context.sampleRate,
+            outputLatency: context.outputLatency,
+            baseLatency: context.baseLatency,
+            fftSize: this.analyser.fftSize,
+            smoothingTimeConstant: this.analyser.smoothingTimeConstant,
+        }, this.worklet ? this.workletHopMs : this.frameIntervalMs);
+    }
+
+    start(): void {
+        if (this.status === 'running') return;
+
+        this.status = 'running';
+        this.lastFrameTime = null;
+        this.lastMeteredTime = null;
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    }
+
+    stop(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        if (this.status === 'running') {
+            this.status = 'stopped';
+        }
+        this.setWorkletActive(false);
+    }
+
+    private postWorkletCommand(command: WorkletCommand): void {
+        this.worklet?.port.postMessage(command);
+    }
+
+    private setWorkletActive(active: boolean): void {
+        if (this.worklet && this.workletActive !== active) {
+            this.workletActive = active;
+            this.postWorkletCommand({ type: 'active', active });
+        }
+    }
+
+    // Beats are emitted as soon as they arrive, even while animation frames are throttled
+    private handleWorkletMessage = (event: MessageEvent<WorkletMessage>): void => {
+        const message = event.data;
+        if (message.type === 'state') {
+            this.workletEnergy = message.energy;
+            this.workletThreshold = message.threshold;
+            // Several worklet frames can pass per animation frame; keep the peak
+            this.workletTriggerMultiplier = Math.max(this.workletTriggerMultiplier, message.triggerMultiplier);
+            return;
+        }
+
+        if (this.status !== 'running') return;
+
+        // The worklet stamps beats with the audio clock; messages arrive a little later
+        const now = performance.now();
+        const result: BeatResult = {
+            strength: message.strength,
+            bands: message.bands,
+            timestamp: now - Math.max(0, (this.analyser.context.currentTime - message.time) * 1000),
+        };
+        this.pendingWorkletResult = result;
+        this.emit(result.strength, {
+            kinds: classifyOnset(result.bands, this.frame.spectralCentroid, this.classifier),
+            bands: result.bands,
+            timestamp: result.timestamp,
+        });
+    };
+
+    /**
+     * Reallocates the frame buffers after the analyser's fftSize changed.
+     * Bin indices no longer line up with the history, so detection starts over.
+     * 
+     * @private
+     */
+    private resizeBuffers(): void {
+        this.frame.frequencyData = new Uint8Array(new ArrayBuffer(this.analyser.frequencyBinCount));
+        this.timeDomainData = new Float32Array(this.analyser.fftSize);
+        this.bandBins = this.resolveBandBins();
+        this.detector.reset();
+        this.lastMeteredTime = null;
+    }
+
+    /**
+     * Converts the detector's bands to bins of the analyser's spectrum.
+     * 
+     * @private
+     */
+    private resolveBandBins(): BandBins[] {
+        const { sampleRate } = this.analyser.context;
+        return this.detector.getBands().map(band => getBandBins(band, sampleRate, this.analyser.frequencyBinCount));
+    }
+
+    /**
+     * Fills the frame's continuous features in place.
+     * 
+     * @private
+     */
+    private updateFeatures(frame: LiveAnalysisFrame): void {
+        for (let b = 0; b < this.bandBins.length; b++) {
+            frame.bandEnergies[b] = calculateBandEnergy(frame.frequencyData, this.bandBins[b]);
+        }
+
+        frame.spectralCentroid = calculateSpectralCentroid(frame.frequencyData, this.analyser.context.sampleRate);
+    }
+
+    /**
+     * Meters the samples that reached the analyser since the previous frame.
+     * 
+     * @private
+     */
+    private updateLoudness(frame: LiveAnalysisFrame, timestamp: number): void {
+        const samples = this.timeDomainData;
+        this.analyser.getFloatTimeDomainData(samples as Float32Array<ArrayBuffer>);
+
+        // After a gap (start, pause, background tab) the whole window is new
+        let newSamples = samples.length;
+        if (this.lastMeteredTime !== null) {
+            const elapsedSamples = Math.round(((timestamp - this.lastMeteredTime) / 1000) * this.analyser.context.sampleRate);
+            newSamples = Math.min(samples.length, elapsedSamples);
+        }
+        this.lastMeteredTime = timestamp;
+
+        frame.rms = this.loudnessMeter.process(samples, samples.length - newSamples).rms;
+    }
+
+    private tick = (): void => {
+        try {
+            // Only analyze if audio is playing
+            const active = this.isActive();
+            this.setWorkletActive(active);
+
+            if (active) {
+                const frame = this.frame;
+                const timestamp = performance.now();
+
+                if (frame.frequencyData.length !== this.analyser.frequencyBinCount) {
+                    this.resizeBuffers();
+                }
+
+                // Get frequency data from analyser (reuses existing TypedArray buffer)
+                this.analyser.getByteFrequencyData(frame.frequencyData as Uint8Array<ArrayBuffer>);
+
+                frame.timestamp = timestamp;
+                if (this.worklet) {
+                    // Beats were already emitted by handleWorkletMessage
+                    frame.result = this.pendingWorkletResult;
+                    this.pendingWorkletResult = null;
+                    frame.energy = this.workletEnergy;
+                    frame.threshold = this.workletThreshold;
+                    frame.triggerMultiplier = this.workletTriggerMultiplier;
+                    this.workletTriggerMultiplier = 0;
+                } else {
+                    frame.result = this.detector.detectOnset(frame.frequencyData, timestamp);
+                    frame.energy = this.detector.getEnergy();
+                    frame.threshold = this.detector.getThreshold();
+                    frame.triggerMultiplier = this.detector.getTriggerMultiplier();
+                }
+
+                // Loudness windows span seconds, so metering runs every frame
+                this.updateLoudness(frame, timestamp);
+
+                // Continuous features are only needed when someone listens for frames,
+                // or to classify a beat
+                if (this.frameListeners.size > 0 || (frame.result !== null && !this.worklet)) {
+                    this.updateFeatures(frame);
+                }
+
+                // Track average frame interval (ignoring gaps such as paused playback)
+                if (this.lastFrameTime !== null && timestamp - this.lastFrameTime < 100) {
+                    this.frameIntervalMs += ((timestamp - this.lastFrameTime) - this.frameIntervalMs) * 0.1;
+                }
+                this.lastFrameTime = timestamp;
+
+                this.frameListeners.forEach(listener => {
+                    try {
+                        listener(frame);
+                    } catch (err) {
+                        console.error('LiveAnalysisSource: Error in frame listener', err);
+                    }
+                });
+
+                if (frame.result !== null && !this.worklet) {
+                    const { strength, bands } = frame.result;
+                    this.emit(strength, {
+                        kinds: classifyOnset(bands, frame.spectralCentroid, this.classifier),
+                        bands,
+                        timestamp: frame.result.timestamp,
+                    });
+                }
+            } else {
+                this.lastFrameTime = null;
+                this.lastMeteredTime = null;
+            }
+
+            // Schedule next frame
+            this.animationFrameId = requestAnimationFrame(this.tick);
+        } catch (err) {
+            // Stop the loop on error so a broken analyser cannot spam errors every frame
+            console.error('LiveAnalysisSource: Error in analysis loop', err);
+            this.animationFrameId = null;
+            this.status = 'error';
+            this.onError?.(err);
+        }
+    };
+}
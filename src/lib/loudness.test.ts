@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { LoudnessMeter, SILENCE_DB } from './loudness';
+
+const SAMPLE_RATE = 48000;
+const CHUNK_SIZE = 2048;
+
+// Feeds `seconds` of a signal to the meter in analyser-sized chunks, continuing from sample `offset`
+function feed(meter: LoudnessMeter, signal: (n: number) => number, seconds: number, offset = 0): number {
+    const total = Math.round(seconds * meter.getSampleRate());
+    const chunk = new Float32Array(CHUNK_SIZE);
+    for (let start = 0; start < total; start += CHUNK_SIZE) {
+        const length = Math.min(CHUNK_SIZE, total - start);
+        const samples = length === CHUNK_SIZE ? chunk : chunk.subarray(0, length);
+        for (let i = 0; i < length; i++) {
+            samples[i] = signal(offset + start + i);
+        }
+        meter.process(samples);
+    }
+    return offset + total;
+}
+
+// Sine at a peak level in dBFS
+function sine(frequency: number, levelDbfs: number, sampleRate: number = SAMPLE_RATE): (n: number) => number {
+    const amplitude = Math.pow(10, levelDbfs / 20);
+    return n => amplitude * Math.sin((2 * Math.PI * frequency * n) / sampleRate);
+}
+
+const silence = () => 0;
+
+describe('LoudnessMeter', () => {
+    // BS.1770 calibration: a 997Hz sine reads 3.01 LU below its peak level in dBFS
+    it('reads a -20 dBFS 997Hz sine at -23 LUFS', () => {
+        const meter = new LoudnessMeter(SAMPLE_RATE);
+        feed(meter, sine(997, -20), 5);
+
+        const reading = meter.getReading();
+        expect(reading.momentaryLufs).toBeCloseTo(-23.01, 1);
+        expect(reading.shortTermLufs).toBeCloseTo(-23.01, 1);
+        expect(reading.integratedLufs).toBeCloseTo(-23.01, 1);
+        expect(reading.rmsDb).toBeCloseTo(-23.01, 1);
+        expect(reading.truePeakDb).toBeCloseTo(-20, 1);
+    });
+
+    it('keeps the calibration at other sample rates', () => {
+        const meter = new LoudnessMeter(44100);
+        feed(meter, sine(997, -20, 44100), 5);
+        expect(meter.getReading().integratedLufs).toBeCloseTo(-23.01, 1);
+    });
+
+    it('weights frequencies like the ear', () => {
+        // The K-weighting shelf adds about 4dB at high frequencies; the high-pass removes rumble
+        const high = new LoudnessMeter(SAMPLE_RATE);
+        feed(high, sine(8000, -20), 2);
+        const low = new LoudnessMeter(SAMPLE_RATE);
+        feed(low, sine(20, -20), 2);
+
+        expect(high.getReading().momentaryLufs).toBeGreaterThan(-23 + 3);
+        expect(low.getReading().momentaryLufs).toBeLessThan(-23 - 10);
+    });
+
+    it('reads silence at the silence floor', () => {
+        const meter = new LoudnessMeter(SAMPLE_RATE);
+        feed(meter, silence, 5);
+
+        expect(meter.getReading()).toEqual({
+            rms: 0,
+            rmsDb: SILENCE_DB,
+            truePeak: 0,
+            truePeakDb: SILENCE_DB,
+            momentaryLufs: SILENCE_DB,
+            shortTermLufs: SILENCE_DB,
+            integratedLufs: SILENCE_DB,
+        });
+    });
+
+    it('gates silence out of the integrated loudness', () => {
+        const meter = new LoudnessMeter(SAMPLE_RATE);
+        const position = feed(meter, sine(997, -20), 5);
+        feed(meter, silence, 10, position);
+
+        const reading = meter.getReading();
+        expect(reading.momentaryLufs).toBe(SILENCE_DB);
+        expect(reading.shortTermLufs).toBe(SILENCE_DB);
+        // Blocks below the -70 LUFS absolute gate do not count; the few overlapping the fade do
+        expect(reading.integratedLufs).toBeGreaterThan(-23.3);
+        expect(reading.integratedLufs).toBeLessThan(-22.9);
+    });
+
+    it('gates passages far below the average out of the integrated loudness', () => {
+        const meter = new LoudnessMeter(SAMPLE_RATE);
+        const position = feed(meter, sine(997, -20), 5);
+        feed(meter, sine(997, -40), 5, position);
+
+        // The quiet half (-43 LUFS) falls below the relative gate, 10 LU under the ungated average
+        const reading = meter.getReading();
+        expect(reading.shortTermLufs).toBeCloseTo(-43.01, 1);
+        expect(reading.integratedLufs).toBeGreaterThan(-23.3);
+        expect(reading.integratedLufs).toBeLessThan(-22.9);
+    });
+
+    it('starts over after reset', () => {
+        const meter = new LoudnessMeter(SAMPLE_RATE);
+        feed(meter, sine(997, -20), 2);
+        meter.reset();
+        feed(meter, sine(997, -30), 2);
+        expect(meter.getReading().integratedLufs).toBeCloseTo(-33.01, 1);
+    });
+});
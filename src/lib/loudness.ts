@@ -0,0 +1,460 @@
+/**
+ * Loudness Metering Module
+ * 
+ * Time-domain level metering on float samples from
+ * AnalyserNode.getFloatTimeDomainData: RMS, true-peak and K-weighted
+ * loudness (momentary, short-term and integrated LUFS) following ITU-R
+ * BS.1770. Unlike beat strength, which is relative to an adaptive threshold,
+ * these values tell a quiet intro from a loud chorus, and one track's
+ * mastering level from another's.
+ * 
+ * The analyser mixes its input down to mono, so LUFS values are those of the
+ * mono mix: a stereo track with identical channels reads about 3 LU lower
+ * than a stereo meter would show.
+ * 
+ * @module loudness
+ */
+
+import { RollingWindow } from './rollingStatistics';
+
+/**
+ * Level reported for silence, in dB / LUFS. Meter values never go below it,
+ * so they stay finite and JSON-serializable.
+ */
+export const SILENCE_DB = -100;
+
+// BS.1770 gating: blocks below -70 LUFS are ignored, then blocks 10 LU below the remaining average
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Gating histogram covering -70 to +5 LUFS in 0.1 LU bins
+const HISTOGRAM_MIN_LUFS = ABSOLUTE_GATE_LUFS;
+const HISTOGRAM_BINS_PER_LU = 10;
+const HISTOGRAM_BINS = 75 * HISTOGRAM_BINS_PER_LU + 1;
+
+// 100ms sub-blocks: 4 make a momentary (400ms) block, 30 a short-term (3s) window
+const SUB_BLOCK_SECONDS = 0.1;
+const MOMENTARY_SUB_BLOCKS = 4;
+const SHORT_TERM_SUB_BLOCKS = 30;
+
+/**
+ * Loudness values at a point in time.
+ */
+export interface LoudnessReading {
+    /** RMS level of the latest analyser window (0-1, 1 = full-scale square wave) */
+    rms: number;
+
+    /** RMS level in dBFS, SILENCE_DB for silence */
+    rmsDb: number;
+
+    /** Highest 4x oversampled sample peak since the previous reading (linear, may exceed 1) */
+    truePeak: number;
+
+    /** truePeak in dBTP, SILENCE_DB for silence */
+    truePeakDb: number;
+
+    /** K-weighted loudness over the last 400ms in LUFS */
+    momentaryLufs: number;
+
+    /** K-weighted loudness over the last 3s in LUFS */
+    shortTermLufs: number;
+
+    /** Gated K-weighted loudness since the meter was reset, in LUFS */
+    integratedLufs: number;
+}
+
+/**
+ * Options for LoudnessMeter.
+ */
+export interface LoudnessMeterOptions {
+    /**
+     * Taps per phase of the 4x oversampling filter used for true-peak.
+     * More taps reconstruct inter-sample peaks more accurately.
+     * 
+     * @default 12
+     */
+    truePeakTaps?: number;
+}
+
+/**
+ * Creates a reading for silence.
+ * 
+ * @returns Reading with every level at silence
+ */
+export function createSilentLoudnessReading(): LoudnessReading {
+    return {
+        rms: 0,
+        rmsDb: SILENCE_DB,
+        truePeak: 0,
+        truePeakDb: SILENCE_DB,
+        momentaryLufs: SILENCE_DB,
+        shortTermLufs: SILENCE_DB,
+        integratedLufs: SILENCE_DB,
+    };
+}
+
+/**
+ * Converts a linear amplitude to decibels.
+ * 
+ * @param amplitude - Linear amplitude (1 = full scale)
+ * @returns Level in dB, floored at SILENCE_DB
+ */
+export function amplitudeToDb(amplitude: number): number {
+    return amplitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(amplitude)) : SILENCE_DB;
+}
+
+/**
+ * Converts a mean square of K-weighted samples to LUFS.
+ * 
+ * @param meanSquare - Mean square of K-weighted samples
+ * @returns Loudness in LUFS, floored at SILENCE_DB
+ */
+export function meanSquareToLufs(meanSquare: number): number {
+    return meanSquare > 0 ? Math.max(SILENCE_DB, -0.691 + 10 * Math.log10(meanSquare)) : SILENCE_DB;
+}
+
+/**
+ * How loud the short-term loudness is relative to the track so far.
+ * 
+ * Useful to normalize beat strength across tracks: a beat in a track's
+ * loudest section scales to 1 whatever the track's mastering level, while
+ * beats in sections `rangeLu` quieter than the integrated loudness scale to 0.
+ * 
+ * @param reading - Current loudness reading
+ * @param rangeLu - Loudness range mapped to 0-1, in LU
+ * @returns Scale (0-1); 1 until the integrated loudness is known
+ * 
+ * @example
+ * ```typescript
+ * const normalizedStrength = strength * getRelativeLoudnessScale(reading);
+ * ```
+ */
+export function getRelativeLoudnessScale(reading: Readonly<LoudnessReading>, rangeLu: number = 12): number {
+    if (reading.integratedLufs <= ABSOLUTE_GATE_LUFS) {
+        return 1;
+    }
+    const relative = reading.shortTermLufs - reading.integratedLufs;
+    return Math.max(0, Math.min(1, 1 + relative / rangeLu));
+}
+
+/**
+ * Second-order IIR filter (transposed direct form II).
+ */
+interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+    z1: number;
+    z2: number;
+}
+
+/**
+ * Creates the two K-weighting stages (high-shelf pre-filter and RLB high-pass)
+ * for a sample rate, as specified by BS.1770 for 48kHz and re-derived for others.
+ * 
+ * @private
+ */
+function createKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+    // Stage 1: high shelf, +4dB above ~1.7kHz (models the head)
+    let f0 = 1681.974450955533;
+    const gainDb = 3.999843853973347;
+    let q = 0.7071752369554196;
+    let k = Math.tan((Math.PI * f0) / sampleRate);
+    const vh = Math.pow(10, gainDb / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+        b0: (vh + (vb * k) / q + k * k) / a0,
+        b1: (2 * (k * k - vh)) / a0,
+        b2: (vh - (vb * k) / q + k * k) / a0,
+        a1: (2 * (k * k - 1)) / a0,
+        a2: (1 - k / q + k * k) / a0,
+        z1: 0,
+        z2: 0,
+    };
+
+    // Stage 2: high-pass at ~38Hz (revised low-frequency B-curve)
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan((Math.PI * f0) / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highPass: Biquad = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: (2 * (k * k - 1)) / a0,
+        a2: (1 - k / q + k * k) / a0,
+        z1: 0,
+        z2: 0,
+    };
+
+    return [shelf, highPass];
+}
+
+/**
+ * Runs one sample through a biquad.
+ * 
+ * @private
+ */
+function processBiquad(filter: Biquad, input: number): number {
+    const output = filter.b0 * input + filter.z1;
+    filter.z1 = filter.b1 * input - filter.a1 * output + filter.z2;
+    filter.z2 = filter.b2 * input - filter.a2 * output;
+    return output;
+}
+
+/**
+ * Designs the polyphase coefficients of a 4x interpolation filter
+ * (Blackman-windowed sinc with a cutoff at the original Nyquist frequency).
+ * 
+ * @private
+ */
+function createOversamplingPhases(tapsPerPhase: number): Float32Array[] {
+    const factor = 4;
+    const length = tapsPerPhase * factor;
+    const center = (length - 1) / 2;
+    const phases = Array.from({ length: factor }, () => new Float32Array(tapsPerPhase));
+
+    for (let n = 0; n < length; n++) {
+        const x = (n - center) / factor;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const phase = (2 * Math.PI * n) / (length - 1);
+        const window = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        phases[n % factor][Math.floor(n / factor)] = sinc * window;
+    }
+
+    // Normalize each phase to unity gain at DC
+    phases.forEach(taps => {
+        const sum = taps.reduce((total, tap) => total + tap, 0);
+        for (let t = 0; t < taps.length; t++) {
+            taps[t] /= sum;
+        }
+    });
+
+    return phases;
+}
+
+/**
+ * LoudnessMeter class for continuous RMS, true-peak and LUFS metering.
+ * 
+ * Feed it the samples that arrived since the previous call. With an
+ * AnalyserNode, that is the tail of the getFloatTimeDomainData() window
+ * covering the time elapsed since the previous animation frame. Samples that
+ * were never fed (e.g. while the tab was in the background) are simply not
+ * measured.
+ * 
+ * @example
+ * ```typescript
+ * const meter = new LoudnessMeter(audioContext.sampleRate);
+ * const samples = new Float32Array(analyser.fftSize);
+ * 
+ * function onFrame(elapsedMs: number) {
+ *   analyser.getFloatTimeDomainData(samples);
+ *   const fresh = Math.min(samples.length, Math.round(elapsedMs * audioContext.sampleRate / 1000));
+ *   const reading = meter.process(samples, samples.length - fresh);
+ *   console.log(reading.shortTermLufs.toFixed(1), 'LUFS');
+ * }
+ * ```
+ */
+export class LoudnessMeter {
+    private readonly sampleRate: number;
+    private readonly reading: LoudnessReading;
+    private readonly filters: [Biquad, Biquad];
+    private readonly phases: Float32Array[];
+    private readonly peakHistory: Float32Array;
+    private readonly subBlockSize: number;
+    private readonly momentaryWindow = new RollingWindow(MOMENTARY_SUB_BLOCKS);
+    private readonly shortTermWindow = new RollingWindow(SHORT_TERM_SUB_BLOCKS);
+    private readonly histogramCounts = new Uint32Array(HISTOGRAM_BINS);
+    private readonly histogramEnergy = new Float64Array(HISTOGRAM_BINS);
+    private peakHistoryIndex = 0;
+    private subBlockSum = 0;
+    private subBlockCount = 0;
+
+    /**
+     * Creates a new LoudnessMeter instance.
+     * 
+     * @param sampleRate - Sample rate of the audio in Hz
+     * @param options - True-peak filter settings
+     */
+    constructor(sampleRate: number, options: LoudnessMeterOptions = {}) {
+        this.sampleRate = sampleRate;
+        this.reading = createSilentLoudnessReading();
+        this.filters = createKWeightingFilters(sampleRate);
+        this.phases = createOversamplingPhases(Math.max(2, options.truePeakTaps ?? 12));
+        this.peakHistory = new Float32Array(this.phases[0].length);
+        this.subBlockSize = Math.max(1, Math.round(sampleRate * SUB_BLOCK_SECONDS));
+    }
+
+    /**
+     * Gets the sample rate the meter was created for.
+     * 
+     * @returns Sample rate in Hz
+     */
+    getSampleRate(): number {
+        return this.sampleRate;
+    }
+
+    /**
+     * Gets the latest reading without processing new samples.
+     * 
+     * @returns The meter's reading (the same object is updated by every process() call)
+     */
+    getReading(): Readonly<LoudnessReading> {
+        return this.reading;
+    }
+
+    /**
+     * Measures new samples and updates the reading.
+     * 
+     * RMS covers the whole buffer; loudness and true-peak only cover the new
+     * samples from `newSamplesStart` on, so overlapping analyser windows are
+     * not counted twice.
+     * 
+     * @param samples - Float samples (-1 to 1), oldest first
+     * @param newSamplesStart - Index of the first sample not fed before
+     * @returns The updated reading (reused between calls)
+     */
+    process(samples: Float32Array, newSamplesStart: number = 0): Readonly<LoudnessReading> {
+        const reading = this.reading;
+        const [shelf, highPass] = this.filters;
+        const length = samples.length;
+        const start = Math.max(0, Math.min(length, newSamplesStart));
+
+        let sumSquares = 0;
+        for (let i = 0; i < start; i++) {
+            sumSquares += samples[i] * samples[i];
+        }
+
+        let peak = 0;
+        for (let i = start; i < length; i++) {
+            const sample = samples[i];
+            sumSquares += sample * sample;
+
+            const truePeak = this.oversamplePeak(sample);
+            if (truePeak > peak) {
+                peak = truePeak;
+            }
+
+            const weighted = processBiquad(highPass, processBiquad(shelf, sample));
+            this.subBlockSum += weighted * weighted;
+            if (++this.subBlockCount >= this.subBlockSize) {
+                this.completeSubBlock();
+            }
+        }
+
+        reading.rms = length > 0 ? Math.min(1, Math.sqrt(sumSquares / length)) : 0;
+        reading.rmsDb = amplitudeToDb(reading.rms);
+        reading.truePeak = peak;
+        reading.truePeakDb = amplitudeToDb(peak);
+
+        return reading;
+    }
+
+    /**
+     * Clears all measurements and filter state, e.g. when the track changes.
+     */
+    reset(): void {
+        this.filters.forEach(filter => {
+            filter.z1 = 0;
+            filter.z2 = 0;
+        });
+        this.peakHistory.fill(0);
+        this.peakHistoryIndex = 0;
+        this.subBlockSum = 0;
+        this.subBlockCount = 0;
+        this.momentaryWindow.clear();
+        this.shortTermWindow.clear();
+        this.histogramCounts.fill(0);
+        this.histogramEnergy.fill(0);
+        Object.assign(this.reading, createSilentLoudnessReading());
+    }
+
+    /**
+     * Adds a sample to the oversampling filter and returns the largest
+     * absolute value among the sample and its interpolated neighbours.
+     * 
+     * @private
+     */
+    private oversamplePeak(sample: number): number {
+        const history = this.peakHistory;
+        const taps = history.length;
+        this.peakHistoryIndex = (this.peakHistoryIndex + 1) % taps;
+        history[this.peakHistoryIndex] = sample;
+
+        let peak = Math.abs(sample);
+        for (let p = 0; p < this.phases.length; p++) {
+            const coefficients = this.phases[p];
+            let value = 0;
+            for (let t = 0; t < taps; t++) {
+                value += coefficients[t] * history[(this.peakHistoryIndex - t + taps) % taps];
+            }
+            const magnitude = Math.abs(value);
+            if (magnitude > peak) {
+                peak = magnitude;
+            }
+        }
+        return peak;
+    }
+
+    /**
+     * Closes a 100ms sub-block: updates momentary and short-term loudness and
+     * adds the 400ms block ending here to the integrated loudness gate.
+     * 
+     * @private
+     */
+    private completeSubBlock(): void {
+        const meanSquare = this.subBlockSum / this.subBlockCount;
+        this.subBlockSum = 0;
+        this.subBlockCount = 0;
+
+        this.momentaryWindow.push(meanSquare);
+        this.shortTermWindow.push(meanSquare);
+
+        const momentaryEnergy = this.momentaryWindow.getMean();
+        this.reading.momentaryLufs = meanSquareToLufs(momentaryEnergy);
+        this.reading.shortTermLufs = meanSquareToLufs(this.shortTermWindow.getMean());
+
+        // Gating blocks are 400ms long with 75% overlap
+        if (this.momentaryWindow.size === MOMENTARY_SUB_BLOCKS) {
+            this.addGatingBlock(momentaryEnergy);
+        }
+    }
+
+    /**
+     * Adds a 400ms block to the gating histogram and recomputes integrated loudness.
+     * 
+     * @private
+     */
+    private addGatingBlock(energy: number): void {
+        const lufs = meanSquareToLufs(energy);
+        if (lufs < ABSOLUTE_GATE_LUFS) {
+            return;
+        }
+
+        const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((lufs - HISTOGRAM_MIN_LUFS) * HISTOGRAM_BINS_PER_LU));
+        this.histogramCounts[bin]++;
+        this.histogramEnergy[bin] += energy;
+
+        let totalEnergy = 0;
+        let totalCount = 0;
+        for (let b = 0; b < HISTOGRAM_BINS; b++) {
+            totalEnergy += this.histogramEnergy[b];
+            totalCount += this.histogramCounts[b];
+        }
+
+        const relativeGate = meanSquareToLufs(totalEnergy / totalCount) + RELATIVE_GATE_LU;
+        const firstBin = Math.max(0, Math.floor((relativeGate - HISTOGRAM_MIN_LUFS) * HISTOGRAM_BINS_PER_LU));
+
+        let gatedEnergy = 0;
+        let gatedCount = 0;
+        for (let b = firstBin; b < HISTOGRAM_BINS; b++) {
+            gatedEnergy += this.histogramEnergy[b];
+            gatedCount += this.histogramCounts[b];
+        }
+
+        this.reading.integratedLufs = gatedCount > 0 ? meanSquareToLufs(gatedEnergy / gatedCount) : SILENCE_DB;
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * Percussion Classification Module
+ * 
+ * Classifies detected onsets into percussion classes (kick, snare, hi-hat)
+ * from their spectral shape: which frequency bands fired and how bright the
+ * spectrum was at the onset. Lets visuals react differently to different
+ * drums, e.g. large stars on kicks and small stars on hi-hats.
+ * 
+ * @module percussion
+ */
+
+/**
+ * Percussion class of an onset.
+ * 
+ * - 'kick': low-frequency onset (sub or low band)
+ * - 'snare': mid-frequency onset, usually with broadband noise
+ * - 'hihat': high-frequency onset with a bright spectrum
+ */
+export type PercussionKind = 'kick' | 'snare' | 'hihat';
+
+/**
+ * All percussion kinds, in order from lowest to highest frequency.
+ */
+export const PERCUSSION_KINDS: readonly PercussionKind[] = ['kick', 'snare', 'hihat'];
+
+/**
+ * Optional settings for onset classification.
+ */
+export interface PercussionClassifierOptions {
+    /**
+     * Spectral centroid above which a mid+high onset counts as a hi-hat rather than a snare.
+     * 
+     * @default 4000
+     */
+    hihatCentroidHz?: number;
+}
+
+/**
+ * Classifies an onset into percussion kinds.
+ * 
+ * Band names follow DEFAULT_FREQUENCY_BANDS ('sub', 'low', 'mid', 'high').
+ * An onset can have several kinds, e.g. a kick and a hi-hat played together.
+ * 
+ * @param bands - Names of the bands that fired
+ * @param spectralCentroid - Spectral centroid of the onset frame in Hz, if known
+ * @param options - Classification thresholds
+ * @returns Percussion kinds, in PERCUSSION_KINDS order (empty if no known band fired)
+ * 
+ * @example
+ * ```typescript
+ * classifyOnset(['sub', 'low']);            // ['kick']
+ * classifyOnset(['mid', 'high'], 2500);     // ['snare']
+ * classifyOnset(['high'], 8000);            // ['hihat']
+ * ```
+ */
+export function classifyOnset(
+    bands: readonly string[],
+    spectralCentroid?: number,
+    options: PercussionClassifierOptions = {}
+): PercussionKind[] {
+    const hihatCentroidHz = options.hihatCentroidHz ?? 4000;
+    const low = bands.includes('sub') || bands.includes('low');
+    const mid = bands.includes('mid');
+    const high = bands.includes('high');
+
+    // Without a centroid (e.g. beat maps), mid+high onsets are assumed to be snares
+    const bright = spectralCentroid !== undefined && spectralCentroid >= hihatCentroidHz;
+
+    const kinds: PercussionKind[] = [];
+    if (low) {
+        kinds.push('kick');
+    }
+    if (mid && (!high || !bright)) {
+        kinds.push('snare');
+    }
+    if (high && (!mid || bright)) {
+        kinds.push('hihat');
+    }
+    return kinds;
+}
@@ -0,0 +1,149 @@
+/**
+ * Rolling Statistics Module
+ * 
+ * Fixed-size window over a stream of values with constant-time mean and
+ * standard deviation. Used for the adaptive thresholds in beat detection,
+ * where every frame adds one value and drops the oldest.
+ * 
+ * @module rollingStatistics
+ */
+
+/**
+ * RollingWindow class holding the most recent values of a stream.
+ * 
+ * Values live in a preallocated ring buffer, and the mean and standard
+ * deviation come from a running sum and sum of squares, so push() costs the
+ * same whatever the window size. The sums are recomputed from the buffer once
+ * per window length to stop floating-point drift from accumulating.
+ * 
+ * @example
+ * ```typescript
+ * const window = new RollingWindow(60);
+ * window.push(0.2);
+ * window.push(0.4);
+ * console.log(window.getMean(), window.getStandardDeviation()); // 0.3 0.1
+ * ```
+ */
+export class RollingWindow {
+    private readonly values: Float64Array;
+    private start = 0;
+    private count = 0;
+    private sum = 0;
+    private sumOfSquares = 0;
+    private pushesSinceResync = 0;
+
+    /**
+     * Creates a new RollingWindow instance.
+     * 
+     * @param capacity - Maximum number of values kept (at least 1)
+     */
+    constructor(capacity: number) {
+        this.values = new Float64Array(Math.max(1, Math.floor(capacity)));
+    }
+
+    /**
+     * Maximum number of values kept.
+     */
+    get capacity(): number {
+        return this.values.length;
+    }
+
+    /**
+     * Number of values currently in the window.
+     */
+    get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Adds a value, dropping the oldest one when the window is full.
+     * 
+     * @param value - Value to add
+     */
+    push(value: number): void {
+        const capacity = this.values.length;
+
+        if (this.count < capacity) {
+            this.values[(this.start + this.count) % capacity] = value;
+            this.count++;
+        } else {
+            const oldest = this.values[this.start];
+            this.sum -= oldest;
+            this.sumOfSquares -= oldest * oldest;
+            this.values[this.start] = value;
+            this.start = (this.start + 1) % capacity;
+        }
+
+        this.sum += value;
+        this.sumOfSquares += value * value;
+
+        if (++this.pushesSinceResync >= capacity) {
+            this.resync();
+        }
+    }
+
+    /**
+     * Gets the mean of the values in the window.
+     * 
+     * @returns Mean, or 0 when the window is empty
+     */
+    getMean(): number {
+        return this.count > 0 ? this.sum / this.count : 0;
+    }
+
+    /**
+     * Gets the population standard deviation of the values in the window.
+     * 
+     * @returns Standard deviation, or 0 when the window is empty
+     */
+    getStandardDeviation(): number {
+        if (this.count === 0) {
+            return 0;
+        }
+        const mean = this.sum / this.count;
+        // Rounding can push the variance of a near-constant window slightly below zero
+        return Math.sqrt(Math.max(0, this.sumOfSquares / this.count - mean * mean));
+    }
+
+    /**
+     * Copies the values in the window, oldest first.
+     * 
+     * @returns New array of the values
+     */
+    toArray(): number[] {
+        const result = new Array<number>(this.count);
+        for (let i = 0; i < this.count; i++) {
+            result[i] = this.values[(this.start + i) % this.values.length];
+        }
+        return result;
+    }
+
+    /**
+     * Removes all values.
+     */
+    clear(): void {
+        this.start = 0;
+        this.count = 0;
+        this.sum = 0;
+        this.sumOfSquares = 0;
+        this.pushesSinceResync = 0;
+    }
+
+    /**
+     * Recomputes the running sums from the buffer.
+     * 
+     * @private
+     */
+    private resync(): void {
+        let sum = 0;
+        let sumOfSquares = 0;
+        for (let i = 0; i < this.count; i++) {
+            const value = this.values[(this.start + i) % this.values.length];
+            sum += value;
+            sumOfSquares += value * value;
+        }
+        this.sum = sum;
+        this.sumOfSquares = sumOfSquares;
+        this.pushesSinceResync = 0;
+    }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBandEnergy, calculateSpectralCentroid } from './audioFeatures';
+import { DEFAULT_FREQUENCY_BANDS, getBandBins } from './beatDetection';
+import { LoudnessMeter } from './loudness';
+import { SectionDetector, SectionEvent } from './sectionDetection';
+import { generateFrequencyFrames, generatePcm, SyntheticSignalOptions } from './syntheticSignals';
+
+const FRAME_RATE = 60;
+
+// Runs a signal through the features the provider extracts and collects the section changes
+function detectSections(options: SyntheticSignalOptions, detector = new SectionDetector()): SectionEvent[] {
+    const { frames, timestamps, sampleRate } = generateFrequencyFrames(options, { frameRate: FRAME_RATE });
+    const { samples } = generatePcm(options);
+    const bins = DEFAULT_FREQUENCY_BANDS.map(band => getBandBins(band, sampleRate, frames[0].length));
+    const bandEnergies = new Float32Array(bins.length);
+    const meter = new LoudnessMeter(sampleRate);
+    const events: SectionEvent[] = [];
+
+    frames.forEach((frame, i) => {
+        const end = Math.min(samples.length, Math.round(((i + 1) * sampleRate) / FRAME_RATE));
+        meter.process(samples.subarray(Math.round((i * sampleRate) / FRAME_RATE), end));
+        bins.forEach((band, b) => {
+            bandEnergies[b] = calculateBandEnergy(frame, band);
+        });
+
+        const event = detector.observeFrame({
+            timestamp: timestamps[i],
+            bandEnergies,
+            spectralCentroid: calculateSpectralCentroid(frame, sampleRate),
+            loudnessLufs: meter.getReading().shortTermLufs,
+        });
+        if (event) {
+            events.push(event);
+        }
+    });
+    return events;
+}
+
+// A volume step from `from` to `to` at `atMs`
+const step = (atMs: number, from: number, to: number) => [
+    { timeMs: atMs - 1, gain: from },
+    { timeMs: atMs, gain: to },
+];
+
+const TRACK: SyntheticSignalOptions = { durationMs: 30000, bpm: 120, noiseFloor: 0.1 };
+
+describe('SectionDetector', () => {
+    it('reports only the intro for an unchanging signal', () => {
+        const events = detectSections(TRACK);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ label: 'intro', previousLabel: null });
+        expect(events[0].timestamp).toBeLessThanOrEqual(1000);
+    });
+
+    it('starts a section where the energy jumps', () => {
+        const events = detectSections({ ...TRACK, volume: step(15000, 0.1, 1) });
+
+        expect(events.map(event => event.label)).toEqual(['intro', 'verse']);
+        // The change shows once the 2s recent window has filled with the louder part
+        expect(events[1].timestamp).toBeGreaterThan(15000);
+        expect(events[1].timestamp).toBeLessThan(17500);
+        expect(events[1].previousLabel).toBe('intro');
+        expect(events[1].novelty).toBeGreaterThanOrEqual(2.5);
+    });
+
+    it('labels a fall in energy a breakdown and the return a drop', () => {
+        const events = detectSections({
+            ...TRACK,
+            durationMs: 45000,
+            volume: [...step(15000, 1, 0.1), ...step(30000, 0.1, 1)],
+        });
+
+        expect(events.map(event => event.label)).toEqual(['intro', 'breakdown', 'drop']);
+        expect(events[1].timestamp).toBeGreaterThan(15000);
+        expect(events[1].timestamp).toBeLessThan(19000);
+        expect(events[2].timestamp).toBeGreaterThan(30000);
+        expect(events[2].timestamp).toBeLessThan(32500);
+        expect(events[2].previousLabel).toBe('breakdown');
+    });
+
+    it('labels a steady rise a build-up', () => {
+        const events = detectSections({
+            ...TRACK,
+            volume: [{ timeMs: 12000, gain: 0.1 }, { timeMs: 24000, gain: 1 }],
+        });
+
+        const buildUp = events.find(event => event.label === 'build-up');
+        expect(buildUp).toBeDefined();
+        expect(buildUp.timestamp).toBeGreaterThan(12000);
+        expect(buildUp.timestamp).toBeLessThan(24000);
+    });
+});
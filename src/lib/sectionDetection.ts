@@ -0,0 +1,400 @@
+/**
+ * Section Detection Module
+ * 
+ * Detects changes in the character of the music (intro, verse, build-up,
+ * drop, breakdown) from slowly changing statistics of the analysis frames:
+ * band energies, spectral centroid and loudness, averaged over half-second
+ * blocks. A section starts when the last few seconds differ markedly from the
+ * seconds before (novelty), or when loudness and brightness keep rising
+ * (build-up). Labels are guesses from the direction of the change.
+ * 
+ * @module sectionDetection
+ */
+
+/**
+ * Kind of section.
+ * 
+ * - 'intro': the start of the music
+ * - 'verse': a new section at a similar energy (also the fallback label)
+ * - 'build-up': loudness and brightness rising steadily
+ * - 'drop': a sudden jump in bass and loudness, typically after a build-up
+ * - 'breakdown': bass and loudness falling away
+ */
+export type SectionLabel = 'intro' | 'verse' | 'build-up' | 'drop' | 'breakdown';
+
+/**
+ * A detected section change.
+ */
+export interface SectionEvent {
+    /** Guessed kind of the new section */
+    label: SectionLabel;
+
+    /** Confidence in the change and its label (0-1) */
+    confidence: number;
+
+    /** Label of the section that ended, null for the first section */
+    previousLabel: SectionLabel | null;
+
+    /** Time of the change in milliseconds (clock of the analyzed frames) */
+    timestamp: number;
+
+    /** How different the new section sounds from the previous one (0 = identical) */
+    novelty: number;
+}
+
+/**
+ * Features of one analysis frame used for section detection.
+ */
+export interface SectionFrameFeatures {
+    /** Frame time in milliseconds */
+    timestamp: number;
+
+    /** Band energies (0-1), lowest band first */
+    bandEnergies: ArrayLike<number>;
+
+    /** Spectral centroid in Hz */
+    spectralCentroid: number;
+
+    /** Short-term loudness in LUFS */
+    loudnessLufs: number;
+}
+
+/**
+ * Options for SectionDetector.
+ */
+export interface SectionDetectorOptions {
+    /**
+     * Length of the blocks frames are averaged into, in milliseconds.
+     * 
+     * @default 500
+     */
+    blockMs?: number;
+
+    /**
+     * Blocks in the recent window compared against the preceding window.
+     * 
+     * @default 4 (2 seconds)
+     */
+    recentBlocks?: number;
+
+    /**
+     * Blocks in the preceding window.
+     * 
+     * @default 12 (6 seconds)
+     */
+    previousBlocks?: number;
+
+    /**
+     * Novelty above which a new section starts.
+     * 
+     * @default 2.5
+     */
+    noveltyThreshold?: number;
+
+    /**
+     * Minimum section length in milliseconds.
+     * 
+     * @default 8000
+     */
+    minSectionMs?: number;
+
+    /**
+     * Number of lowest bands treated as bass, whose rise or fall tells drops from breakdowns.
+     * 
+     * @default 2 (the 'sub' and 'low' bands)
+     */
+    bassBands?: number;
+}
+
+// Normalization of centroid and loudness into roughly the 0-1 range of band energies
+const CENTROID_SCALE_HZ = 8000;
+const LOUDNESS_FLOOR_LUFS = -60;
+
+// Smallest spread used to normalize feature changes, so near-constant features do not explode
+const MIN_FEATURE_SPREAD = 0.03;
+
+// Bass and loudness changes (in normalized units) that count as clearly rising or falling
+const BASS_CHANGE = 0.06;
+const LOUDNESS_CHANGE = 0.05;
+
+// Build-up: loudness and brightness rising over this many blocks by at least this much per block
+const BUILD_UP_BLOCKS = 8;
+const BUILD_UP_SLOPE = 0.003;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * SectionDetector class for detecting section changes from analysis frames.
+ * 
+ * @example
+ * ```typescript
+ * const detector = new SectionDetector();
+ * source.addFrameListener((frame) => {
+ *   const event = detector.observeFrame({
+ *     timestamp: frame.timestamp,
+ *     bandEnergies: frame.bandEnergies,
+ *     spectralCentroid: frame.spectralCentroid,
+ *     loudnessLufs: frame.loudness.shortTermLufs,
+ *   });
+ *   if (event) {
+ *     console.log(`${event.label} (${Math.round(event.confidence * 100)}%)`);
+ *   }
+ * });
+ * ```
+ */
+export class SectionDetector {
+    private readonly blockMs: number;
+    private readonly recentBlocks: number;
+    private readonly previousBlocks: number;
+    private readonly noveltyThreshold: number;
+    private readonly minSectionMs: number;
+    private readonly bassBands: number;
+    private blocks: Float64Array[] = [];
+    private blockSum: Float64Array | null = null;
+    private blockFrames = 0;
+    private blockStart: number | null = null;
+    private currentLabel: SectionLabel | null = null;
+    private sectionStart = 0;
+
+    /**
+     * Creates a new SectionDetector instance.
+     * 
+     * @param options - Window lengths and thresholds
+     */
+    constructor(options: SectionDetectorOptions = {}) {
+        this.blockMs = options.blockMs ?? 500;
+        this.recentBlocks = Math.max(1, options.recentBlocks ?? 4);
+        this.previousBlocks = Math.max(2, options.previousBlocks ?? 12);
+        this.noveltyThreshold = options.noveltyThreshold ?? 2.5;
+        this.minSectionMs = options.minSectionMs ?? 8000;
+        this.bassBands = Math.max(1, options.bassBands ?? 2);
+    }
+
+    /**
+     * Adds a frame and reports a section change if one was detected.
+     * 
+     * Detection runs once per block, so at most one event is returned per block.
+     * 
+     * @param features - Features of the frame
+     * @returns The section change, or null
+     */
+    observeFrame(features: SectionFrameFeatures): SectionEvent | null {
+        const bandCount = features.bandEnergies.length;
+        const dimensions = bandCount + 2;
+
+        if (!this.blockSum || this.blockSum.length !== dimensions) {
+            this.blocks = [];
+            this.blockSum = new Float64Array(dimensions);
+            this.blockFrames = 0;
+            this.blockStart = null;
+        }
+
+        if (this.blockStart === null) {
+            this.blockStart = features.timestamp;
+        }
+
+        const sum = this.blockSum;
+        for (let b = 0; b < bandCount; b++) {
+            sum[b] += features.bandEnergies[b];
+        }
+        sum[bandCount] += features.spectralCentroid / CENTROID_SCALE_HZ;
+        sum[bandCount + 1] += clamp01((features.loudnessLufs - LOUDNESS_FLOOR_LUFS) / -LOUDNESS_FLOOR_LUFS);
+        this.blockFrames++;
+
+        if (features.timestamp - this.blockStart < this.blockMs) {
+            return null;
+        }
+
+        const block = new Float64Array(dimensions);
+        for (let d = 0; d < dimensions; d++) {
+            block[d] = sum[d] / this.blockFrames;
+        }
+        sum.fill(0);
+        this.blockFrames = 0;
+        this.blockStart = null;
+
+        this.blocks.push(block);
+        if (this.blocks.length > this.recentBlocks + this.previousBlocks) {
+            this.blocks.shift();
+        }
+
+        return this.detect(features.timestamp);
+    }
+
+    /**
+     * Gets the label of the current section.
+     * 
+     * @returns Current label, or null before the first section is detected
+     */
+    getCurrentLabel(): SectionLabel | null {
+        return this.currentLabel;
+    }
+
+    /**
+     * Forgets all frames and sections, e.g. when the track changes.
+     */
+    reset(): void {
+        this.blocks = [];
+        this.blockSum = null;
+        this.blockFrames = 0;
+        this.blockStart = null;
+        this.currentLabel = null;
+        this.sectionStart = 0;
+    }
+
+    /**
+     * Runs detection after a block has been added.
+     * 
+     * @private
+     */
+    private detect(timestamp: number): SectionEvent | null {
+        // The music starts with an intro as soon as there is something to describe
+        if (this.currentLabel === null) {
+            return this.startSection('intro', 0.5, timestamp, 0);
+        }
+
+        if (this.blocks.length < this.recentBlocks + this.previousBlocks) {
+            return null;
+        }
+
+        // Build-ups change gradually and rarely reach the novelty threshold. The rise
+        // must lie within the current section, so only the section start bounds it.
+        if (this.currentLabel !== 'build-up' && this.currentLabel !== 'drop' &&
+            timestamp - this.sectionStart >= BUILD_UP_BLOCKS * this.blockMs) {
+            const fit = this.getBuildUpFit();
+            if (fit > 0) {
+                return this.startSection('build-up', 0.3 + 0.5 * fit, timestamp, 0);
+            }
+        }
+
+        if (timestamp - this.sectionStart < this.minSectionMs) {
+            return null;
+        }
+
+        const previous = this.blocks.slice(0, this.previousBlocks);
+        const recent = this.blocks.slice(this.previousBlocks);
+        const dimensions = this.blocks[0].length;
+        const loudnessIndex = dimensions - 1;
+
+        // Novelty: distance between the windows' means in units of the preceding window's spread
+        let squaredDistance = 0;
+        const delta = new Float64Array(dimensions);
+        for (let d = 0; d < dimensions; d++) {
+            const previousMean = previous.reduce((total, block) => total + block[d], 0) / previous.length;
+            const recentMean = recent.reduce((total, block) => total + block[d], 0) / recent.length;
+            const variance = previous.reduce((total, block) => total + (block[d] - previousMean) ** 2, 0) / previous.length;
+            const spread = Math.max(MIN_FEATURE_SPREAD, Math.sqrt(variance));
+
+            delta[d] = recentMean - previousMean;
+            squaredDistance += (delta[d] / spread) ** 2;
+        }
+        const novelty = Math.sqrt(squaredDistance / dimensions);
+
+        let bassDelta = 0;
+        const bassBands = Math.min(this.bassBands, dimensions - 2);
+        for (let b = 0; b < bassBands; b++) {
+            bassDelta += delta[b] / bassBands;
+        }
+        const loudnessDelta = delta[loudnessIndex];
+
+        if (novelty >= this.noveltyThreshold) {
+            const noveltyFit = clamp01((novelty - this.noveltyThreshold) / this.noveltyThreshold);
+
+            // Coming out of the intro, even a big rise is the first full section rather than a drop
+            if (bassDelta > BASS_CHANGE && loudnessDelta > LOUDNESS_CHANGE && this.currentLabel !== 'intro') {
+                // Drops are most convincing right after a build-up or breakdown
+                const setUp = this.currentLabel === 'build-up' || this.currentLabel === 'breakdown' ? 1 : 0.6;
+                const fit = clamp01(bassDelta / (2 * BASS_CHANGE)) * setUp;
+                return this.startSection('drop', 0.5 * noveltyFit + 0.5 * fit, timestamp, novelty);
+            }
+
+            if (bassDelta < -BASS_CHANGE && loudnessDelta < 0) {
+                const fit = clamp01(-bassDelta / (2 * BASS_CHANGE));
+                return this.startSection('breakdown', 0.5 * noveltyFit + 0.5 * fit, timestamp, novelty);
+            }
+
+            // A build-up that keeps rising is still a build-up
+            if (this.currentLabel !== 'build-up' || loudnessDelta <= 0) {
+                return this.startSection('verse', 0.3 + 0.4 * noveltyFit, timestamp, novelty);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * How well the latest blocks match a build-up: loudness rising steadily
+     * (not in a single step) while the spectrum gets brighter.
+     * 
+     * @returns Fit (0-1), 0 when the blocks are not a build-up
+     * @private
+     */
+    private getBuildUpFit(): number {
+        const rising = this.blocks.slice(-BUILD_UP_BLOCKS);
+        const dimensions = rising[0].length;
+        const loudnessIndex = dimensions - 1;
+        const centroidIndex = dimensions - 2;
+
+        const loudnessSlope = this.getSlope(rising, loudnessIndex);
+        if (loudnessSlope <= BUILD_UP_SLOPE || this.getSlope(rising, centroidIndex) <= 0) {
+            return 0;
+        }
+
+        // Most block-to-block steps must rise, and no single step may make up most of the rise
+        let risingSteps = 0;
+        let largestStep = 0;
+        for (let i = 1; i < rising.length; i++) {
+            const step = rising[i][loudnessIndex] - rising[i - 1][loudnessIndex];
+            if (step > 0) {
+                risingSteps++;
+            }
+            largestStep = Math.max(largestStep, step);
+        }
+        const totalRise = rising[rising.length - 1][loudnessIndex] - rising[0][loudnessIndex];
+        if (risingSteps < 0.7 * (rising.length - 1) || largestStep > 0.5 * totalRise) {
+            return 0;
+        }
+
+        return clamp01(loudnessSlope / (3 * BUILD_UP_SLOPE));
+    }
+
+    /**
+     * Least-squares slope of one feature across blocks, per block.
+     * 
+     * @private
+     */
+    private getSlope(blocks: Float64Array[], dimension: number): number {
+        const n = blocks.length;
+        if (n < 2) {
+            return 0;
+        }
+
+        const meanX = (n - 1) / 2;
+        const meanY = blocks.reduce((total, block) => total + block[dimension], 0) / n;
+        let covariance = 0;
+        let varianceX = 0;
+        for (let i = 0; i < n; i++) {
+            covariance += (i - meanX) * (blocks[i][dimension] - meanY);
+            varianceX += (i - meanX) ** 2;
+        }
+        return covariance / varianceX;
+    }
+
+    /**
+     * Records the start of a section and builds its event.
+     * 
+     * @private
+     */
+    private startSection(label: SectionLabel, confidence: number, timestamp: number, novelty: number): SectionEvent {
+        const event: SectionEvent = {
+            label,
+            confidence: clamp01(confidence),
+            previousLabel: this.currentLabel,
+            timestamp,
+            novelty,
+        };
+        this.currentLabel = label;
+        this.sectionStart = timestamp;
+        return event;
+    }
+}
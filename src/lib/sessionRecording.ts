@@ -0,0 +1,584 @@
+/**
+ * Session Recording Module
+ * 
+ * Records what the analysis layer saw and did during a session: per-frame
+ * energies and thresholds, and every beat it dispatched. Recordings are plain
+ * JSON, so a "the stars missed that drop" report can be attached to an issue
+ * and replayed exactly with SessionReplaySource, without the audio file.
+ * 
+ * @module sessionRecording
+ */
+
+import { BaseBeatSource, BeatDetails, BeatSourceKind, GENERIC_BEAT_DETAILS } from './beatSource';
+import type { LiveAnalysisFrame, LiveAnalysisFrameListener } from './liveAnalysisSource';
+import { amplitudeToDb, createSilentLoudnessReading, LoudnessReading } from './loudness';
+import { PERCUSSION_KINDS, PercussionKind } from './percussion';
+
+/**
+ * Current session recording format version. Bump when the format changes.
+ */
+export const SESSION_RECORDING_VERSION = 1;
+
+/**
+ * A recorded analysis frame.
+ */
+export interface RecordedFrame {
+    /** Milliseconds since the recording started */
+    t: number;
+
+    /** Bass energy (0-1) */
+    energy: number;
+
+    /** Adaptive beat threshold */
+    threshold: number;
+
+    /** Largest threshold multiplier that would have fired */
+    triggerMultiplier: number;
+
+    /** RMS level (0-1) */
+    rms: number;
+
+    /** Spectral centroid in Hz */
+    spectralCentroid: number;
+
+    /** Band energies (0-1), in the order of the recording's bandNames */
+    bandEnergies: number[];
+
+    /** Highest true-peak since the previous frame (linear) */
+    truePeak: number;
+
+    /** Momentary loudness in LUFS */
+    momentaryLufs: number;
+
+    /** Short-term loudness in LUFS */
+    shortTermLufs: number;
+
+    /** Integrated loudness in LUFS */
+    integratedLufs: number;
+}
+
+/**
+ * A recorded beat, as dispatched to beat subscribers.
+ */
+export interface RecordedBeat {
+    /** Milliseconds since the recording started */
+    t: number;
+
+    /** Beat intensity (0-1) */
+    strength: number;
+
+    /** Percussion classes of the beat */
+    kinds: PercussionKind[];
+
+    /** Frequency bands that fired */
+    bands: string[];
+
+    /** Kind of source that produced the beat */
+    source: BeatSourceKind;
+
+    /** Bar of the beat */
+    barIndex: number;
+
+    /** Position of the beat in its bar (1-based) */
+    beatInBar: number;
+
+    /** Beats per bar at the time of the beat */
+    beatsPerBar: number;
+
+    /** Whether the beat fell between grid beats */
+    offbeat: boolean;
+}
+
+/**
+ * A complete session recording.
+ */
+export interface SessionRecording {
+    /** Format version (SESSION_RECORDING_VERSION) */
+    version: number;
+
+    /** Wall-clock start of the recording (ISO 8601) */
+    startedAt: string;
+
+    /** Length of the recording in milliseconds */
+    duration: number;
+
+    /** Names of the frequency bands in each frame's bandEnergies */
+    bandNames: string[];
+
+    /** Recorded frames, in time order */
+    frames: RecordedFrame[];
+
+    /** Recorded beats, in time order */
+    beats: RecordedBeat[];
+
+    /** Free-form details about the session (track, detector settings, user agent...) */
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * Beat to record, matching the beat event passed to onBeat subscribers.
+ */
+export interface RecordableBeat {
+    strength: number;
+    kinds: readonly PercussionKind[];
+    bands: readonly string[];
+    timestamp: number;
+    source: BeatSourceKind;
+    barIndex: number;
+    beatInBar: number;
+    beatsPerBar: number;
+    offbeat: boolean;
+}
+
+/**
+ * Options for SessionRecorder.
+ */
+export interface SessionRecorderOptions {
+    /**
+     * Maximum number of frames to keep. Frames beyond the limit are dropped,
+     * beats are always kept.
+     * 
+     * @default 36000 (10 minutes at 60fps)
+     */
+    maxFrames?: number;
+
+    /** Details stored in the recording's metadata */
+    metadata?: Record<string, unknown>;
+}
+
+// Four decimals is well below anything the detector can distinguish and keeps files small
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * SessionRecorder class for capturing frames and beats.
+ * 
+ * @example
+ * ```typescript
+ * const recorder = new SessionRecorder(performance.now());
+ * source.addFrameListener((frame) => recorder.recordFrame(frame));
+ * onBeat((strength, event) => recorder.recordBeat(event));
+ * 
+ * // Later
+ * const json = serializeSessionRecording(recorder.stop(performance.now()));
+ * ```
+ */
+export class SessionRecorder {
+    private readonly startTime: number;
+    private readonly startedAt: string;
+    private readonly maxFrames: number;
+    private readonly metadata: Record<string, unknown>;
+    private frames: RecordedFrame[] = [];
+    private beats: RecordedBeat[] = [];
+    private bandNames: string[] = [];
+    private stoppedRecording: SessionRecording | null = null;
+
+    /**
+     * Creates a new SessionRecorder instance.
+     * 
+     * @param startTime - Start time in milliseconds (performance.now() clock)
+     * @param options - Frame limit and metadata
+     */
+    constructor(startTime: number, options: SessionRecorderOptions = {}) {
+        this.startTime = startTime;
+        this.startedAt = new Date().toISOString();
+        this.maxFrames = Math.max(0, options.maxFrames ?? 36000);
+        this.metadata = { ...options.metadata };
+    }
+
+    /**
+     * Records an analysis frame.
+     * 
+     * @param frame - Frame from a frame listener (copied, so it may be reused afterwards)
+     */
+    recordFrame(frame: Readonly<LiveAnalysisFrame>): void {
+        if (this.stoppedRecording || this.frames.length >= this.maxFrames) {
+            return;
+        }
+        if (this.bandNames.length === 0) {
+            this.bandNames = [...frame.bandNames];
+        }
+
+        this.frames.push({
+            t: round(frame.timestamp - this.startTime),
+            energy: round(frame.energy),
+            threshold: round(frame.threshold),
+            triggerMultiplier: round(frame.triggerMultiplier),
+            rms: round(frame.rms),
+            spectralCentroid: Math.round(frame.spectralCentroid),
+            bandEnergies: Array.from(frame.bandEnergies, round),
+            truePeak: round(frame.loudness.truePeak),
+            momentaryLufs: round(frame.loudness.momentaryLufs),
+            shortTermLufs: round(frame.loudness.shortTermLufs),
+            integratedLufs: round(frame.loudness.integratedLufs),
+        });
+    }
+
+    /**
+     * Records a dispatched beat.
+     * 
+     * @param beat - Beat event passed to onBeat subscribers
+     */
+    recordBeat(beat: RecordableBeat): void {
+        if (this.stoppedRecording) {
+            return;
+        }
+
+        this.beats.push({
+            t: round(beat.timestamp - this.startTime),
+            strength: round(beat.strength),
+            kinds: [...beat.kinds],
+            bands: [...beat.bands],
+            source: beat.source,
+            barIndex: beat.barIndex,
+            beatInBar: beat.beatInBar,
+            beatsPerBar: beat.beatsPerBar,
+            offbeat: beat.offbeat,
+        });
+    }
+
+    /**
+     * Whether stop() has been called.
+     * 
+     * @returns True once the recording is finished
+     */
+    isStopped(): boolean {
+        return this.stoppedRecording !== null;
+    }
+
+    /**
+     * Finishes the recording. Later calls return the same recording.
+     * 
+     * @param endTime - End time in milliseconds (performance.now() clock)
+     * @returns The finished recording
+     */
+    stop(endTime: number): SessionRecording {
+        if (!this.stoppedRecording) {
+            this.stoppedRecording = {
+                version: SESSION_RECORDING_VERSION,
+                startedAt: this.startedAt,
+                duration: round(Math.max(0, endTime - this.startTime)),
+                bandNames: this.bandNames,
+                frames: this.frames,
+                beats: this.beats,
+                metadata: this.metadata,
+            };
+        }
+        return this.stoppedRecording;
+    }
+}
+
+/**
+ * Validates that a value has the shape of a session recording.
+ * 
+ * @param value - Value to check (e.g. parsed JSON)
+ * @returns True if the value is a usable session recording
+ */
+export function isSessionRecording(value: unknown): value is SessionRecording {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const candidate = value as Partial<SessionRecording>;
+    return candidate.version === SESSION_RECORDING_VERSION &&
+        typeof candidate.duration === 'number' &&
+        Array.isArray(candidate.bandNames) &&
+        Array.isArray(candidate.frames) &&
+        candidate.frames.every(frame =>
+            typeof frame?.t === 'number' &&
+            typeof frame.energy === 'number' &&
+            typeof frame.threshold === 'number' &&
+            typeof frame.triggerMultiplier === 'number' &&
+            Array.isArray(frame.bandEnergies) &&
+            typeof frame.truePeak === 'number' &&
+            typeof frame.momentaryLufs === 'number' &&
+            typeof frame.shortTermLufs === 'number' &&
+            typeof frame.integratedLufs === 'number'
+        ) &&
+        Array.isArray(candidate.beats) &&
+        candidate.beats.every(beat =>
+            typeof beat?.t === 'number' &&
+            typeof beat.strength === 'number' &&
+            Array.isArray(beat.kinds) &&
+            beat.kinds.every(kind => PERCUSSION_KINDS.includes(kind)) &&
+            Array.isArray(beat.bands) &&
+            typeof beat.barIndex === 'number' &&
+            typeof beat.beatInBar === 'number' &&
+            typeof beat.beatsPerBar === 'number' &&
+            typeof beat.offbeat === 'boolean'
+        );
+}
+
+/**
+ * Serializes a session recording to JSON.
+ * 
+ * @param recording - Recording to serialize
+ * @returns JSON text
+ */
+export function serializeSessionRecording(recording: SessionRecording): string {
+    return JSON.stringify(recording);
+}
+
+/**
+ * Parses a session recording from JSON.
+ * 
+ * @param json - JSON text produced by serializeSessionRecording()
+ * @returns The recording
+ * @throws Error if the text is not valid JSON or not a supported recording
+ */
+export function parseSessionRecording(json: string): SessionRecording {
+    const value: unknown = JSON.parse(json);
+    if (!isSessionRecording(value)) {
+        throw new Error(`Not a session recording (expected format version ${SESSION_RECORDING_VERSION})`);
+    }
+    return value;
+}
+
+/**
+ * Saves a session recording as a JSON file through the browser's download prompt.
+ * 
+ * @param recording - Recording to save
+ * @param filename - Suggested file name
+ */
+export function downloadSessionRecording(recording: SessionRecording, filename: string = 'beat-session.json'): void {
+    const blob = new Blob([serializeSessionRecording(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * SessionReplaySource class for replaying a session recording.
+ * 
+ * Emits the recorded beats with their recorded kinds and bands, and the
+ * recorded frames to frame listeners, at their original offsets. Replayed
+ * frames have an empty frequencyData array since spectra are not recorded.
+ * 
+ * start() drives the replay from requestAnimationFrame in real time. For
+ * deterministic replays (e.g. in tests), call advanceTo() directly instead.
+ * 
+ * @example
+ * ```typescript
+ * const replay = new SessionReplaySource(parseSessionRecording(json));
+ * activateBeatSource(replay);
+ * replay.start();
+ * ```
+ */
+export class SessionReplaySource extends BaseBeatSource {
+    readonly kind = 'replay' as const;
+    private readonly recording: SessionRecording;
+    private readonly frame: LiveAnalysisFrame;
+    private readonly loudness: LoudnessReading = createSilentLoudnessReading();
+    private frameListeners: Set<LiveAnalysisFrameListener> = new Set();
+    private nextFrameIndex = 0;
+    private nextBeatIndex = 0;
+    private position = 0;
+    private startTime = 0;
+    private animationFrameId: number | null = null;
+
+    /**
+     * Creates a new SessionReplaySource instance.
+     * 
+     * @param recording - Recording to replay
+     */
+    constructor(recording: SessionRecording) {
+        super();
+        this.recording = recording;
+        this.frame = {
+            timestamp: 0,
+            frequencyData: new Uint8Array(0),
+            bandNames: recording.bandNames,
+            bandEnergies: new Float32Array(recording.bandNames.length),
+            energy: 0,
+            threshold: 0,
+            triggerMultiplier: 0,
+            rms: 0,
+            loudness: this.loudness,
+            spectralCentroid: 0,
+            result: null,
+        };
+    }
+
+    /**
+     * Gets the recording being replayed.
+     * 
+     * @returns The recording passed to the constructor
+     */
+    getRecording(): SessionRecording {
+        return this.recording;
+    }
+
+    /**
+     * Registers a listener for replayed frames.
+     * 
+     * @param listener - Called with each replayed frame
+     * @returns Cleanup function to unsubscribe the listener
+     */
+    addFrameListener(listener: LiveAnalysisFrameListener): () => void {
+        this.frameListeners.add(listener);
+        return () => {
+            this.frameListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Gets the replay position.
+     * 
+     * @returns Milliseconds since the start of the recording
+     */
+    getPosition(): number {
+        return this.position;
+    }
+
+    /**
+     * Whether every frame and beat has been replayed.
+     * 
+     * @returns True at the end of the recording
+     */
+    isFinished(): boolean {
+        return this.nextFrameIndex >= this.recording.frames.length &&
+            this.nextBeatIndex >= this.recording.beats.length;
+    }
+
+    /**
+     * Replays everything recorded up to a position, in recorded order.
+     * Each frame's result is the last beat replayed since the previous frame.
+     * 
+     * @param position - Milliseconds since the start of the recording
+     * @param now - Timestamp to report for replayed frames and beats (performance.now() clock)
+     */
+    advanceTo(position: number, now: number = this.startTime + position): void {
+        const { frames, beats } = this.recording;
+        const frame = this.frame;
+        const offset = now - position;
+
+        while (true) {
+            const nextFrame = this.nextFrameIndex < frames.length ? frames[this.nextFrameIndex] : null;
+            const nextBeat = this.nextBeatIndex < beats.length ? beats[this.nextBeatIndex] : null;
+            const frameDue = nextFrame !== null && nextFrame.t <= position;
+            const beatDue = nextBeat !== null && nextBeat.t <= position;
+
+            if (!frameDue && !beatDue) {
+                break;
+            }
+
+            // Beats go first when they share a timestamp with a frame, as in live analysis
+            if (beatDue && (!frameDue || nextBeat.t <= nextFrame.t)) {
+                this.nextBeatIndex++;
+                const timestamp = offset + nextBeat.t;
+                frame.result = { strength: nextBeat.strength, bands: nextBeat.bands, timestamp };
+                this.emit(nextBeat.strength, this.getBeatDetails(nextBeat, timestamp));
+                continue;
+            }
+
+            this.nextFrameIndex++;
+            frame.timestamp = offset + nextFrame.t;
+            frame.energy = nextFrame.energy;
+            frame.threshold = nextFrame.threshold;
+            frame.triggerMultiplier = nextFrame.triggerMultiplier;
+            frame.rms = nextFrame.rms;
+            this.updateLoudness(nextFrame);
+            frame.spectralCentroid = nextFrame.spectralCentroid;
+            for (let b = 0; b < frame.bandEnergies.length; b++) {
+                frame.bandEnergies[b] = nextFrame.bandEnergies[b] ?? 0;
+            }
+
+            this.frameListeners.forEach(listener => {
+                try {
+                    listener(frame);
+                } catch (err) {
+                    console.error('SessionReplaySource: Error in frame listener', err);
+                }
+            });
+            frame.result = null;
+        }
+
+        this.position = position;
+    }
+
+    /**
+     * Rebuilds the details of a recorded beat, including its bar position and replayed time.
+     * 
+     * @private
+     */
+    private getBeatDetails(recorded: RecordedBeat, timestamp: number): BeatDetails {
+        const details: BeatDetails = recorded.kinds.length > 0 || recorded.bands.length > 0
+            ? { kinds: recorded.kinds, bands: recorded.bands }
+            : GENERIC_BEAT_DETAILS;
+
+        return {
+            ...details,
+            timestamp,
+            bar: {
+                barIndex: recorded.barIndex,
+                beatInBar: recorded.beatInBar,
+                beatsPerBar: recorded.beatsPerBar,
+                offbeat: recorded.offbeat,
+            },
+        };
+    }
+
+    /**
+     * Fills the replayed loudness reading from a recorded frame.
+     * 
+     * @private
+     */
+    private updateLoudness(recorded: RecordedFrame): void {
+        const loudness = this.loudness;
+        loudness.rms = recorded.rms;
+        loudness.rmsDb = amplitudeToDb(recorded.rms);
+        loudness.truePeak = recorded.truePeak;
+        loudness.truePeakDb = amplitudeToDb(recorded.truePeak);
+        loudness.momentaryLufs = recorded.momentaryLufs;
+        loudness.shortTermLufs = recorded.shortTermLufs;
+        loudness.integratedLufs = recorded.integratedLufs;
+    }
+
+    /**
+     * Rewinds the replay to the start of the recording.
+     */
+    rewind(): void {
+        this.nextFrameIndex = 0;
+        this.nextBeatIndex = 0;
+        this.position = 0;
+        this.frame.result = null;
+        Object.assign(this.loudness, createSilentLoudnessReading());
+        this.startTime = performance.now();
+    }
+
+    start(): void {
+        if (this.status === 'running') return;
+
+        if (this.isFinished()) {
+            this.rewind();
+        }
+        this.status = 'running';
+        this.startTime = performance.now() - this.position;
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    }
+
+    stop(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        if (this.status === 'running') {
+            this.status = 'stopped';
+        }
+    }
+
+    private tick = (): void => {
+        const now = performance.now();
+        this.advanceTo(now - this.startTime, now);
+
+        if (this.isFinished()) {
+            this.animationFrameId = null;
+            this.status = 'stopped';
+            return;
+        }
+
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ByteSpectrumAnalyzer } from './spectrumAnalysis';
+
+const SAMPLE_RATE = 44100;
+const FFT_SIZE = 2048;
+
+const sine = (frequency: number, amplitude: number): Float32Array =>
+    Float32Array.from({ length: FFT_SIZE }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+describe('ByteSpectrumAnalyzer', () => {
+    it('peaks at the bin of a sine', () => {
+        const analyzer = new ByteSpectrumAnalyzer({ fftSize: FFT_SIZE, smoothingTimeConstant: 0 });
+        const output = new Uint8Array(FFT_SIZE / 2);
+        // Centered on bin 100
+        analyzer.getByteFrequencyData(sine((100 * SAMPLE_RATE) / FFT_SIZE, 0.01), output);
+
+        expect(output.indexOf(Math.max(...output))).toBe(100);
+        expect(output[100]).toBeGreaterThan(0);
+        expect(output[400]).toBe(0);
+    });
+
+    it('reports silence as zeros', () => {
+        const analyzer = new ByteSpectrumAnalyzer({ fftSize: FFT_SIZE });
+        const output = new Uint8Array(FFT_SIZE / 2).fill(7);
+        analyzer.getByteFrequencyData(new Float32Array(FFT_SIZE), output);
+        expect(output.every(value => value === 0)).toBe(true);
+    });
+
+    it('smooths over time until reset', () => {
+        const analyzer = new ByteSpectrumAnalyzer({ fftSize: FFT_SIZE, smoothingTimeConstant: 0.8 });
+        const output = new Uint8Array(FFT_SIZE / 2);
+        const tone = sine((100 * SAMPLE_RATE) / FFT_SIZE, 0.01);
+
+        analyzer.getByteFrequencyData(tone, output);
+        const first = output[100];
+        analyzer.getByteFrequencyData(tone, output);
+        expect(output[100]).toBeGreaterThan(first);
+
+        analyzer.reset();
+        analyzer.getByteFrequencyData(tone, output);
+        expect(output[100]).toBe(first);
+    });
+
+    it('rejects FFT sizes that are not powers of two', () => {
+        expect(() => new ByteSpectrumAnalyzer({ fftSize: 1000 })).toThrow('power of two');
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Spectrum Analysis Module
+ * 
+ * Reproduces the AnalyserNode pipeline without Web Audio: Blackman window,
+ * FFT, smoothing over time and decibel scaling to bytes, as the Web Audio
+ * specification defines them. Used where no AnalyserNode is available, by the
+ * AudioWorklet beat detector and by offline beat evaluation.
+ * 
+ * @module spectrumAnalysis
+ */
+
+/**
+ * Settings of a ByteSpectrumAnalyzer, named after the AnalyserNode properties.
+ */
+export interface ByteSpectrumAnalyzerOptions {
+    /** FFT size (power of two) */
+    fftSize: number;
+
+    /**
+     * Spectrum smoothing (0-1).
+     * 
+     * @default 0.8
+     */
+    smoothingTimeConstant?: number;
+
+    /**
+     * Decibel value mapped to 0.
+     * 
+     * @default -100
+     */
+    minDecibels?: number;
+
+    /**
+     * Decibel value mapped to 255.
+     * 
+     * @default -30
+     */
+    maxDecibels?: number;
+}
+
+/**
+ * In-place iterative radix-2 FFT.
+ * 
+ * @param re - Real parts (length must be a power of two)
+ * @param im - Imaginary parts
+ * @param cosTable - cos(2πk/N) for k < N/2
+ * @param sinTable - sin(2πk/N) for k < N/2
+ */
+function fft(re: Float32Array, im: Float32Array, cosTable: Float32Array, sinTable: Float32Array): void {
+    const n = re.length;
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            let tmp = re[i]; re[i] = re[j]; re[j] = tmp;
+            tmp = im[i]; im[i] = im[j]; im[j] = tmp;
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = n / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = cosTable[k * step];
+                const sin = sinTable[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tRe = re[b] * cos + im[b] * sin;
+                const tIm = im[b] * cos - re[b] * sin;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+            }
+        }
+    }
+}
+
+/**
+ * ByteSpectrumAnalyzer class turning blocks of samples into the byte spectra
+ * AnalyserNode.getByteFrequencyData() reports.
+ * 
+ * Smoothing carries over between calls, so blocks must be analyzed in order,
+ * one per analysis frame.
+ * 
+ * @example
+ * ```typescript
+ * const analyzer = new ByteSpectrumAnalyzer({ fftSize: 2048, smoothingTimeConstant: 0.8 });
+ * const frequencyData = new Uint8Array(1024);
+ * analyzer.getByteFrequencyData(lastSamples, frequencyData); // lastSamples: 2048 samples, oldest first
+ * ```
+ */
+export class ByteSpectrumAnalyzer {
+    readonly fftSize: number;
+    private readonly smoothingTimeConstant: number;
+    private readonly minDecibels: number;
+    private readonly maxDecibels: number;
+    private readonly window: Float32Array;
+    private readonly re: Float32Array;
+    private readonly im: Float32Array;
+    private readonly cosTable: Float32Array;
+    private readonly sinTable: Float32Array;
+    private readonly smoothed: Float32Array;
+
+    /**
+     * Creates a new ByteSpectrumAnalyzer instance.
+     * 
+     * @param options - FFT size, smoothing and decibel range
+     * @throws Error if the FFT size is not a power of two
+     */
+    constructor(options: ByteSpectrumAnalyzerOptions) {
+        const { fftSize } = options;
+        if (fftSize < 2 || (fftSize & (fftSize - 1)) !== 0) {
+            throw new Error(`fftSize must be a power of two, got ${fftSize}`);
+        }
+        this.fftSize = fftSize;
+        this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+        this.minDecibels = options.minDecibels ?? -100;
+        this.maxDecibels = options.maxDecibels ?? -30;
+
+        const binCount = fftSize / 2;
+        this.window = new Float32Array(fftSize);
+        this.re = new Float32Array(fftSize);
+        this.im = new Float32Array(fftSize);
+        this.cosTable = new Float32Array(binCount);
+        this.sinTable = new Float32Array(binCount);
+        this.smoothed = new Float32Array(binCount);
+
+        // Blackman window, as used by AnalyserNode
+        for (let i = 0; i < fftSize; i++) {
+            const phase = (2 * Math.PI * i) / fftSize;
+            this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        }
+        for (let k = 0; k < binCount; k++) {
+            this.cosTable[k] = Math.cos((2 * Math.PI * k) / fftSize);
+            this.sinTable[k] = Math.sin((2 * Math.PI * k) / fftSize);
+        }
+    }
+
+    /**
+     * Analyzes one block of samples.
+     * 
+     * @param samples - The last fftSize samples, oldest first
+     * @param output - Receives one byte per frequency bin (up to fftSize / 2)
+     */
+    getByteFrequencyData(samples: Float32Array, output: Uint8Array): void {
+        const { fftSize, re, im, smoothed } = this;
+
+        for (let i = 0; i < fftSize; i++) {
+            re[i] = samples[i] * this.window[i];
+            im[i] = 0;
+        }
+        fft(re, im, this.cosTable, this.sinTable);
+
+        const smoothing = this.smoothingTimeConstant;
+        const rangeDb = this.maxDecibels - this.minDecibels;
+        const binCount = Math.min(output.length, smoothed.length);
+        for (let k = 0; k < binCount; k++) {
+            const magnitude = Math.sqrt(re[k] * re[k] + im[k] * im[k]) / fftSize;
+            smoothed[k] = smoothing * smoothed[k] + (1 - smoothing) * magnitude;
+
+            const db = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : -Infinity;
+            const scaled = (255 * (db - this.minDecibels)) / rangeDb;
+            output[k] = scaled <= 0 ? 0 : scaled >= 255 ? 255 : scaled;
+        }
+    }
+
+    /**
+     * Forgets the smoothed spectrum, e.g. on track change.
+     */
+    reset(): void {
+        this.smoothed.fill(0);
+    }
+}
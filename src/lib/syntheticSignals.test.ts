@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BeatDetector } from './beatDetection';
+import { DEFAULT_BEAT_TOLERANCE_MS, evaluateBeats } from './beatEvaluation';
+import { FakeBeatDetector } from './fakeBeatDetection';
+import { BREAKBEAT, generateFrequencyFrames, getGroundTruth, SyntheticFrames, SyntheticSignalOptions } from './syntheticSignals';
+import { getTempoDeviation, TempoTracker } from './tempoEstimation';
+
+// Runs detectBeat over the frames of a signal and returns the beat times
+const detectBeats = (signal: SyntheticFrames, detector = new BeatDetector()): { timestamp: number; strength: number }[] => {
+    const beats: { timestamp: number; strength: number }[] = [];
+    signal.frames.forEach((frame, i) => {
+        const strength = detector.detectBeat(frame, signal.timestamps[i]);
+        if (strength !== null) {
+            beats.push({ timestamp: signal.timestamps[i], strength });
+        }
+    });
+    return beats;
+};
+
+const estimateTempo = (options: SyntheticSignalOptions): number | undefined => {
+    const tracker = new TempoTracker();
+    detectBeats(generateFrequencyFrames(options)).forEach(({ timestamp, strength }) => tracker.addOnset(timestamp, strength));
+    return tracker.getEstimate()?.bpm;
+};
+
+describe('getGroundTruth', () => {
+    it('places beats on the tempo grid', () => {
+        const { beats, onsets } = getGroundTruth({ durationMs: 2000, bpm: 120, offsetMs: 100 });
+        expect(beats).toEqual([100, 600, 1100, 1600]);
+        expect(onsets).toEqual(beats);
+    });
+
+    it('places kicks on the pattern positions', () => {
+        const { beats, onsets } = getGroundTruth({ durationMs: 2000, bpm: 120, pattern: BREAKBEAT });
+        expect(beats).toEqual([0, 500, 1000, 1500]);
+        expect(onsets).toEqual([0, 750, 1250]);
+    });
+
+    it('leaves kicks within gaps out of the onsets', () => {
+        const { beats, onsets } = getGroundTruth({ durationMs: 3000, bpm: 120, gaps: [{ startMs: 900, endMs: 2000 }] });
+        expect(beats).toHaveLength(6);
+        expect(onsets).toEqual([0, 500, 2000, 2500]);
+    });
+
+    it('shortens the beat interval as the tempo rises', () => {
+        const { beats } = getGroundTruth({ durationMs: 10000, bpm: 100, endBpm: 140 });
+        const intervals = beats.slice(1).map((time, i) => time - beats[i]);
+        intervals.slice(1).forEach((interval, i) => expect(interval).toBeLessThan(intervals[i]));
+        expect(getTempoDeviation(60000 / intervals[0], 100)).toBeLessThan(0.02);
+        expect(getTempoDeviation(60000 / intervals[intervals.length - 1], 140)).toBeLessThan(0.02);
+    });
+});
+
+describe('detectBeat against ground truth', () => {
+    it('finds the kicks of a steady track', () => {
+        const signal = generateFrequencyFrames({ durationMs: 10000, bpm: 120 });
+        const result = evaluateBeats(detectBeats(signal).map(beat => beat.timestamp), signal.onsets);
+        expect(result.fMeasure).toBeGreaterThan(0.9);
+        expect(Math.abs(result.meanOffsetMs)).toBeLessThan(DEFAULT_BEAT_TOLERANCE_MS / 2);
+    });
+
+    it('finds the kicks over background noise', () => {
+        const signal = generateFrequencyFrames({ durationMs: 10000, bpm: 120, noiseFloor: 0.2, seed: 7 });
+        const result = evaluateBeats(detectBeats(signal).map(beat => beat.timestamp), signal.onsets);
+        expect(result.fMeasure).toBeGreaterThan(0.8);
+    });
+
+    it('stays quiet during gaps', () => {
+        const gap = { startMs: 4000, endMs: 7000 };
+        const signal = generateFrequencyFrames({ durationMs: 10000, bpm: 120, gaps: [gap] });
+        const beats = detectBeats(signal).map(beat => beat.timestamp);
+        expect(beats.filter(time => time > gap.startMs + DEFAULT_BEAT_TOLERANCE_MS && time < gap.endMs)).toEqual([]);
+        expect(evaluateBeats(beats, signal.onsets).recall).toBeGreaterThan(0.8);
+    });
+});
+
+describe('tempo estimation against ground truth', () => {
+    [90, 120, 140].forEach(bpm => {
+        it(`estimates ${bpm} BPM`, () => {
+            const estimate = estimateTempo({ durationMs: 12000, bpm });
+            expect(estimate).toBeDefined();
+            expect(getTempoDeviation(estimate, bpm)).toBeLessThan(0.02);
+        });
+    });
+
+    it('follows a tempo change', () => {
+        const estimate = estimateTempo({ durationMs: 30000, bpm: 100, endBpm: 130 });
+        expect(getTempoDeviation(estimate, 130)).toBeLessThan(0.05);
+    });
+});
+
+describe('FakeBeatDetector against ground truth', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('emits beats on the tempo grid with bar positions', () => {
+        const detector = new FakeBeatDetector(120);
+        const beats: { time: number; beatInBar: number }[] = [];
+        detector.subscribe((_, details) => beats.push({ time: Date.now(), beatInBar: details.bar.beatInBar }));
+
+        const start = Date.now();
+        detector.start();
+        vi.advanceTimersByTime(4000);
+        detector.stop();
+
+        // The metronome's first beat comes one interval after start()
+        const { beats: expected } = getGroundTruth({ durationMs: 4001, bpm: 120, offsetMs: 500 });
+        expect(beats.map(beat => beat.time - start)).toEqual(expected);
+        expect(beats.map(beat => beat.beatInBar)).toEqual([1, 2, 3, 4, 1, 2, 3, 4]);
+    });
+
+    it('follows a tempo change', () => {
+        const detector = new FakeBeatDetector(120);
+        const times: number[] = [];
+        detector.subscribe(() => times.push(Date.now()));
+
+        detector.start();
+        vi.advanceTimersByTime(1000);
+        detector.setBPM(150);
+        const changedAt = Date.now();
+        vi.advanceTimersByTime(2000);
+        detector.stop();
+
+        const after = times.filter(time => time > changedAt).map(time => time - changedAt);
+        expect(after).toEqual(getGroundTruth({ durationMs: 2001, bpm: 150, offsetMs: 400 }).beats);
+    });
+});
@@ -0,0 +1,457 @@
+/**
+ * Synthetic Signals Module
+ * 
+ * Generates test signals with known beat times: kick drum patterns at a tempo,
+ * with swing, tempo ramps, silent gaps, a noise floor and volume automation.
+ * A signal is rendered either as analyser-style frequency frames, to feed
+ * BeatDetector directly, or as PCM samples, to run through a real or offline
+ * audio graph. Both come with the ground truth: the times of the metrical
+ * beats and of every audible kick.
+ * 
+ * @module syntheticSignals
+ */
+
+import { COMMON_TIME, TimeSignature } from './barTracking';
+import { DEFAULT_SAMPLE_RATE } from './beatDetection';
+
+/**
+ * A span of time in milliseconds, from the signal's start.
+ */
+export interface TimeRange {
+    /** Start of the range (inclusive) */
+    startMs: number;
+
+    /** End of the range (exclusive) */
+    endMs: number;
+}
+
+/**
+ * A volume automation point. The gain is interpolated linearly between points
+ * and held before the first and after the last.
+ */
+export interface VolumePoint {
+    /** Time of the point in milliseconds */
+    timeMs: number;
+
+    /** Gain at that time (0 = silent, 1 = unchanged) */
+    gain: number;
+}
+
+/**
+ * Kick positions within a bar, in beats from the downbeat (0 is beat 1, 1.5
+ * is the "and" after beat 2).
+ */
+export type KickPattern = readonly number[];
+
+/**
+ * A kick on every beat of a 4/4 bar.
+ */
+export const FOUR_ON_THE_FLOOR: KickPattern = [0, 1, 2, 3];
+
+/**
+ * Kicks on beat 1 and the "and" of beats 2 and 3, a common breakbeat figure.
+ */
+export const BREAKBEAT: KickPattern = [0, 1.5, 2.5];
+
+/**
+ * Configuration of a synthetic signal.
+ * 
+ * @example
+ * ```typescript
+ * const options: SyntheticSignalOptions = {
+ *   durationMs: 30000,
+ *   bpm: 100,
+ *   endBpm: 130,
+ *   gaps: [{ startMs: 12000, endMs: 14000 }],
+ *   noiseFloor: 0.1,
+ * };
+ * ```
+ */
+export interface SyntheticSignalOptions {
+    /** Length of the signal in milliseconds */
+    durationMs: number;
+
+    /**
+     * Tempo at the start of the signal in BPM.
+     * 
+     * @default 120
+     */
+    bpm?: number;
+
+    /**
+     * Tempo at the end of the signal in BPM. The tempo changes linearly from
+     * `bpm`; omit for a steady tempo.
+     */
+    endBpm?: number;
+
+    /**
+     * Time of the first beat in milliseconds.
+     * 
+     * @default 0
+     */
+    offsetMs?: number;
+
+    /**
+     * Meter the kick pattern repeats in.
+     * 
+     * @default COMMON_TIME
+     */
+    timeSignature?: TimeSignature;
+
+    /**
+     * Kick positions within each bar. Defaults to a kick on every beat of the
+     * time signature.
+     */
+    pattern?: KickPattern;
+
+    /**
+     * Swing amount (0-1). Delays kicks on the "and" of a beat: 0 plays them
+     * straight, 1 plays them as the last triplet eighth (2/3 of the way through
+     * the beat).
+     * 
+     * @default 0
+     */
+    swing?: number;
+
+    /** Spans in which the signal is silent; kicks within them are not part of the ground truth */
+    gaps?: readonly TimeRange[];
+
+    /**
+     * Level of the background noise (0-1).
+     * 
+     * @default 0
+     */
+    noiseFloor?: number;
+
+    /**
+     * Peak level of a kick (0-1).
+     * 
+     * @default 0.9
+     */
+    kickLevel?: number;
+
+    /** Volume automation applied to the whole signal */
+    volume?: readonly VolumePoint[];
+
+    /**
+     * Sample rate the signal is rendered for.
+     * 
+     * @default DEFAULT_SAMPLE_RATE
+     */
+    sampleRate?: number;
+
+    /**
+     * Seed of the noise, so the same options always give the same signal.
+     * 
+     * @default 1
+     */
+    seed?: number;
+}
+
+/**
+ * Known beat times of a signal, in milliseconds from its start.
+ */
+export interface GroundTruth {
+    /** Metrical beats of the tempo grid, whether or not a kick plays on them */
+    beats: number[];
+
+    /** Audible kicks, the onsets a beat detector should find */
+    onsets: number[];
+}
+
+/**
+ * Options for rendering frequency frames.
+ */
+export interface FrequencyFrameOptions {
+    /**
+     * Frames per second.
+     * 
+     * @default 60
+     */
+    frameRate?: number;
+
+    /**
+     * FFT size of the simulated analyser; frames have half as many bins.
+     * 
+     * @default 2048
+     */
+    fftSize?: number;
+}
+
+/**
+ * A signal rendered as analyser frames.
+ */
+export interface SyntheticFrames extends GroundTruth {
+    /** Byte frequency data of each frame, as from AnalyserNode.getByteFrequencyData() */
+    frames: Uint8Array[];
+
+    /** Time of each frame in milliseconds */
+    timestamps: number[];
+
+    /** Sample rate the bins are laid out for */
+    sampleRate: number;
+}
+
+/**
+ * A signal rendered as mono PCM.
+ */
+export interface SyntheticPcm extends GroundTruth {
+    /** Samples in the range -1 to 1 */
+    samples: Float32Array;
+
+    /** Sample rate of the samples */
+    sampleRate: number;
+}
+
+// Frame-level kick shape: a bass body and a shorter, brighter attack
+const KICK_BODY_HZ: readonly [number, number] = [20, 150];
+const KICK_ATTACK_HZ: readonly [number, number] = [150, 2000];
+const KICK_BODY_DECAY_MS = 60;
+const KICK_ATTACK_DECAY_MS = 10;
+const KICK_ATTACK_LEVEL = 0.5;
+
+// PCM kick: a sine whose pitch and amplitude decay exponentially
+const KICK_PITCH_START_HZ = 150;
+const KICK_PITCH_END_HZ = 50;
+const KICK_PITCH_DECAY_S = 0.03;
+const KICK_AMPLITUDE_DECAY_S = 0.12;
+const KICK_LENGTH_S = 0.4;
+
+// A kick is faded out after this many body decays
+const KICK_DECAYS = 6;
+
+/**
+ * Gets the ground truth of a signal without rendering it.
+ * 
+ * @param options - Signal configuration
+ * @returns Beat and kick times in milliseconds
+ * 
+ * @example
+ * ```typescript
+ * const { onsets } = getGroundTruth({ durationMs: 10000, bpm: 120, swing: 0.5, pattern: BREAKBEAT });
+ * ```
+ */
+export function getGroundTruth(options: SyntheticSignalOptions): GroundTruth {
+    const durationMs = options.durationMs;
+    const timeSignature = options.timeSignature ?? COMMON_TIME;
+    const pattern = options.pattern ?? Array.from({ length: timeSignature.beatsPerBar }, (_, beat) => beat);
+    const swing = Math.max(0, Math.min(1, options.swing ?? 0));
+    const timeAtBeat = createTempoMap(options);
+
+    const beats: number[] = [];
+    for (let beat = 0; ; beat++) {
+        const time = timeAtBeat(beat);
+        if (time >= durationMs) break;
+        beats.push(time);
+    }
+
+    const onsets: number[] = [];
+    for (let bar = 0; timeAtBeat(bar * timeSignature.beatsPerBar) < durationMs; bar++) {
+        pattern.forEach(position => {
+            // Only kicks on the "and" of a beat swing
+            const swung = position % 1 === 0.5 ? position + swing / 6 : position;
+            const time = timeAtBeat(bar * timeSignature.beatsPerBar + swung);
+            if (time < durationMs && isAudible(options, time)) {
+                onsets.push(time);
+            }
+        });
+    }
+    onsets.sort((a, b) => a - b);
+
+    return { beats, onsets };
+}
+
+/**
+ * Renders a signal as analyser frames, to feed BeatDetector without any audio.
+ * 
+ * @param options - Signal configuration
+ * @param frameOptions - Frame rate and FFT size
+ * @returns Frames, their timestamps and the ground truth
+ * 
+ * @example
+ * ```typescript
+ * const signal = generateFrequencyFrames({ durationMs: 20000, bpm: 128, noiseFloor: 0.2 });
+ * const detector = new BeatDetector(60, 1.3, 100, { sampleRate: signal.sampleRate });
+ * const detected = signal.frames
+ *   .map((frame, i) => detector.detectBeat(frame, signal.timestamps[i]) !== null ? signal.timestamps[i] : null)
+ *   .filter((time): time is number => time !== null);
+ * ```
+ */
+export function generateFrequencyFrames(
+    options: SyntheticSignalOptions,
+    frameOptions: FrequencyFrameOptions = {}
+): SyntheticFrames {
+    const truth = getGroundTruth(options);
+    const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    const frameRate = frameOptions.frameRate ?? 60;
+    const binCount = (frameOptions.fftSize ?? 2048) / 2;
+    const hzPerBin = sampleRate / (2 * binCount);
+    const kickLevel = options.kickLevel ?? 0.9;
+    const noiseFloor = options.noiseFloor ?? 0;
+    const random = createRandom(options.seed ?? 1);
+
+    const toBin = (hz: number) => Math.min(binCount - 1, Math.round(hz / hzPerBin));
+    const [bodyStart, bodyEnd] = KICK_BODY_HZ.map(toBin);
+    const [attackStart, attackEnd] = KICK_ATTACK_HZ.map(toBin);
+
+    const frames: Uint8Array[] = [];
+    const timestamps: number[] = [];
+    const levels = new Float32Array(binCount);
+    let nextOnset = 0;
+
+    for (let frame = 0; ; frame++) {
+        const time = (frame * 1000) / frameRate;
+        if (time >= options.durationMs) break;
+
+        while (nextOnset < truth.onsets.length && truth.onsets[nextOnset] <= time) {
+            nextOnset++;
+        }
+        const lastOnset = nextOnset > 0 ? truth.onsets[nextOnset - 1] : null;
+        const sinceKick = lastOnset !== null ? time - lastOnset : Infinity;
+        const body = sinceKick < KICK_BODY_DECAY_MS * KICK_DECAYS
+            ? kickLevel * Math.exp(-sinceKick / KICK_BODY_DECAY_MS)
+            : 0;
+        const attack = sinceKick < KICK_ATTACK_DECAY_MS * KICK_DECAYS
+            ? kickLevel * KICK_ATTACK_LEVEL * Math.exp(-sinceKick / KICK_ATTACK_DECAY_MS)
+            : 0;
+
+        for (let bin = 0; bin < binCount; bin++) {
+            levels[bin] = noiseFloor * random();
+        }
+        for (let bin = bodyStart; bin <= bodyEnd; bin++) {
+            levels[bin] = Math.max(levels[bin], body);
+        }
+        for (let bin = attackStart; bin <= attackEnd; bin++) {
+            levels[bin] = Math.max(levels[bin], attack);
+        }
+
+        const gain = getGain(options, time);
+        const data = new Uint8Array(binCount);
+        for (let bin = 0; bin < binCount; bin++) {
+            data[bin] = Math.round(255 * Math.min(1, levels[bin] * gain));
+        }
+        frames.push(data);
+        timestamps.push(time);
+    }
+
+    return { ...truth, frames, timestamps, sampleRate };
+}
+
+/**
+ * Renders a signal as mono PCM, with each kick as a sine sweeping down from
+ * 150 Hz to 50 Hz.
+ * 
+ * @param options - Signal configuration
+ * @returns Samples and the ground truth
+ * 
+ * @example
+ * ```typescript
+ * const { samples, sampleRate, onsets } = generatePcm({ durationMs: 10000, bpm: 90 });
+ * const buffer = new AudioBuffer({ length: samples.length, sampleRate });
+ * buffer.copyToChannel(samples, 0);
+ * ```
+ */
+export function generatePcm(options: SyntheticSignalOptions): SyntheticPcm {
+    const truth = getGroundTruth(options);
+    const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    const kickLevel = options.kickLevel ?? 0.9;
+    const noiseFloor = options.noiseFloor ?? 0;
+    const random = createRandom(options.seed ?? 1);
+    const samples = new Float32Array(Math.floor((options.durationMs / 1000) * sampleRate));
+
+    if (noiseFloor > 0) {
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = noiseFloor * (random() * 2 - 1);
+        }
+    }
+
+    const kickLength = Math.floor(KICK_LENGTH_S * sampleRate);
+    truth.onsets.forEach(onset => {
+        const start = Math.round((onset / 1000) * sampleRate);
+        let phase = 0;
+        for (let i = 0; i < kickLength && start + i < samples.length; i++) {
+            const t = i / sampleRate;
+            const frequency = KICK_PITCH_END_HZ +
+                (KICK_PITCH_START_HZ - KICK_PITCH_END_HZ) * Math.exp(-t / KICK_PITCH_DECAY_S);
+            phase += (2 * Math.PI * frequency) / sampleRate;
+            samples[start + i] += kickLevel * Math.exp(-t / KICK_AMPLITUDE_DECAY_S) * Math.sin(phase);
+        }
+    });
+
+    for (let i = 0; i < samples.length; i++) {
+        const gain = getGain(options, (i / sampleRate) * 1000);
+        samples[i] = Math.max(-1, Math.min(1, samples[i] * gain));
+    }
+
+    return { ...truth, samples, sampleRate };
+}
+
+/**
+ * Builds the function from beat position to time for a steady or linearly
+ * ramping tempo. The beat position p falls where the integral of the tempo
+ * since `offsetMs` reaches p beats.
+ */
+function createTempoMap(options: SyntheticSignalOptions): (beat: number) => number {
+    const startBpm = options.bpm ?? 120;
+    const endBpm = options.endBpm ?? startBpm;
+    const offsetMs = options.offsetMs ?? 0;
+
+    // Beats elapsed since time 0: b * t + a * t^2, with t in milliseconds
+    const b = startBpm / 60000;
+    const a = (endBpm - startBpm) / (2 * options.durationMs * 60000);
+    const beatsAtOffset = b * offsetMs + a * offsetMs * offsetMs;
+
+    return (beat: number) => {
+        const target = beatsAtOffset + beat;
+        if (a === 0) {
+            return target / b;
+        }
+        const discriminant = b * b + 4 * a * target;
+        if (discriminant < 0) {
+            // A slowing ramp that stops before reaching this beat
+            return Infinity;
+        }
+        // Root of a * t^2 + b * t - target, in the form that stays accurate as a approaches 0
+        return (2 * target) / (b + Math.sqrt(discriminant));
+    };
+}
+
+function isAudible(options: SyntheticSignalOptions, time: number): boolean {
+    return getGain(options, time) > 0;
+}
+
+// Volume automation gain at a time, 0 within gaps
+function getGain(options: SyntheticSignalOptions, time: number): number {
+    if (options.gaps?.some(gap => time >= gap.startMs && time < gap.endMs)) {
+        return 0;
+    }
+
+    const points = options.volume;
+    if (!points || points.length === 0) {
+        return 1;
+    }
+    if (time <= points[0].timeMs) {
+        return points[0].gain;
+    }
+    for (let i = 1; i < points.length; i++) {
+        const next = points[i];
+        if (time < next.timeMs) {
+            const previous = points[i - 1];
+            const progress = (time - previous.timeMs) / (next.timeMs - previous.timeMs);
+            return previous.gain + (next.gain - previous.gain) * progress;
+        }
+    }
+    return points[points.length - 1].gain;
+}
+
+// Seeded uniform random numbers in [0, 1) (mulberry32)
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
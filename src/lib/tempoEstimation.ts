@@ -0,0 +1,392 @@
+/**
+ * Tempo Estimation Module
+ * 
+ * Estimates the tempo (BPM) of music from a stream of detected onsets.
+ * Builds an inter-onset-interval (IOI) histogram over a sliding window.
+ * Intervals are folded into a single octave so that onsets one, two or four
+ * beats apart all reinforce the same tempo class; the octave is then chosen
+ * from the spacing of adjacent onsets.
+ * 
+ * @module tempoEstimation
+ */
+
+/**
+ * Configuration for the tempo tracker.
+ * 
+ * @example
+ * ```typescript
+ * const options: TempoTrackerOptions = {
+ *   minBpm: 60,
+ *   maxBpm: 180,
+ *   windowMs: 8000,
+ * };
+ * ```
+ */
+export interface TempoTrackerOptions {
+    /**
+     * Lowest tempo reported. Slower intervals are doubled into range.
+     * 
+     * @default 60
+     */
+    minBpm?: number;
+
+    /**
+     * Highest tempo reported. Faster intervals are halved into range.
+     * 
+     * @default 180
+     */
+    maxBpm?: number;
+
+    /**
+     * Length of the onset window in milliseconds.
+     * Longer windows give steadier estimates but react slower to tempo changes.
+     * 
+     * @default 8000
+     */
+    windowMs?: number;
+
+    /**
+     * Minimum number of onsets in the window before a tempo is reported.
+     * 
+     * @default 4
+     */
+    minOnsets?: number;
+}
+
+/**
+ * A tempo estimate with its confidence.
+ */
+export interface TempoEstimate {
+    /** Estimated tempo in beats per minute */
+    bpm: number;
+
+    /**
+     * Share of histogram weight supporting the estimate (0-1).
+     * Values near 1 mean nearly every onset interval agrees with the tempo.
+     */
+    confidence: number;
+}
+
+/**
+ * Onset stored in the tracker window.
+ */
+interface Onset {
+    timestamp: number;
+    strength: number;
+}
+
+// Longest inter-onset interval considered (ms). Intervals spanning several beats
+// are still useful because they are folded back into one octave.
+const MAX_INTERVAL_MS = 2000;
+
+// Histogram resolution: bins per tempo octave (~0.6% of the tempo per bin)
+const BINS_PER_OCTAVE = 120;
+
+// Gaussian spread (in bins) applied when adding an interval to the histogram,
+// so jittery onsets around the same tempo still accumulate in one peak
+const HISTOGRAM_SIGMA_BINS = 2;
+const HISTOGRAM_SPREAD_BINS = 6;
+
+// Half-width (in bins) of the peak region used to refine the tempo and compute confidence
+const PEAK_HALF_WIDTH_BINS = 5;
+
+/**
+ * Folds a tempo into [minBpm, maxBpm] by doubling or halving.
+ * 
+ * @param bpm - Tempo to fold
+ * @param minBpm - Lower bound of the target range
+ * @param maxBpm - Upper bound of the target range
+ * @returns Folded tempo, or null if the tempo is not positive
+ * 
+ * @example
+ * ```typescript
+ * foldTempo(240, 60, 180); // 120
+ * foldTempo(45, 60, 180);  // 90
+ * ```
+ */
+export function foldTempo(bpm: number, minBpm: number, maxBpm: number): number | null {
+    if (!Number.isFinite(bpm) || bpm <= 0) {
+        return null;
+    }
+
+    let folded = bpm;
+    while (folded > maxBpm) {
+        folded /= 2;
+    }
+    while (folded < minBpm) {
+        folded *= 2;
+    }
+
+    // Ranges narrower than an octave may not contain a folded value
+    return folded <= maxBpm ? folded : null;
+}
+
+/**
+ * Calculates how far a measured tempo deviates from a reference tempo.
+ * 
+ * Octave errors (half or double time) are forgiven: the measured tempo is
+ * folded into the octave around the reference before comparing.
+ * 
+ * @param measuredBpm - Tempo reported by the tracker
+ * @param referenceBpm - Expected tempo, e.g. from track metadata
+ * @returns Relative deviation (0 = exact match, 0.05 = 5% off)
+ * 
+ * @example
+ * ```typescript
+ * getTempoDeviation(202, 101); // 0 (double time)
+ * getTempoDeviation(96, 101);  // ~0.05
+ * ```
+ */
+export function getTempoDeviation(measuredBpm: number, referenceBpm: number): number {
+    const folded = foldTempo(measuredBpm, referenceBpm / Math.SQRT2, referenceBpm * Math.SQRT2);
+    if (folded === null) {
+        return Infinity;
+    }
+    return Math.abs(folded - referenceBpm) / referenceBpm;
+}
+
+/**
+ * TempoTracker class for estimating tempo from detected beats.
+ * 
+ * Feed it the onsets produced by BeatDetector.detectBeat() and it keeps
+ * a running tempo estimate. Each onset pair within the window votes for a
+ * tempo, weighted by the strength of both onsets.
+ * 
+ * @example
+ * ```typescript
+ * const detector = new BeatDetector();
+ * const tempoTracker = new TempoTracker();
+ * 
+ * function analyzeFrame(timestamp: number) {
+ *   const beatStrength = detector.detectBeat(frequencyData, timestamp);
+ *   if (beatStrength !== null) {
+ *     tempoTracker.addOnset(timestamp, beatStrength);
+ *   }
+ * 
+ *   const estimate = tempoTracker.getEstimate();
+ *   if (estimate) {
+ *     console.log(`${estimate.bpm.toFixed(1)} BPM (${Math.round(estimate.confidence * 100)}%)`);
+ *   }
+ * }
+ * ```
+ */
+export class TempoTracker {
+    private onsets: Onset[] = [];
+    private histogram = new Float64Array(BINS_PER_OCTAVE);
+    private estimate: TempoEstimate | null = null;
+    private readonly minBpm: number;
+    private readonly maxBpm: number;
+    private readonly windowMs: number;
+    private readonly minOnsets: number;
+
+    /**
+     * Creates a new TempoTracker instance.
+     * 
+     * @param options - Tempo range and window configuration
+     * 
+     * @example
+     * ```typescript
+     * // Default range 60-180 BPM over an 8 second window
+     * const tracker = new TempoTracker();
+     * 
+     * // Faster music
+     * const dnbTracker = new TempoTracker({ minBpm: 120, maxBpm: 200 });
+     * ```
+     */
+    constructor(options: TempoTrackerOptions = {}) {
+        this.minBpm = options.minBpm ?? 60;
+        this.maxBpm = options.maxBpm ?? 180;
+        this.windowMs = options.windowMs ?? 8000;
+        this.minOnsets = options.minOnsets ?? 4;
+    }
+
+    /**
+     * Adds a detected onset and updates the tempo estimate.
+     * 
+     * @param timestamp - Onset time in milliseconds (same clock as BeatDetector timestamps)
+     * @param strength - Onset strength (0-1), used to weight its votes
+     * @returns Updated tempo estimate, or null if there is not enough data yet
+     * 
+     * @example
+     * ```typescript
+     * const estimate = tracker.addOnset(performance.now(), 0.8);
+     * ```
+     */
+    addOnset(timestamp: number, strength: number = 1): TempoEstimate | null {
+        // Ignore out-of-order timestamps (e.g. after a clock reset without reset())
+        const last = this.onsets[this.onsets.length - 1];
+        if (last && timestamp <= last.timestamp) {
+            return this.estimate;
+        }
+
+        this.onsets.push({ timestamp, strength: Math.max(0.05, Math.min(1, strength)) });
+
+        // Drop onsets that fell out of the window
+        const cutoff = timestamp - this.windowMs;
+        let firstInWindow = 0;
+        while (firstInWindow < this.onsets.length && this.onsets[firstInWindow].timestamp < cutoff) {
+            firstInWindow++;
+        }
+        if (firstInWindow > 0) {
+            this.onsets.splice(0, firstInWindow);
+        }
+
+        this.estimate = this.computeEstimate();
+        return this.estimate;
+    }
+
+    /**
+     * Gets the current tempo estimate.
+     * 
+     * @returns Tempo in BPM, or null if not enough onsets have been seen
+     */
+    getTempo(): number | null {
+        return this.estimate ? this.estimate.bpm : null;
+    }
+
+    /**
+     * Gets the confidence of the current tempo estimate.
+     * 
+     * @returns Confidence (0-1), 0 when no estimate is available
+     */
+    getConfidence(): number {
+        return this.estimate ? this.estimate.confidence : 0;
+    }
+
+    /**
+     * Gets the current tempo estimate with its confidence.
+     * 
+     * @returns Tempo estimate, or null if not enough onsets have been seen
+     */
+    getEstimate(): TempoEstimate | null {
+        return this.estimate;
+    }
+
+    /**
+     * Clears all onsets and the current estimate.
+     * Call when switching tracks so the previous tempo does not linger.
+     */
+    reset(): void {
+        this.onsets = [];
+        this.estimate = null;
+    }
+
+    /**
+     * Builds the IOI histogram for the current window and picks its peak.
+     * 
+     * The histogram is circular over one octave (log2 of the tempo), so a tempo
+     * near the octave boundary does not get split across both ends.
+     * 
+     * @private
+     */
+    private computeEstimate(): TempoEstimate | null {
+        const onsets = this.onsets;
+        if (onsets.length < this.minOnsets) {
+            return null;
+        }
+
+        const histogram = this.histogram;
+        histogram.fill(0);
+
+        for (let i = 0; i < onsets.length; i++) {
+            for (let j = i + 1; j < onsets.length; j++) {
+                const interval = onsets[j].timestamp - onsets[i].timestamp;
+                if (interval > MAX_INTERVAL_MS) {
+                    break;
+                }
+
+                // Position of this tempo within its octave, in bins
+                const octavePosition = Math.log2(60000 / interval / this.minBpm);
+                const center = (octavePosition - Math.floor(octavePosition)) * BINS_PER_OCTAVE;
+
+                // Adjacent onsets vote more strongly than onsets several beats apart
+                const weight = (onsets[i].strength * onsets[j].strength) / (j - i);
+
+                const lo = Math.floor(center) - HISTOGRAM_SPREAD_BINS;
+                const hi = Math.ceil(center) + HISTOGRAM_SPREAD_BINS;
+                for (let bin = lo; bin <= hi; bin++) {
+                    const distance = (bin - center) / HISTOGRAM_SIGMA_BINS;
+                    const wrapped = (bin + BINS_PER_OCTAVE) % BINS_PER_OCTAVE;
+                    histogram[wrapped] += weight * Math.exp(-0.5 * distance * distance);
+                }
+            }
+        }
+
+        // Find peak bin
+        let peakBin = 0;
+        let histogramMass = 0;
+        for (let bin = 0; bin < BINS_PER_OCTAVE; bin++) {
+            histogramMass += histogram[bin];
+            if (histogram[bin] > histogram[peakBin]) {
+                peakBin = bin;
+            }
+        }
+
+        if (histogramMass === 0) {
+            return null;
+        }
+
+        // Refine with a weighted average around the peak, and measure how much
+        // of the histogram mass sits in the peak region
+        let peakMass = 0;
+        let weightedOffset = 0;
+        for (let offset = -PEAK_HALF_WIDTH_BINS; offset <= PEAK_HALF_WIDTH_BINS; offset++) {
+            const value = histogram[(peakBin + offset + BINS_PER_OCTAVE) % BINS_PER_OCTAVE];
+            peakMass += value;
+            weightedOffset += value * offset;
+        }
+
+        const tempoClass = this.minBpm * Math.pow(2, (peakBin + weightedOffset / peakMass) / BINS_PER_OCTAVE);
+
+        return {
+            bpm: this.chooseOctave(tempoClass),
+            confidence: Math.min(1, peakMass / histogramMass),
+        };
+    }
+
+    /**
+     * Picks the octave of a tempo class that best matches adjacent onset spacing.
+     * 
+     * Uses the strength-weighted median interval between consecutive onsets as the
+     * reference, which is robust to occasional (usually weaker) off-beat onsets.
+     * 
+     * @param tempoClass - Tempo within the lowest octave of the range
+     * @returns Tempo in BPM within [minBpm, maxBpm] when possible
+     * 
+     * @private
+     */
+    private chooseOctave(tempoClass: number): number {
+        // Weighted median of adjacent intervals, each weighted by its weaker onset
+        const intervals: { interval: number; weight: number }[] = [];
+        let totalWeight = 0;
+        for (let i = 1; i < this.onsets.length; i++) {
+            const weight = Math.min(this.onsets[i].strength, this.onsets[i - 1].strength);
+            intervals.push({ interval: this.onsets[i].timestamp - this.onsets[i - 1].timestamp, weight });
+            totalWeight += weight;
+        }
+        intervals.sort((a, b) => a.interval - b.interval);
+
+        let medianInterval = intervals[intervals.length - 1].interval;
+        let accumulated = 0;
+        for (const entry of intervals) {
+            accumulated += entry.weight;
+            if (accumulated >= totalWeight / 2) {
+                medianInterval = entry.interval;
+                break;
+            }
+        }
+        const referenceBpm = 60000 / medianInterval;
+
+        let best = tempoClass;
+        let bestDistance = Infinity;
+        for (let candidate = tempoClass; candidate <= this.maxBpm; candidate *= 2) {
+            const distance = Math.abs(Math.log2(candidate / referenceBpm));
+            if (distance < bestDistance) {
+                best = candidate;
+                bestDistance = distance;
+            }
+        }
+
+        return best;
+    }
+}
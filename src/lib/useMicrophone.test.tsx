@@ -0,0 +1,182 @@
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioAnalysisContextValue, AudioAnalysisProvider, useAudioAnalysis } from '../contexts/AudioAnalysisContext';
+import { FakeAnimationClock } from '../test/animationClock';
+import { createFakeMediaStream, FakeWebAudioController, installFakeWebAudio, noise } from '../test/fakeWebAudio';
+import { useMicrophone, UseMicrophoneOptions } from './useMicrophone';
+
+type Microphone = ReturnType<typeof useMicrophone>;
+
+// getUserMedia that resolves or rejects when the test says so, like a permission prompt
+const createPermissionPrompt = () => {
+    let settle: { grant: (stream: MediaStream) => void; deny: (error: Error) => void } | null = null;
+    const getUserMedia = vi.fn(() => new Promise<MediaStream>((resolve, reject) => {
+        settle = { grant: resolve, deny: reject };
+    }));
+    return {
+        mediaDevices: { getUserMedia },
+        grant: (stream: MediaStream) => settle?.grant(stream),
+        deny: (error: Error) => settle?.deny(error),
+    };
+};
+
+describe('useMicrophone', () => {
+    let clock: FakeAnimationClock;
+    let restoreClock: () => void;
+    let audio: FakeWebAudioController;
+    let mic: Microphone;
+    let analysis: AudioAnalysisContextValue;
+
+    const Microphone: React.FC<{ options: UseMicrophoneOptions }> = ({ options }) => {
+        mic = useMicrophone(options);
+        return null;
+    };
+
+    const Analysis: React.FC = () => {
+        analysis = useAudioAnalysis();
+        return null;
+    };
+
+    const renderMicrophone = (options: UseMicrophoneOptions) => {
+        const tree = (withMicrophone: boolean) => (
+            <AudioAnalysisProvider preferAudioWorklet={false}>
+                <Analysis />
+                {withMicrophone && <Microphone options={options} />}
+            </AudioAnalysisProvider>
+        );
+        const result = render(tree(true));
+        return { unmountMicrophone: () => result.rerender(tree(false)) };
+    };
+
+    const createMicrophoneStream = (trackCount = 1) => {
+        const fake = createFakeMediaStream(trackCount);
+        audio.setStreamScript(fake.stream, noise());
+        return fake;
+    };
+
+    beforeEach(() => {
+        clock = new FakeAnimationClock();
+        restoreClock = clock.install();
+        audio = installFakeWebAudio({ clock });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        audio.uninstall();
+        restoreClock();
+        vi.restoreAllMocks();
+    });
+
+    it('analyzes the granted stream', async () => {
+        const prompt = createPermissionPrompt();
+        const { stream } = createMicrophoneStream();
+        renderMicrophone({ mediaDevices: prompt.mediaDevices });
+
+        await act(async () => {
+            void mic.start();
+        });
+        expect(mic.status).toBe('requesting');
+        expect(prompt.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+            audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        });
+
+        await act(async () => prompt.grant(stream));
+        expect(mic.status).toBe('active');
+        expect(analysis.analysisSources.map(source => source.stream)).toEqual([stream]);
+    });
+
+    it('reports a denied permission without registering anything', async () => {
+        const prompt = createPermissionPrompt();
+        renderMicrophone({ mediaDevices: prompt.mediaDevices });
+
+        await act(async () => {
+            void mic.start();
+        });
+        // Shaped like the DOMException browsers reject with
+        await act(async () => prompt.deny(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' })));
+
+        expect(mic.status).toBe('denied');
+        expect(mic.error).toBe('Microphone access was denied');
+        expect(analysis.analysisSources).toEqual([]);
+        expect(analysis.isAnalyzing).toBe(false);
+    });
+
+    it('stops a stream granted after the request was cancelled', async () => {
+        const prompt = createPermissionPrompt();
+        const { stream, tracks } = createMicrophoneStream();
+        renderMicrophone({ mediaDevices: prompt.mediaDevices });
+
+        await act(async () => {
+            void mic.start();
+        });
+        act(() => mic.stop());
+        await act(async () => prompt.grant(stream));
+
+        expect(mic.status).toBe('idle');
+        expect(tracks.map(track => track.readyState)).toEqual(['ended']);
+        expect(analysis.analysisSources).toEqual([]);
+    });
+
+    it('stops the tracks and unregisters the stream on stop()', async () => {
+        const { stream, tracks } = createMicrophoneStream(2);
+        renderMicrophone({ mediaDevices: { getUserMedia: async () => stream } });
+
+        await act(async () => mic.start());
+        expect(analysis.analysisSources).toHaveLength(1);
+
+        act(() => mic.stop());
+        expect(mic.status).toBe('idle');
+        expect(tracks.map(track => track.readyState)).toEqual(['ended', 'ended']);
+        expect(analysis.analysisSources).toEqual([]);
+    });
+
+    it('reports the stream ending once all its audio tracks have ended', async () => {
+        const { stream, tracks } = createMicrophoneStream(2);
+        renderMicrophone({ mediaDevices: { getUserMedia: async () => stream } });
+        await act(async () => mic.start());
+
+        act(() => tracks[0].end());
+        expect(mic.status).toBe('active');
+        expect(analysis.analysisSources).toHaveLength(1);
+
+        act(() => tracks[1].end());
+        expect(mic.status).toBe('ended');
+        expect(mic.error).toBe('The microphone was disconnected');
+        expect(tracks.map(track => track.readyState)).toEqual(['ended', 'ended']);
+        expect(analysis.analysisSources).toEqual([]);
+        expect(analysis.error?.code).toBe('input-ended');
+    });
+
+    it('stops the tracks and unregisters the stream on unmount', async () => {
+        const { stream, tracks } = createMicrophoneStream();
+        const { unmountMicrophone } = renderMicrophone({ mediaDevices: { getUserMedia: async () => stream } });
+        await act(async () => mic.start());
+        expect(analysis.isAnalyzing).toBe(true);
+
+        act(() => unmountMicrophone());
+        expect(tracks.map(track => track.readyState)).toEqual(['ended']);
+        expect(analysis.analysisSources).toEqual([]);
+    });
+
+    it('stops a stream granted after unmount', async () => {
+        const prompt = createPermissionPrompt();
+        const { stream, tracks } = createMicrophoneStream();
+        const { unmountMicrophone } = renderMicrophone({ mediaDevices: prompt.mediaDevices });
+
+        await act(async () => {
+            void mic.start();
+        });
+        act(() => unmountMicrophone());
+        await act(async () => prompt.grant(stream));
+
+        expect(tracks.map(track => track.readyState)).toEqual(['ended']);
+        expect(analysis.analysisSources).toEqual([]);
+    });
+
+    it('reports unsupported browsers', async () => {
+        renderMicrophone({ mediaDevices: {} as UseMicrophoneOptions['mediaDevices'] });
+        await act(async () => mic.start());
+        expect(mic.status).toBe('unavailable');
+    });
+});
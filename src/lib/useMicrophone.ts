@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAudioAnalysis } from '../contexts/AudioAnalysisContext';
+
+/**
+ * State of microphone input.
+ * 
+ * - 'idle': not started, or stopped by the caller
+ * - 'requesting': waiting for the user to grant permission
+ * - 'active': the microphone is being analyzed
+ * - 'denied': the user or browser policy refused microphone access
+ * - 'unavailable': no microphone, or getUserMedia is not supported
+ * - 'ended': the device was disconnected or the stream stopped while active
+ * - 'error': any other failure (e.g. the device is in use by another application)
+ */
+export type MicrophoneStatus = 'idle' | 'requesting' | 'active' | 'denied' | 'unavailable' | 'ended' | 'error';
+
+/**
+ * Options for useMicrophone.
+ */
+export interface UseMicrophoneOptions {
+    /**
+     * Media devices used to request the microphone. Defaults to `navigator.mediaDevices`.
+     * Allows a fake returning a scripted MediaStream to be injected in tests.
+     */
+    mediaDevices?: Pick<MediaDevices, 'getUserMedia'>;
+
+    /**
+     * Audio constraints passed to getUserMedia. By default echo cancellation,
+     * noise suppression and auto gain are turned off, since they flatten music.
+     */
+    constraints?: MediaTrackConstraints;
+}
+
+const DEFAULT_CONSTRAINTS: MediaTrackConstraints = {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+};
+
+// Map getUserMedia DOMException names to a status and message
+const describeGetUserMediaError = (err: unknown): { status: MicrophoneStatus; message: string } => {
+    const name = err instanceof Error ? err.name : '';
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return { status: 'denied', message: 'Microphone access was denied' };
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return { status: 'unavailable', message: 'No microphone was found' };
+        case 'NotReadableError':
+            return { status: 'error', message: 'The microphone is in use by another application' };
+        default:
+            return { status: 'error', message: err instanceof Error ? err.message : 'Failed to access the microphone' };
+    }
+};
+
+/**
+ * Hook that feeds microphone input into the audio analysis context, so beat
+ * subscribers react to live sound. Must be used within an AudioAnalysisProvider.
+ * Returns the microphone status and functions to start and stop input.
+ * The microphone is only analyzed, never played back.
+ * 
+ * @example
+ * ```typescript
+ * const mic = useMicrophone();
+ * return <button onClick={mic.status === 'active' ? mic.stop : mic.start}>Mic</button>;
+ * ```
+ */
+export function useMicrophone(options: UseMicrophoneOptions = {}) {
+    const { registerMediaStream, unregisterMediaStream } = useAudioAnalysis();
+    const [status, setStatus] = useState<MicrophoneStatus>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const requestIdRef = useRef(0);
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    // Kept in a ref so releaseStream stays stable and the unmount cleanup only runs on unmount
+    const unregisterMediaStreamRef = useRef(unregisterMediaStream);
+    unregisterMediaStreamRef.current = unregisterMediaStream;
+
+    // Release the stream: stop analysis first, then the device.
+    // Also invalidates any pending permission request.
+    const releaseStream = useCallback(() => {
+        requestIdRef.current++;
+        const stream = streamRef.current;
+        if (!stream) {
+            return;
+        }
+        streamRef.current = null;
+        unregisterMediaStreamRef.current(stream);
+        stream.getTracks().forEach(track => track.stop());
+    }, []);
+
+    const stop = useCallback(() => {
+        releaseStream();
+        setStatus('idle');
+        setError(null);
+    }, [releaseStream]);
+
+    const start = useCallback(async () => {
+        if (streamRef.current) {
+            return;
+        }
+
+        const mediaDevices = optionsRef.current.mediaDevices ??
+            (typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined);
+        if (!mediaDevices || typeof mediaDevices.getUserMedia !== 'function') {
+            setStatus('unavailable');
+            setError('Microphone input is not supported in this browser');
+            return;
+        }
+
+        const requestId = ++requestIdRef.current;
+        setStatus('requesting');
+        setError(null);
+
+        try {
+            const stream = await mediaDevices.getUserMedia({
+                audio: optionsRef.current.constraints ?? DEFAULT_CONSTRAINTS,
+            });
+
+            // Stopped or restarted while the permission prompt was open
+            if (requestId !== requestIdRef.current) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+
+            streamRef.current = stream;
+
+            // The context stops analysis when the tracks end; reflect that here
+            stream.getAudioTracks().forEach(track => {
+                track.addEventListener('ended', () => {
+                    if (streamRef.current !== stream ||
+                        stream.getAudioTracks().some(t => t.readyState === 'live')) {
+                        return;
+                    }
+                    streamRef.current = null;
+                    stream.getTracks().forEach(t => t.stop());
+                    setStatus('ended');
+                    setError('The microphone was disconnected');
+                });
+            });
+
+            registerMediaStream(stream);
+            setStatus('active');
+        } catch (err) {
+            if (requestId !== requestIdRef.current) {
+                return;
+            }
+            const { status: failedStatus, message } = describeGetUserMediaError(err);
+            console.warn('useMicrophone:', message, err);
+            setStatus(failedStatus);
+            setError(message);
+        }
+    }, [registerMediaStream]);
+
+    // Release the microphone on unmount
+    useEffect(() => {
+        return () => {
+            releaseStream();
+        };
+    }, [releaseStream]);
+
+    return {
+        status,
+        error,
+        isActive: status === 'active',
+        start,
+        stop,
+    };
+}
@@ -0,0 +1,162 @@
+/**
+ * Worklet Analysis Module
+ * 
+ * Main-thread side of the AudioWorklet beat detector: feature detection,
+ * module loading and the messages exchanged with the processor in
+ * beatDetector.worklet.ts.
+ * 
+ * @module workletAnalysis
+ */
+
+import beatDetectorWorkletUrl from './beatDetector.worklet.ts?worker&url';
+import { DetectionSensitivity, DetectionStrategy, FrequencyBand } from './beatDetection';
+
+/**
+ * Name the processor is registered under (see beatDetector.worklet.ts).
+ */
+export const BEAT_DETECTOR_PROCESSOR_NAME = 'beat-detector';
+
+/**
+ * Settings passed to the worklet processor.
+ * Mirror the AnalyserNode and BeatDetector settings of the main-thread path.
+ */
+export interface BeatDetectorProcessorOptions {
+    /** FFT size (power of two) */
+    fftSize: number;
+
+    /** Samples between analysis frames */
+    hopSize: number;
+
+    /** Spectrum smoothing (0-1), as AnalyserNode.smoothingTimeConstant */
+    smoothingTimeConstant: number;
+
+    /** Decibel value mapped to 0, as AnalyserNode.minDecibels */
+    minDecibels: number;
+
+    /** Decibel value mapped to 255, as AnalyserNode.maxDecibels */
+    maxDecibels: number;
+
+    /** Energy history length in 60fps frames; converted to hops by the processor */
+    historySize: number;
+
+    /** BeatDetector threshold multiplier */
+    thresholdMultiplier: number;
+
+    /** BeatDetector debounce in milliseconds */
+    debounceMs: number;
+
+    /** BeatDetector strategy */
+    strategy: DetectionStrategy;
+
+    /** BeatDetector spectral-flux bands; the processor converts them with its own sample rate */
+    bands?: readonly FrequencyBand[];
+
+    /** BeatDetector energy band */
+    energyBand?: FrequencyBand;
+}
+
+/**
+ * Commands sent from the main thread to the processor.
+ * 
+ * - 'reset': forget detection history (e.g. on track change)
+ * - 'active': pause or resume analysis (e.g. while the audio is paused)
+ * - 'sensitivity': change the threshold multiplier and/or debounce, keeping history
+ */
+export type WorkletCommand =
+    | { type: 'reset' }
+    | { type: 'active'; active: boolean }
+    | { type: 'sensitivity'; sensitivity: Partial<DetectionSensitivity> };
+
+/**
+ * Messages posted by the processor. Times are AudioContext times in seconds.
+ * 
+ * - 'beat': a detected beat
+ * - 'state': bass energy, adaptive threshold and trigger multiplier
+ *   (see BeatDetector.getTriggerMultiplier), once per analysis frame
+ */
+export type WorkletMessage =
+    | { type: 'beat'; strength: number; bands: string[]; time: number }
+    | { type: 'state'; energy: number; threshold: number; triggerMultiplier: number; time: number };
+
+/**
+ * Samples between analysis frames: about 11.6ms at 44.1kHz, roughly 1.4x the
+ * frame rate of the requestAnimationFrame loop.
+ */
+const DEFAULT_HOP_SIZE = 512;
+
+// Contexts that already loaded the processor module
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Checks whether AudioWorklet is available.
+ * 
+ * @param context - Context to check; checks the AudioWorkletNode constructor when omitted
+ * @returns True if worklet processors can be loaded
+ */
+export function isAudioWorkletSupported(context?: BaseAudioContext): boolean {
+    try {
+        if (typeof AudioWorkletNode === 'undefined') {
+            return false;
+        }
+        return !context || (typeof context.audioWorklet !== 'undefined' && context.audioWorklet !== null);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Gets the hop size used for a given FFT size.
+ * 
+ * @param fftSize - FFT size of the analysis
+ * @returns Samples between analysis frames
+ */
+export function getWorkletHopSize(fftSize: number): number {
+    return Math.min(DEFAULT_HOP_SIZE, fftSize / 2);
+}
+
+/**
+ * Loads the beat detector module into a context and creates a processor node.
+ * 
+ * Connect the audio to the returned node's input. The node has no outputs;
+ * beats arrive as WorkletMessage objects on `node.port`.
+ * 
+ * @param context - Audio context to create the node in
+ * @param options - Analysis settings; hopSize defaults to getWorkletHopSize(fftSize)
+ * @returns The processor node
+ * @throws Error if AudioWorklet is unsupported or the module fails to load
+ * 
+ * @example
+ * ```typescript
+ * const node = await createBeatDetectorNode(audioContext, { fftSize: 2048, ... });
+ * source.connect(node);
+ * node.port.onmessage = (event) => console.log(event.data);
+ * ```
+ */
+export async function createBeatDetectorNode(
+    context: BaseAudioContext,
+    options: Omit<BeatDetectorProcessorOptions, 'hopSize'> & { hopSize?: number }
+): Promise<AudioWorkletNode> {
+    if (!isAudioWorkletSupported(context)) {
+        throw new Error('AudioWorklet is not supported in this browser');
+    }
+
+    let loaded = loadedContexts.get(context);
+    if (!loaded) {
+        loaded = context.audioWorklet.addModule(beatDetectorWorkletUrl);
+        loadedContexts.set(context, loaded);
+        // Allow a retry after a failed load
+        loaded.catch(() => loadedContexts.delete(context));
+    }
+    await loaded;
+
+    const processorOptions: BeatDetectorProcessorOptions = {
+        ...options,
+        hopSize: options.hopSize ?? getWorkletHopSize(options.fftSize),
+    };
+
+    return new AudioWorkletNode(context, BEAT_DETECTOR_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions,
+    });
+}
@@ -0,0 +1,165 @@
+/**
+ * Animation Clock Module
+ * 
+ * A controllable stand-in for requestAnimationFrame and performance.now().
+ * The analysis loop, beat prediction and beat timestamps all run off these
+ * two, so with the clock installed a test decides exactly when frames happen
+ * and what time they see.
+ * 
+ * @module animationClock
+ */
+
+/**
+ * Options for FakeAnimationClock.
+ */
+export interface FakeAnimationClockOptions {
+    /**
+     * Time of the clock when created, in milliseconds.
+     * 
+     * @default 0
+     */
+    startTime?: number;
+
+    /**
+     * Time between animation frames in milliseconds.
+     * 
+     * @default 1000 / 60
+     */
+    frameIntervalMs?: number;
+}
+
+/**
+ * FakeAnimationClock class for driving animation frames by hand.
+ * 
+ * Time only moves when the test advances it. Each frame first moves the
+ * clock by one frame interval, then runs the callbacks requested before it,
+ * like a browser does.
+ * 
+ * @example
+ * ```typescript
+ * const clock = new FakeAnimationClock();
+ * const restore = clock.install();
+ * 
+ * // ... start something that uses requestAnimationFrame
+ * act(() => clock.advance(2000)); // two seconds of frames
+ * 
+ * restore();
+ * ```
+ */
+export class FakeAnimationClock {
+    private time: number;
+    private readonly frameIntervalMs: number;
+    private callbacks: Map<number, FrameRequestCallback> = new Map();
+    private nextId = 1;
+
+    /**
+     * Creates a new FakeAnimationClock instance.
+     * 
+     * @param options - Start time and frame interval
+     */
+    constructor(options: FakeAnimationClockOptions = {}) {
+        this.time = options.startTime ?? 0;
+        this.frameIntervalMs = options.frameIntervalMs ?? 1000 / 60;
+    }
+
+    /**
+     * Gets the current time, as performance.now() does once installed.
+     * 
+     * @returns Time in milliseconds
+     */
+    now = (): number => this.time;
+
+    /**
+     * Schedules a callback for the next frame, like window.requestAnimationFrame.
+     * 
+     * @param callback - Called with the frame time
+     * @returns Request id for cancelAnimationFrame
+     */
+    requestAnimationFrame = (callback: FrameRequestCallback): number => {
+        const id = this.nextId++;
+        this.callbacks.set(id, callback);
+        return id;
+    };
+
+    /**
+     * Cancels a scheduled callback, like window.cancelAnimationFrame.
+     * 
+     * @param id - Request id returned by requestAnimationFrame
+     */
+    cancelAnimationFrame = (id: number): void => {
+        this.callbacks.delete(id);
+    };
+
+    /**
+     * Gets the number of callbacks waiting for the next frame.
+     * 
+     * @returns Pending callback count
+     */
+    getPendingCount(): number {
+        return this.callbacks.size;
+    }
+
+    /**
+     * Runs one frame: moves the clock by one frame interval and runs the
+     * callbacks requested so far. Callbacks requested during the frame run in
+     * the next one.
+     */
+    tick(): void {
+        this.time += this.frameIntervalMs;
+        const callbacks = Array.from(this.callbacks.values());
+        this.callbacks.clear();
+        callbacks.forEach(callback => callback(this.time));
+    }
+
+    /**
+     * Runs frames until the given time has passed.
+     * 
+     * @param ms - Milliseconds to advance
+     */
+    advance(ms: number): void {
+        const end = this.time + ms;
+        // Tolerance for the fractional 60fps interval
+        while (this.time + this.frameIntervalMs <= end + 1e-6) {
+            this.tick();
+        }
+    }
+
+    /**
+     * Runs a number of frames.
+     * 
+     * @param count - Frames to run
+     */
+    runFrames(count: number): void {
+        for (let i = 0; i < count; i++) {
+            this.tick();
+        }
+    }
+
+    /**
+     * Replaces the global requestAnimationFrame, cancelAnimationFrame and
+     * performance.now() with this clock.
+     * 
+     * @returns Function that restores the originals
+     */
+    install(): () => void {
+        const target = globalThis as typeof globalThis & Partial<Pick<Window, 'requestAnimationFrame' | 'cancelAnimationFrame'>>;
+        const originalRequest = target.requestAnimationFrame;
+        const originalCancel = target.cancelAnimationFrame;
+        const ownNow = Object.getOwnPropertyDescriptor(performance, 'now');
+
+        target.requestAnimationFrame = this.requestAnimationFrame;
+        target.cancelAnimationFrame = this.cancelAnimationFrame;
+        Object.defineProperty(performance, 'now', { value: this.now, configurable: true, writable: true });
+
+        return () => {
+            target.requestAnimationFrame = originalRequest;
+            target.cancelAnimationFrame = originalCancel;
+            if (ownNow) {
+                Object.defineProperty(performance, 'now', ownNow);
+            } else {
+                // The original lives on the Performance prototype
+                delete (performance as { now?: () => number }).now;
+            }
+        };
+    }
+}
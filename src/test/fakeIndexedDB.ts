@@ -0,0 +1,423 @@
+/**
+ * Fake IndexedDB Module
+ * 
+ * An in-memory stand-in for the parts of IndexedDB the beat map cache uses:
+ * opening and upgrading a database, object stores with a key path, indexes,
+ * get/put/delete/clear/count and cursors over an index.
+ * 
+ * Requests complete asynchronously and in order, and a transaction commits
+ * once it has no pending requests left after its last callback, so promise
+ * continuations may still issue requests like in browsers. Transactions that
+ * fail roll back. Databases live as long as the factory, so two caches
+ * created with the same factory share their entries.
+ * 
+ * @module fakeIndexedDB
+ */
+
+type Key = string | number;
+
+type Handler = ((event: Event) => void) | null;
+
+interface StoreState {
+    keyPath: string;
+    indexes: Map<string, string>;
+    records: Map<Key, unknown>;
+}
+
+interface DatabaseState {
+    version: number;
+    stores: Map<string, StoreState>;
+}
+
+const createError = (name: string, message: string): DOMException => new DOMException(message, name);
+
+// IndexedDB key order: numbers before strings
+const compareKeys = (a: Key, b: Key): number => {
+    if (typeof a !== typeof b) {
+        return typeof a === 'number' ? -1 : 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const readKey = (value: unknown, keyPath: string): Key => {
+    const key = (value as Record<string, unknown> | null)?.[keyPath];
+    if (typeof key !== 'string' && (typeof key !== 'number' || Number.isNaN(key))) {
+        throw createError('DataError', `Value has no valid key at '${keyPath}'`);
+    }
+    return key;
+};
+
+const cloneStores = (stores: Map<string, StoreState>): Map<string, StoreState> =>
+    new Map(Array.from(stores, ([name, store]) => [name, { ...store, indexes: new Map(store.indexes), records: new Map(store.records) }]));
+
+class FakeRequest<T = unknown> {
+    result: T = undefined as T;
+    error: DOMException | null = null;
+    readyState: IDBRequestReadyState = 'pending';
+    transaction: FakeTransaction | null;
+    onsuccess: Handler = null;
+    onerror: Handler = null;
+
+    constructor(transaction: FakeTransaction | null) {
+        this.transaction = transaction;
+    }
+
+    succeed(result: T): void {
+        this.result = result;
+        this.readyState = 'done';
+        this.onsuccess?.(new Event('success'));
+    }
+
+    fail(error: DOMException): void {
+        this.error = error;
+        this.readyState = 'done';
+        this.onerror?.(new Event('error'));
+    }
+}
+
+class FakeOpenRequest extends FakeRequest<FakeDatabase> {
+    onupgradeneeded: Handler = null;
+    onblocked: Handler = null;
+}
+
+class FakeTransaction {
+    readonly mode: IDBTransactionMode;
+    readonly db: FakeDatabase;
+    error: DOMException | null = null;
+    oncomplete: Handler = null;
+    onerror: Handler = null;
+    onabort: Handler = null;
+    private readonly storeNames: readonly string[];
+    private readonly snapshot: Map<string, StoreState>;
+    private readonly queue: (() => void)[] = [];
+    private finished = false;
+
+    constructor(db: FakeDatabase, storeNames: readonly string[], mode: IDBTransactionMode) {
+        this.db = db;
+        this.storeNames = storeNames;
+        this.mode = mode;
+        this.snapshot = cloneStores(db.state.stores);
+        this.scheduleStep();
+    }
+
+    objectStore(name: string): FakeObjectStore {
+        if (!this.storeNames.includes(name)) {
+            throw createError('NotFoundError', `Object store '${name}' is not in this transaction`);
+        }
+        return new FakeObjectStore(this, name);
+    }
+
+    abort(): void {
+        this.fail(createError('AbortError', 'The transaction was aborted'));
+    }
+
+    /**
+     * Queues an operation. It runs after the requests queued before it; its
+     * return value becomes the result of the request.
+     */
+    request<T>(operation: () => T, write: boolean, request = new FakeRequest<T>(this)): FakeRequest<T> {
+        if (this.finished) {
+            throw createError('TransactionInactiveError', 'The transaction has finished');
+        }
+        if (write && this.mode === 'readonly') {
+            throw createError('ReadOnlyError', 'The transaction is read-only');
+        }
+        this.queue.push(() => {
+            let result: T;
+            try {
+                result = operation();
+            } catch (err) {
+                const error = err instanceof DOMException ? err : createError('UnknownError', String(err));
+                request.fail(error);
+                this.fail(error);
+                return;
+            }
+            request.succeed(result);
+        });
+        return request;
+    }
+
+    getStore(name: string): StoreState {
+        return this.db.state.stores.get(name);
+    }
+
+    // A macrotask per step, so promise continuations of the previous request run first
+    private scheduleStep(): void {
+        setTimeout(() => this.step(), 0);
+    }
+
+    private step(): void {
+        if (this.finished) {
+            return;
+        }
+        const operation = this.queue.shift();
+        if (!operation) {
+            this.finished = true;
+            this.oncomplete?.(new Event('complete'));
+            return;
+        }
+        operation();
+        this.scheduleStep();
+    }
+
+    private fail(error: DOMException): void {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.queue.length = 0;
+        this.db.state.stores = this.snapshot;
+        this.error = error;
+        this.onerror?.(new Event('error'));
+        this.onabort?.(new Event('abort'));
+    }
+}
+
+class FakeCursor {
+    primaryKey: Key;
+    key: Key;
+    value: unknown;
+    private readonly request: FakeRequest<FakeCursor | null>;
+    private readonly transaction: FakeTransaction;
+    private readonly storeName: string;
+    private readonly entries: [Key, Key][];
+    private position = -1;
+
+    constructor(request: FakeRequest<FakeCursor | null>, transaction: FakeTransaction, storeName: string, entries: [Key, Key][]) {
+        this.request = request;
+        this.transaction = transaction;
+        this.storeName = storeName;
+        this.entries = entries;
+    }
+
+    /**
+     * Moves to the next entry that still exists.
+     * 
+     * @returns This cursor, or null past the last entry
+     */
+    advanceToNext(): FakeCursor | null {
+        const records = this.transaction.getStore(this.storeName).records;
+        do {
+            this.position++;
+        } while (this.position < this.entries.length && !records.has(this.entries[this.position][1]));
+
+        if (this.position >= this.entries.length) {
+            return null;
+        }
+        [this.key, this.primaryKey] = this.entries[this.position];
+        this.value = structuredClone(records.get(this.primaryKey));
+        return this;
+    }
+
+    continue(): void {
+        this.transaction.request(() => this.advanceToNext(), false, this.request);
+    }
+
+    delete(): FakeRequest<undefined> {
+        const primaryKey = this.primaryKey;
+        return this.transaction.request(() => {
+            this.transaction.getStore(this.storeName).records.delete(primaryKey);
+            return undefined;
+        }, true);
+    }
+}
+
+class FakeIndex {
+    private readonly transaction: FakeTransaction;
+    private readonly storeName: string;
+    private readonly keyPath: string;
+
+    constructor(transaction: FakeTransaction, storeName: string, keyPath: string) {
+        this.transaction = transaction;
+        this.storeName = storeName;
+        this.keyPath = keyPath;
+    }
+
+    openCursor(): FakeRequest<FakeCursor | null> {
+        const request = new FakeRequest<FakeCursor | null>(this.transaction);
+        return this.transaction.request(() => {
+            // Index key order, ties broken by primary key; records without the key are not indexed
+            const entries: [Key, Key][] = [];
+            this.transaction.getStore(this.storeName).records.forEach((value, primaryKey) => {
+                const key = (value as Record<string, unknown>)[this.keyPath];
+                if (typeof key === 'string' || typeof key === 'number') {
+                    entries.push([key, primaryKey]);
+                }
+            });
+            entries.sort((a, b) => compareKeys(a[0], b[0]) || compareKeys(a[1], b[1]));
+            return new FakeCursor(request, this.transaction, this.storeName, entries).advanceToNext();
+        }, false, request);
+    }
+}
+
+class FakeObjectStore {
+    readonly name: string;
+    private readonly transaction: FakeTransaction;
+
+    constructor(transaction: FakeTransaction, name: string) {
+        this.transaction = transaction;
+        this.name = name;
+    }
+
+    get(key: Key): FakeRequest<unknown> {
+        return this.transaction.request(() => structuredClone(this.records.get(key)), false);
+    }
+
+    put(value: unknown): FakeRequest<Key> {
+        const { keyPath } = this.transaction.getStore(this.name);
+        const key = readKey(value, keyPath);
+        const copy = structuredClone(value);
+        return this.transaction.request(() => {
+            this.records.set(key, copy);
+            return key;
+        }, true);
+    }
+
+    delete(key: Key): FakeRequest<undefined> {
+        return this.transaction.request(() => {
+            this.records.delete(key);
+            return undefined;
+        }, true);
+    }
+
+    clear(): FakeRequest<undefined> {
+        return this.transaction.request(() => {
+            this.records.clear();
+            return undefined;
+        }, true);
+    }
+
+    count(): FakeRequest<number> {
+        return this.transaction.request(() => this.records.size, false);
+    }
+
+    index(name: string): FakeIndex {
+        const keyPath = this.transaction.getStore(this.name).indexes.get(name);
+        if (keyPath === undefined) {
+            throw createError('NotFoundError', `Index '${name}' does not exist`);
+        }
+        return new FakeIndex(this.transaction, this.name, keyPath);
+    }
+
+    private get records(): Map<Key, unknown> {
+        return this.transaction.getStore(this.name).records;
+    }
+}
+
+class FakeUpgradeStore {
+    private readonly store: StoreState;
+
+    constructor(store: StoreState) {
+        this.store = store;
+    }
+
+    createIndex(name: string, keyPath: string): void {
+        this.store.indexes.set(name, keyPath);
+    }
+}
+
+class FakeDatabase {
+    readonly name: string;
+    readonly state: DatabaseState;
+    upgrading = false;
+    private closed = false;
+
+    constructor(name: string, state: DatabaseState) {
+        this.name = name;
+        this.state = state;
+    }
+
+    get version(): number {
+        return this.state.version;
+    }
+
+    get objectStoreNames(): { contains(name: string): boolean; readonly length: number } {
+        const stores = this.state.stores;
+        return {
+            contains: name => stores.has(name),
+            get length() {
+                return stores.size;
+            },
+        };
+    }
+
+    createObjectStore(name: string, options: { keyPath: string }): FakeUpgradeStore {
+        if (!this.upgrading) {
+            throw createError('InvalidStateError', 'Object stores can only be created during an upgrade');
+        }
+        if (this.state.stores.has(name)) {
+            throw createError('ConstraintError', `Object store '${name}' already exists`);
+        }
+        const store: StoreState = { keyPath: options.keyPath, indexes: new Map(), records: new Map() };
+        this.state.stores.set(name, store);
+        return new FakeUpgradeStore(store);
+    }
+
+    transaction(storeNames: string | string[], mode: IDBTransactionMode = 'readonly'): FakeTransaction {
+        if (this.closed) {
+            throw createError('InvalidStateError', 'The database connection is closed');
+        }
+        const names = typeof storeNames === 'string' ? [storeNames] : storeNames;
+        names.forEach(name => {
+            if (!this.state.stores.has(name)) {
+                throw createError('NotFoundError', `Object store '${name}' does not exist`);
+            }
+        });
+        return new FakeTransaction(this, names, mode);
+    }
+
+    close(): void {
+        this.closed = true;
+    }
+}
+
+class FakeIndexedDBFactory {
+    private readonly databases = new Map<string, DatabaseState>();
+
+    open(name: string, version?: number): FakeOpenRequest {
+        const request = new FakeOpenRequest(null);
+        setTimeout(() => {
+            const state = this.databases.get(name) ?? { version: 0, stores: new Map() };
+            const requested = version ?? Math.max(state.version, 1);
+            if (requested < state.version) {
+                request.fail(createError('VersionError', `Database '${name}' is at version ${state.version}`));
+                return;
+            }
+            this.databases.set(name, state);
+
+            const db = new FakeDatabase(name, state);
+            request.result = db;
+            if (requested > state.version) {
+                state.version = requested;
+                db.upgrading = true;
+                request.onupgradeneeded?.(new Event('upgradeneeded'));
+                db.upgrading = false;
+            }
+            request.succeed(db);
+        }, 0);
+        return request;
+    }
+
+    deleteDatabase(name: string): FakeRequest<undefined> {
+        const request = new FakeRequest<undefined>(null);
+        setTimeout(() => {
+            this.databases.delete(name);
+            request.succeed(undefined);
+        }, 0);
+        return request;
+    }
+}
+
+/**
+ * Creates an empty in-memory IndexedDB.
+ * 
+ * @returns Factory to pass where an IDBFactory is expected
+ * 
+ * @example
+ * ```typescript
+ * const cache = new BeatMapCache({ indexedDB: createFakeIndexedDB(), maxEntries: 3 });
+ * ```
+ */
+export function createFakeIndexedDB(): IDBFactory {
+    return new FakeIndexedDBFactory() as unknown as IDBFactory;
+}
@@ -0,0 +1,1059 @@
+/**
+ * Fake Web Audio Module
+ * 
+ * A scripted stand-in for the parts of the Web Audio API the analysis layer
+ * uses: AudioContext, OfflineAudioContext, AnalyserNode, GainNode and the
+ * media element, media stream and buffer source nodes. Instead of processing audio, every source plays a
+ * spectrum script, a function filling the analyser's frequency bins for a
+ * point in time, so a test can feed the provider a click track at a known BPM,
+ * noise or silence and check what it detects.
+ * 
+ * Time comes from a FakeAnimationClock, the same clock that drives the
+ * analysis loop. Script times are clock times in milliseconds, which are also
+ * the timestamps of the beat events the provider emits. Offline contexts have
+ * no clock: their scripts are rendered at the render time of the buffer.
+ * 
+ * @module fakeWebAudio
+ */
+
+import { FakeAnimationClock } from './animationClock';
+
+/**
+ * Fills frequency bins for a point in time.
+ * 
+ * Bins start out zeroed; scripts only need to set the bins they play in.
+ * Bin `i` covers frequencies around `i * sampleRate / (2 * bins.length)`.
+ * 
+ * @param timeMs - Clock time in milliseconds
+ * @param bins - Byte frequency bins to fill (0-255)
+ * @param sampleRate - Sample rate of the context
+ */
+export type SpectrumScript = (timeMs: number, bins: Uint8Array, sampleRate: number) => void;
+
+/**
+ * Options for a click track script.
+ */
+export interface ClickTrackOptions {
+    /** Clicks per minute */
+    bpm: number;
+
+    /**
+     * Clock time of the first click in milliseconds.
+     * 
+     * @default 0
+     */
+    offsetMs?: number;
+
+    /**
+     * Bin level at the moment of a click (0-255).
+     * 
+     * @default 230
+     */
+    level?: number;
+
+    /**
+     * Bin level between clicks (0-255).
+     * 
+     * @default 20
+     */
+    floor?: number;
+
+    /**
+     * Time for a click to decay to about a third of its level, in milliseconds.
+     * 
+     * @default 40
+     */
+    decayMs?: number;
+
+    /**
+     * Lowest frequency of the click in Hz.
+     * 
+     * @default 20
+     */
+    minHz?: number;
+
+    /**
+     * Highest frequency of the click in Hz.
+     * 
+     * @default 150
+     */
+    maxHz?: number;
+}
+
+/**
+ * Options for a noise script.
+ */
+export interface NoiseOptions {
+    /**
+     * Highest bin level (0-255).
+     * 
+     * @default 60
+     */
+    level?: number;
+
+    /**
+     * Seed of the random generator, so runs are reproducible.
+     * 
+     * @default 1
+     */
+    seed?: number;
+}
+
+/**
+ * One part of a scripted sequence.
+ */
+export interface ScriptSegment {
+    /** Length of the segment in milliseconds */
+    durationMs: number;
+
+    /** Script playing during the segment */
+    script: SpectrumScript;
+}
+
+/**
+ * Options for installFakeWebAudio.
+ */
+export interface FakeWebAudioOptions {
+    /** Clock for the contexts' current time; use the one driving requestAnimationFrame */
+    clock: FakeAnimationClock;
+
+    /**
+     * Sample rate of created contexts.
+     * 
+     * @default 44100
+     */
+    sampleRate?: number;
+
+    /**
+     * Keep contexts suspended until a user gesture (pointerdown, keydown or
+     * touchend on the window), like a browser's autoplay policy does.
+     * 
+     * @default false
+     */
+    requireUserGesture?: boolean;
+}
+
+/**
+ * Fake media stream track, ended with `end()` as if the device was unplugged.
+ */
+export interface FakeMediaStreamTrack extends EventTarget {
+    readonly kind: 'audio';
+    readyState: MediaStreamTrackState;
+    enabled: boolean;
+    stop(): void;
+    end(): void;
+}
+
+/**
+ * Controls installed fake Web Audio.
+ */
+export interface FakeWebAudioController {
+    /** Every context created since installing, oldest first */
+    readonly contexts: FakeAudioContext[];
+
+    /**
+     * Gets the most recently created context, which is the shared one the
+     * provider uses.
+     * 
+     * @returns The context, or null if none was created yet
+     */
+    getContext(): FakeAudioContext | null;
+
+    /**
+     * Sets what a media element plays while it is not paused.
+     * 
+     * @param element - Element to script
+     * @param script - Spectrum to play
+     */
+    setElementScript(element: HTMLMediaElement, script: SpectrumScript): void;
+
+    /**
+     * Sets what a media stream plays while it has a live, enabled track.
+     * 
+     * @param stream - Stream to script
+     * @param script - Spectrum to play
+     */
+    setStreamScript(stream: MediaStream, script: SpectrumScript): void;
+
+    /**
+     * Restores the original AudioContext and closes all created contexts, so
+     * the next install starts with a fresh shared context.
+     */
+    uninstall(): void;
+}
+
+/**
+ * What nodes need from their context, online or offline.
+ */
+export interface FakeBaseAudioContext {
+    readonly sampleRate: number;
+
+    /**
+     * Gets the time scripts are rendered at.
+     * 
+     * @returns Time in milliseconds
+     */
+    getClockTime(): number;
+
+    /**
+     * Whether analysers report what reaches them: while an online context
+     * runs, and while an offline context renders or is suspended during rendering.
+     */
+    isRendering(): boolean;
+}
+
+/**
+ * Controls the installed fake OfflineAudioContext.
+ */
+export interface FakeOfflineAudioController {
+    /** Every offline context created since installing, oldest first */
+    readonly contexts: FakeOfflineAudioContext[];
+
+    /**
+     * Sets what a buffer plays through a started buffer source.
+     * 
+     * @param buffer - Buffer from an offline context's createBuffer()
+     * @param script - Spectrum to play, at times from the start of the buffer
+     */
+    setBufferScript(buffer: AudioBuffer, script: SpectrumScript): void;
+
+    /**
+     * Restores the original OfflineAudioContext.
+     */
+    uninstall(): void;
+}
+
+// Frames per render quantum, the granularity of offline suspensions
+const RENDER_QUANTUM_SIZE = 128;
+
+// Decay time constants after which a click has settled back to the floor
+const CLICK_DECAY_CUTOFF = 6;
+
+// Events that count as user activation for the autoplay policy
+const GESTURE_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+interface FakeAudioEnvironment {
+    clock: FakeAnimationClock;
+    sampleRate: number;
+    requireUserGesture: boolean;
+    userActivated: boolean;
+    elementScripts: WeakMap<HTMLMediaElement, SpectrumScript>;
+    streamScripts: WeakMap<MediaStream, SpectrumScript>;
+    connectedElements: WeakSet<HTMLMediaElement>;
+}
+
+/**
+ * Plays nothing.
+ * 
+ * @returns The script
+ */
+export function silence(): SpectrumScript {
+    return () => {};
+}
+
+/**
+ * Plays random levels in every bin, different on each frame.
+ * 
+ * @param options - Level and seed
+ * @returns The script
+ */
+export function noise(options: NoiseOptions = {}): SpectrumScript {
+    const level = options.level ?? 60;
+    // mulberry32
+    let state = (options.seed ?? 1) >>> 0;
+    const random = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return (_timeMs, bins) => {
+        for (let i = 0; i < bins.length; i++) {
+            bins[i] = Math.floor(random() * (level + 1));
+        }
+    };
+}
+
+/**
+ * Plays a low-frequency click at a fixed tempo, like a kick drum.
+ * 
+ * Each click jumps to `level` and decays exponentially to `floor`.
+ * 
+ * @param options - Tempo, timing and shape of the clicks
+ * @returns The script
+ * 
+ * @example
+ * ```typescript
+ * audio.setElementScript(element, clickTrack({ bpm: 120, offsetMs: 500 }));
+ * ```
+ */
+export function clickTrack(options: ClickTrackOptions): SpectrumScript {
+    const intervalMs = 60000 / options.bpm;
+    const offsetMs = options.offsetMs ?? 0;
+    const level = options.level ?? 230;
+    const floor = options.floor ?? 20;
+    const decayMs = options.decayMs ?? 40;
+    const minHz = options.minHz ?? 20;
+    const maxHz = options.maxHz ?? 150;
+
+    return (timeMs, bins, sampleRate) => {
+        let value = floor;
+        if (timeMs >= offsetMs) {
+            const sinceClick = (timeMs - offsetMs) % intervalMs;
+            if (sinceClick < decayMs * CLICK_DECAY_CUTOFF) {
+                value = floor + (level - floor) * Math.exp(-sinceClick / decayMs);
+            }
+        }
+
+        const hzPerBin = sampleRate / (2 * bins.length);
+        const startBin = Math.max(0, Math.floor(minHz / hzPerBin));
+        const endBin = Math.min(bins.length - 1, Math.ceil(maxHz / hzPerBin));
+        for (let i = startBin; i <= endBin; i++) {
+            bins[i] = Math.round(value);
+        }
+    };
+}
+
+/**
+ * Gets the clock times at which a click track clicks.
+ * 
+ * @param options - Options of the click track
+ * @param endMs - Clock time to stop at (exclusive)
+ * @returns Click times in milliseconds
+ */
+export function getClickTimes(options: ClickTrackOptions, endMs: number): number[] {
+    const intervalMs = 60000 / options.bpm;
+    const times: number[] = [];
+    for (let time = options.offsetMs ?? 0; time < endMs; time += intervalMs) {
+        times.push(time);
+    }
+    return times;
+}
+
+/**
+ * Plays several scripts at once, keeping the louder level of each bin.
+ * 
+ * @param scripts - Scripts to mix
+ * @returns The script
+ */
+export function mixSpectra(...scripts: SpectrumScript[]): SpectrumScript {
+    let scratch = new Uint8Array(0);
+    return (timeMs, bins, sampleRate) => {
+        if (scratch.length !== bins.length) {
+            scratch = new Uint8Array(bins.length);
+        }
+        scripts.forEach(script => {
+            scratch.fill(0);
+            script(timeMs, scratch, sampleRate);
+            maxInto(bins, scratch);
+        });
+    };
+}
+
+/**
+ * Plays scripts one after another, starting at clock time 0. Scripts see the
+ * clock time, not the time within their segment, so a click track split by a
+ * silent gap stays on its grid. Nothing plays after the last segment.
+ * 
+ * @param segments - Scripts and how long each plays
+ * @returns The script
+ * 
+ * @example
+ * ```typescript
+ * const beat = clickTrack({ bpm: 128 });
+ * sequence([
+ *   { durationMs: 4000, script: beat },
+ *   { durationMs: 2000, script: silence() },
+ *   { durationMs: 4000, script: beat },
+ * ]);
+ * ```
+ */
+export function sequence(segments: ScriptSegment[]): SpectrumScript {
+    return (timeMs, bins, sampleRate) => {
+        let start = 0;
+        for (const segment of segments) {
+            if (timeMs < start + segment.durationMs) {
+                if (timeMs >= start) {
+                    segment.script(timeMs, bins, sampleRate);
+                }
+                return;
+            }
+            start += segment.durationMs;
+        }
+    };
+}
+
+function maxInto(target: Uint8Array, source: Uint8Array): void {
+    const length = Math.min(target.length, source.length);
+    for (let i = 0; i < length; i++) {
+        if (source[i] > target[i]) {
+            target[i] = source[i];
+        }
+    }
+}
+
+/**
+ * Base of the fake nodes. Connections are tracked so analysers can render
+ * whatever reaches them; audio parameters are ignored.
+ */
+export class FakeAudioNode {
+    readonly context: FakeBaseAudioContext;
+    readonly inputs: Set<FakeAudioNode> = new Set();
+    readonly outputs: Set<FakeAudioNode> = new Set();
+
+    constructor(context: FakeBaseAudioContext) {
+        this.context = context;
+    }
+
+    connect<T>(destination: T): T {
+        if (destination instanceof FakeAudioNode) {
+            this.outputs.add(destination);
+            destination.inputs.add(this);
+        }
+        return destination;
+    }
+
+    /**
+     * Disconnects from one destination, or from all of them. Like browsers,
+     * throws when disconnecting from a node that is not connected.
+     * 
+     * @param destination - Node to disconnect from; all when omitted
+     */
+    disconnect(destination?: unknown): void {
+        if (destination === undefined) {
+            this.outputs.forEach(output => output.inputs.delete(this));
+            this.outputs.clear();
+            return;
+        }
+        if (!(destination instanceof FakeAudioNode) || !this.outputs.has(destination)) {
+            throw new DOMException('The given destination is not connected', 'InvalidAccessError');
+        }
+        this.outputs.delete(destination);
+        destination.inputs.delete(this);
+    }
+
+    /**
+     * Mixes what this node outputs at a time into the bins.
+     * 
+     * @param bins - Bins to mix into
+     * @param timeMs - Clock time
+     */
+    render(bins: Uint8Array, timeMs: number): void {
+        this.inputs.forEach(input => input.render(bins, timeMs));
+    }
+}
+
+/**
+ * Source node playing a spectrum script.
+ */
+abstract class FakeScriptedSourceNode extends FakeAudioNode {
+    private scratch = new Uint8Array(0);
+
+    protected abstract getScript(): SpectrumScript | null;
+
+    render(bins: Uint8Array, timeMs: number): void {
+        const script = this.getScript();
+        if (!script) {
+            return;
+        }
+        if (this.scratch.length !== bins.length) {
+            this.scratch = new Uint8Array(bins.length);
+        }
+        this.scratch.fill(0);
+        script(timeMs, this.scratch, this.context.sampleRate);
+        maxInto(bins, this.scratch);
+    }
+}
+
+/**
+ * Fake MediaElementAudioSourceNode, playing the element's script while the
+ * element is neither paused nor ended.
+ */
+export class FakeMediaElementAudioSourceNode extends FakeScriptedSourceNode {
+    readonly mediaElement: HTMLMediaElement;
+    private readonly scripts: WeakMap<HTMLMediaElement, SpectrumScript>;
+
+    constructor(context: FakeAudioContext, mediaElement: HTMLMediaElement, scripts: WeakMap<HTMLMediaElement, SpectrumScript>) {
+        super(context);
+        this.mediaElement = mediaElement;
+        this.scripts = scripts;
+    }
+
+    protected getScript(): SpectrumScript | null {
+        if (this.mediaElement.paused || this.mediaElement.ended) {
+            return null;
+        }
+        return this.scripts.get(this.mediaElement) ?? null;
+    }
+}
+
+/**
+ * Fake MediaStreamAudioSourceNode, playing the stream's script while one of
+ * its audio tracks is live and enabled.
+ */
+export class FakeMediaStreamAudioSourceNode extends FakeScriptedSourceNode {
+    readonly mediaStream: MediaStream;
+    private readonly scripts: WeakMap<MediaStream, SpectrumScript>;
+
+    constructor(context: FakeAudioContext, mediaStream: MediaStream, scripts: WeakMap<MediaStream, SpectrumScript>) {
+        super(context);
+        this.mediaStream = mediaStream;
+        this.scripts = scripts;
+    }
+
+    protected getScript(): SpectrumScript | null {
+        const live = this.mediaStream.getAudioTracks().some(track => track.readyState === 'live' && track.enabled);
+        return live ? this.scripts.get(this.mediaStream) ?? null : null;
+    }
+}
+
+/**
+ * Fake AudioBufferSourceNode, playing its buffer's script once started.
+ */
+export class FakeAudioBufferSourceNode extends FakeScriptedSourceNode {
+    buffer: AudioBuffer | null = null;
+    private readonly scripts: WeakMap<AudioBuffer, SpectrumScript>;
+    private started = false;
+
+    constructor(context: FakeBaseAudioContext, scripts: WeakMap<AudioBuffer, SpectrumScript>) {
+        super(context);
+        this.scripts = scripts;
+    }
+
+    start(): void {
+        if (this.started) {
+            throw new DOMException('The source has already been started', 'InvalidStateError');
+        }
+        this.started = true;
+    }
+
+    protected getScript(): SpectrumScript | null {
+        return this.started && this.buffer ? this.scripts.get(this.buffer) ?? null : null;
+    }
+}
+
+/**
+ * Fake GainNode. Passes its inputs through unchanged.
+ */
+export class FakeGainNode extends FakeAudioNode {
+    readonly gain = { value: 1 };
+}
+
+/**
+ * Fake AnalyserNode, reporting the scripted spectrum of everything connected
+ * to it while its context renders. Smoothing and the decibel range are stored
+ * but not applied: scripts write the final byte levels.
+ */
+export class FakeAnalyserNode extends FakeAudioNode {
+    smoothingTimeConstant = 0.8;
+    minDecibels = -100;
+    maxDecibels = -30;
+    private size = 2048;
+    private spectrum = new Uint8Array(1024);
+
+    get fftSize(): number {
+        return this.size;
+    }
+
+    set fftSize(value: number) {
+        if (value < 32 || value > 32768 || (value & (value - 1)) !== 0) {
+            throw new DOMException(`fftSize must be a power of 2 between 32 and 32768, got ${value}`, 'IndexSizeError');
+        }
+        this.size = value;
+        this.spectrum = new Uint8Array(value / 2);
+    }
+
+    get frequencyBinCount(): number {
+        return this.size / 2;
+    }
+
+    getByteFrequencyData(array: Uint8Array): void {
+        this.renderSpectrum();
+        array.set(this.spectrum.subarray(0, Math.min(array.length, this.spectrum.length)));
+    }
+
+    /**
+     * Writes a square wave whose amplitude follows the average bin level, so
+     * loudness measurements rise and fall with the script.
+     */
+    getFloatTimeDomainData(array: Float32Array): void {
+        this.renderSpectrum();
+        let sum = 0;
+        for (let i = 0; i < this.spectrum.length; i++) {
+            sum += this.spectrum[i];
+        }
+        const amplitude = sum / (this.spectrum.length * 255);
+        for (let i = 0; i < array.length; i++) {
+            array[i] = i % 2 === 0 ? amplitude : -amplitude;
+        }
+    }
+
+    private renderSpectrum(): void {
+        this.spectrum.fill(0);
+        if (this.context.isRendering()) {
+            this.render(this.spectrum, this.context.getClockTime());
+        }
+    }
+}
+
+/**
+ * Fake AudioContext. Created through the installed `window.AudioContext`.
+ * 
+ * State changes happen asynchronously, like in browsers, and fire
+ * 'statechange'; wrap calls that change state in `await act(async () => ...)`.
+ * There is no `audioWorklet`, so live analysis runs on the AnalyserNode loop.
+ */
+export class FakeAudioContext extends EventTarget implements FakeBaseAudioContext {
+    readonly sampleRate: number;
+    readonly baseLatency = 0.005;
+    readonly outputLatency = 0.02;
+    readonly destination: FakeAudioNode;
+    private status: AudioContextState | 'interrupted';
+    private readonly environment: FakeAudioEnvironment;
+    private readonly createdAt: number;
+
+    constructor(environment: FakeAudioEnvironment) {
+        super();
+        this.environment = environment;
+        this.sampleRate = environment.sampleRate;
+        this.destination = new FakeAudioNode(this);
+        this.createdAt = environment.clock.now();
+        this.status = environment.requireUserGesture && !environment.userActivated ? 'suspended' : 'running';
+    }
+
+    get state(): AudioContextState {
+        return this.status as AudioContextState;
+    }
+
+    get currentTime(): number {
+        return (this.environment.clock.now() - this.createdAt) / 1000;
+    }
+
+    /**
+     * Gets the clock time scripts are rendered at.
+     * 
+     * @returns Clock time in milliseconds
+     */
+    getClockTime(): number {
+        return this.environment.clock.now();
+    }
+
+    isRendering(): boolean {
+        return this.status === 'running';
+    }
+
+    createAnalyser(): FakeAnalyserNode {
+        return new FakeAnalyserNode(this);
+    }
+
+    createGain(): FakeGainNode {
+        return new FakeGainNode(this);
+    }
+
+    /**
+     * Creates the source node of a media element. Like browsers, throws if the
+     * element already has one, in any context.
+     */
+    createMediaElementSource(element: HTMLMediaElement): FakeMediaElementAudioSourceNode {
+        if (this.environment.connectedElements.has(element)) {
+            throw new DOMException('The media element is already connected to a source node', 'InvalidStateError');
+        }
+        this.environment.connectedElements.add(element);
+        return new FakeMediaElementAudioSourceNode(this, element, this.environment.elementScripts);
+    }
+
+    createMediaStreamSource(stream: MediaStream): FakeMediaStreamAudioSourceNode {
+        return new FakeMediaStreamAudioSourceNode(this, stream, this.environment.streamScripts);
+    }
+
+    /**
+     * Resumes the context. While a user gesture is required and none has
+     * happened yet, the context stays suspended and the promise still resolves.
+     */
+    resume(): Promise<void> {
+        if (this.status === 'closed') {
+            return Promise.reject(new DOMException('The AudioContext is closed', 'InvalidStateError'));
+        }
+        return Promise.resolve().then(() => {
+            if (this.environment.requireUserGesture && !this.environment.userActivated) {
+                return;
+            }
+            this.setStatus('running');
+        });
+    }
+
+    suspend(): Promise<void> {
+        if (this.status === 'closed') {
+            return Promise.reject(new DOMException('The AudioContext is closed', 'InvalidStateError'));
+        }
+        return Promise.resolve().then(() => this.setStatus('suspended'));
+    }
+
+    close(): Promise<void> {
+        return Promise.resolve().then(() => this.setStatus('closed'));
+    }
+
+    /**
+     * Moves the context to Safari's 'interrupted' state, as during a phone call.
+     */
+    interrupt(): Promise<void> {
+        return Promise.resolve().then(() => this.setStatus('interrupted'));
+    }
+
+    /**
+     * Closes the context immediately, without an event. Used on uninstall,
+     * after the test has finished.
+     */
+    dispose(): void {
+        this.status = 'closed';
+    }
+
+    private setStatus(status: AudioContextState | 'interrupted'): void {
+        if (this.status === status || this.status === 'closed') {
+            return;
+        }
+        this.status = status;
+        this.dispatchEvent(new Event('statechange'));
+    }
+}
+
+/**
+ * Fake OfflineAudioContext. Created through the installed `OfflineAudioContext`.
+ * 
+ * Rendering jumps from one scheduled suspension to the next. Like browsers,
+ * suspend() quantizes its time down to a render quantum (128 frames) and
+ * rejects times past the end, times already rendered and a second suspension
+ * in the same quantum.
+ */
+export class FakeOfflineAudioContext implements FakeBaseAudioContext {
+    readonly numberOfChannels: number;
+    readonly length: number;
+    readonly sampleRate: number;
+    readonly destination: FakeAudioNode;
+    private readonly scripts: WeakMap<AudioBuffer, SpectrumScript>;
+    private readonly suspensions = new Map<number, () => void>();
+    private status: AudioContextState = 'suspended';
+    private rendering = false;
+    private frame = 0;
+    private continueRendering: (() => void) | null = null;
+
+    constructor(scripts: WeakMap<AudioBuffer, SpectrumScript>, numberOfChannels: number, length: number, sampleRate: number) {
+        this.scripts = scripts;
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.destination = new FakeAudioNode(this);
+    }
+
+    get state(): AudioContextState {
+        return this.status;
+    }
+
+    get currentTime(): number {
+        return this.frame / this.sampleRate;
+    }
+
+    getClockTime(): number {
+        return this.currentTime * 1000;
+    }
+
+    isRendering(): boolean {
+        return this.rendering;
+    }
+
+    createAnalyser(): FakeAnalyserNode {
+        return new FakeAnalyserNode(this);
+    }
+
+    createGain(): FakeGainNode {
+        return new FakeGainNode(this);
+    }
+
+    createBufferSource(): FakeAudioBufferSourceNode {
+        return new FakeAudioBufferSourceNode(this, this.scripts);
+    }
+
+    /**
+     * Creates an empty buffer; give it a script with setBufferScript().
+     */
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number): AudioBuffer {
+        return { numberOfChannels, length, sampleRate, duration: length / sampleRate } as AudioBuffer;
+    }
+
+    suspend(suspendTime: number): Promise<void> {
+        const frame = Math.floor((suspendTime * this.sampleRate) / RENDER_QUANTUM_SIZE) * RENDER_QUANTUM_SIZE;
+        if (suspendTime < 0 || frame >= this.length) {
+            return Promise.reject(new DOMException(`Cannot suspend at ${suspendTime}s, outside the rendered range`, 'InvalidStateError'));
+        }
+        if ((this.rendering && frame <= this.frame) || this.suspensions.has(frame)) {
+            return Promise.reject(new DOMException(`Cannot suspend at frame ${frame} twice or after rendering it`, 'InvalidStateError'));
+        }
+        return new Promise(resolve => this.suspensions.set(frame, resolve));
+    }
+
+    resume(): Promise<void> {
+        if (!this.rendering) {
+            return Promise.reject(new DOMException('Rendering has not started or has finished', 'InvalidStateError'));
+        }
+        return Promise.resolve().then(() => {
+            const continueRendering = this.continueRendering;
+            this.continueRendering = null;
+            continueRendering?.();
+        });
+    }
+
+    async startRendering(): Promise<AudioBuffer> {
+        if (this.rendering || this.status === 'closed') {
+            throw new DOMException('Rendering can only be started once', 'InvalidStateError');
+        }
+        this.rendering = true;
+        this.status = 'running';
+
+        // Suspensions may be scheduled while suspended, so look for the next one each time
+        for (;;) {
+            const next = Math.min(...Array.from(this.suspensions.keys()).filter(frame => frame >= this.frame));
+            if (!Number.isFinite(next)) {
+                break;
+            }
+            const resolve = this.suspensions.get(next);
+            this.suspensions.delete(next);
+            this.frame = next;
+            this.status = 'suspended';
+            await new Promise<void>(continueRendering => {
+                this.continueRendering = continueRendering;
+                resolve?.();
+            });
+            this.status = 'running';
+        }
+
+        this.frame = this.length;
+        this.rendering = false;
+        this.status = 'closed';
+        return this.createBuffer(this.numberOfChannels, this.length, this.sampleRate);
+    }
+}
+
+/**
+ * Replaces `window.AudioContext` with the fake.
+ * 
+ * Install before rendering the provider, since it checks for Web Audio support
+ * when it mounts. Use a new media element in each test: like in browsers, an
+ * element can only ever get one source node.
+ * 
+ * @param options - Clock, sample rate and autoplay policy
+ * @returns Controller for scripting inputs and uninstalling
+ * 
+ * @example
+ * ```typescript
+ * const clock = new FakeAnimationClock();
+ * const restoreClock = clock.install();
+ * const audio = installFakeWebAudio({ clock });
+ * 
+ * const element = document.createElement('audio');
+ * audio.setElementScript(element, clickTrack({ bpm: 120 }));
+ * setElementPlaying(element, true);
+ * // render the provider, register the element, then:
+ * act(() => clock.advance(5000));
+ * 
+ * audio.uninstall();
+ * restoreClock();
+ * ```
+ */
+export function installFakeWebAudio(options: FakeWebAudioOptions): FakeWebAudioController {
+    const environment: FakeAudioEnvironment = {
+        clock: options.clock,
+        sampleRate: options.sampleRate ?? 44100,
+        requireUserGesture: options.requireUserGesture ?? false,
+        userActivated: false,
+        elementScripts: new WeakMap(),
+        streamScripts: new WeakMap(),
+        connectedElements: new WeakSet(),
+    };
+    const contexts: FakeAudioContext[] = [];
+
+    class InstalledAudioContext extends FakeAudioContext {
+        constructor() {
+            super(environment);
+            contexts.push(this);
+        }
+    }
+
+    // Registered before any resume-on-gesture listener, so activation is recorded first
+    const activate = () => {
+        environment.userActivated = true;
+    };
+    GESTURE_EVENTS.forEach(type => window.addEventListener(type, activate, true));
+
+    const target = window as Window & { AudioContext?: typeof AudioContext };
+    const original = Object.getOwnPropertyDescriptor(target, 'AudioContext');
+    Object.defineProperty(target, 'AudioContext', {
+        value: InstalledAudioContext,
+        configurable: true,
+        writable: true,
+    });
+
+    return {
+        contexts,
+        getContext: () => contexts[contexts.length - 1] ?? null,
+        setElementScript: (element, script) => {
+            environment.elementScripts.set(element, script);
+        },
+        setStreamScript: (stream, script) => {
+            environment.streamScripts.set(stream, script);
+        },
+        uninstall: () => {
+            GESTURE_EVENTS.forEach(type => window.removeEventListener(type, activate, true));
+            contexts.forEach(context => context.dispose());
+            if (original) {
+                Object.defineProperty(target, 'AudioContext', original);
+            } else {
+                delete target.AudioContext;
+            }
+        },
+    };
+}
+
+/**
+ * Replaces `window.OfflineAudioContext` with the fake.
+ * 
+ * Kept apart from installFakeWebAudio, so provider tests do not start
+ * offline analysis of their tracks.
+ * 
+ * @returns Controller for scripting buffers and uninstalling
+ * 
+ * @example
+ * ```typescript
+ * const offline = installFakeOfflineAudio();
+ * const buffer = new OfflineAudioContext(1, 1, 44100).createBuffer(1, 10 * 44100, 44100);
+ * offline.setBufferScript(buffer, clickTrack({ bpm: 120 }));
+ * const beatMap = await analyzeAudioBuffer(buffer);
+ * offline.uninstall();
+ * ```
+ */
+export function installFakeOfflineAudio(): FakeOfflineAudioController {
+    const scripts = new WeakMap<AudioBuffer, SpectrumScript>();
+    const contexts: FakeOfflineAudioContext[] = [];
+
+    class InstalledOfflineAudioContext extends FakeOfflineAudioContext {
+        constructor(numberOfChannels: number, length: number, sampleRate: number) {
+            super(scripts, numberOfChannels, length, sampleRate);
+            contexts.push(this);
+        }
+    }
+
+    const target = window as Window & { OfflineAudioContext?: typeof OfflineAudioContext };
+    const original = Object.getOwnPropertyDescriptor(target, 'OfflineAudioContext');
+    Object.defineProperty(target, 'OfflineAudioContext', {
+        value: InstalledOfflineAudioContext,
+        configurable: true,
+        writable: true,
+    });
+
+    return {
+        contexts,
+        setBufferScript: (buffer, script) => {
+            scripts.set(buffer, script);
+        },
+        uninstall: () => {
+            if (original) {
+                Object.defineProperty(target, 'OfflineAudioContext', original);
+            } else {
+                delete target.OfflineAudioContext;
+            }
+        },
+    };
+}
+
+function defineValue(target: object, key: string, value: unknown): void {
+    Object.defineProperty(target, key, { value, configurable: true, writable: true });
+}
+
+/**
+ * Starts or pauses a media element without loading media, firing the events
+ * a browser would.
+ * 
+ * @param element - Element to start or pause
+ * @param playing - True to start, false to pause
+ */
+export function setElementPlaying(element: HTMLMediaElement, playing: boolean): void {
+    defineValue(element, 'paused', !playing);
+    defineValue(element, 'ended', false);
+    element.dispatchEvent(new Event(playing ? 'play' : 'pause'));
+    if (playing) {
+        element.dispatchEvent(new Event('playing'));
+    }
+}
+
+/**
+ * Ends playback of a media element, firing 'ended'.
+ * 
+ * @param element - Element to end
+ */
+export function endElement(element: HTMLMediaElement): void {
+    defineValue(element, 'paused', true);
+    defineValue(element, 'ended', true);
+    element.dispatchEvent(new Event('ended'));
+}
+
+/**
+ * Fails a media element with a MediaError code, firing 'error'.
+ * 
+ * @param element - Element to fail
+ * @param code - MediaError code: 1 aborted, 2 network, 3 decode, 4 source not supported
+ * @param message - Error message
+ */
+export function failElement(element: HTMLMediaElement, code: 1 | 2 | 3 | 4, message = ''): void {
+    defineValue(element, 'error', { code, message });
+    element.dispatchEvent(new Event('error'));
+}
+
+class FakeTrack extends EventTarget implements FakeMediaStreamTrack {
+    readonly kind = 'audio' as const;
+    readyState: MediaStreamTrackState = 'live';
+    enabled = true;
+
+    stop(): void {
+        // Stopping a track does not fire 'ended' on it
+        this.readyState = 'ended';
+    }
+
+    end(): void {
+        if (this.readyState === 'ended') {
+            return;
+        }
+        this.readyState = 'ended';
+        this.dispatchEvent(new Event('ended'));
+    }
+}
+
+/**
+ * Creates a media stream with live audio tracks, such as microphone input.
+ * 
+ * @param trackCount - Number of audio tracks
+ * @returns The stream, and its tracks for ending them
+ * 
+ * @example
+ * ```typescript
+ * const { stream, tracks } = createFakeMediaStream();
+ * audio.setStreamScript(stream, noise());
+ * // register the stream, then unplug the device:
+ * act(() => tracks[0].end());
+ * ```
+ */
+export function createFakeMediaStream(trackCount = 1): { stream: MediaStream; tracks: FakeMediaStreamTrack[] } {
+    const tracks = Array.from({ length: trackCount }, () => new FakeTrack());
+    const stream = {
+        id: `fake-stream-${Math.random().toString(36).slice(2)}`,
+        get active() {
+            return tracks.some(track => track.readyState === 'live');
+        },
+        getAudioTracks: () => [...tracks],
+        getVideoTracks: () => [],
+        getTracks: () => [...tracks],
+        addEventListener: () => {},
+        removeEventListener: () => {},
+    };
+    return { stream: stream as unknown as MediaStream, tracks };
+}
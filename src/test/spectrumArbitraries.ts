@@ -0,0 +1,82 @@
+/**
+ * Spectrum Arbitraries Module
+ * 
+ * fast-check arbitraries for the scripted inputs of the fake Web Audio graph,
+ * for property tests such as "every click of a steady track is detected once"
+ * or "silence never produces a beat".
+ * 
+ * @module spectrumArbitraries
+ */
+
+import fc from 'fast-check';
+import { clickTrack, mixSpectra, noise, type ClickTrackOptions, type SpectrumScript } from './fakeWebAudio';
+
+/**
+ * Options for clickTrackOptions.
+ */
+export interface ClickTrackArbitraryOptions {
+    /**
+     * Lowest tempo in BPM.
+     * 
+     * @default 60
+     */
+    minBpm?: number;
+
+    /**
+     * Highest tempo in BPM.
+     * 
+     * @default 180
+     */
+    maxBpm?: number;
+}
+
+/**
+ * Generates click tracks a beat detector should lock onto: a clear attack
+ * well above the floor, decaying within the beat interval.
+ * 
+ * @param options - Tempo range
+ * @returns Arbitrary of click track options
+ * 
+ * @example
+ * ```typescript
+ * fc.assert(fc.property(clickTrackOptions(), (track) => {
+ *   audio.setElementScript(element, clickTrack(track));
+ *   // ...
+ * }));
+ * ```
+ */
+export function clickTrackOptions(options: ClickTrackArbitraryOptions = {}): fc.Arbitrary<ClickTrackOptions> {
+    return fc.record({
+        bpm: fc.integer({ min: options.minBpm ?? 60, max: options.maxBpm ?? 180 }),
+        offsetMs: fc.integer({ min: 0, max: 1000 }),
+        level: fc.integer({ min: 180, max: 255 }),
+        floor: fc.integer({ min: 0, max: 40 }),
+        decayMs: fc.integer({ min: 20, max: 80 }),
+    });
+}
+
+/**
+ * Generates noise levels quiet enough to leave clicks audible.
+ * 
+ * @returns Arbitrary of noise scripts
+ */
+export function backgroundNoise(): fc.Arbitrary<SpectrumScript> {
+    return fc.record({
+        level: fc.integer({ min: 0, max: 40 }),
+        seed: fc.integer({ min: 1, max: 0x7fffffff }),
+    }).map(options => noise(options));
+}
+
+/**
+ * Generates click tracks over background noise, paired with the track's
+ * options for computing the expected click times.
+ * 
+ * @param options - Tempo range
+ * @returns Arbitrary of track options and the mixed script
+ */
+export function noisyClickTrack(options: ClickTrackArbitraryOptions = {}): fc.Arbitrary<{ track: ClickTrackOptions; script: SpectrumScript }> {
+    return fc.tuple(clickTrackOptions(options), backgroundNoise()).map(([track, background]) => ({
+        track,
+        script: mixSpectra(clickTrack(track), background),
+    }));
+}
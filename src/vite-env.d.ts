@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to "true" to include the audio debug overlay in production builds */
+  readonly VITE_AUDIO_DEBUG?: string;
+}